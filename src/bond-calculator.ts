@@ -0,0 +1,309 @@
+import { Bondization, BondCoupon } from './types';
+import { moscowDate } from './calendar';
+
+/**
+ * Число дней в году: MOEX считает доходность к погашению как эффективную годовую по базе ACT/365
+ */
+const DAYS_IN_YEAR = 365;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Границы поиска доходности, % годовых
+ */
+const MIN_YIELD = -99;
+const MAX_YIELD = 1000;
+
+/**
+ * Платёж по облигации
+ */
+export interface BondCashFlow {
+  /** Дата платежа 'YYYY-MM-DD' */
+  date: string;
+  /** Купон в валюте номинала */
+  coupon: number;
+  /** Погашаемая часть номинала в валюте номинала */
+  principal: number;
+  /** Сумма платежа */
+  amount: number;
+}
+
+/**
+ * Параметры расчёта по облигации
+ */
+export interface BondCalculationOptions {
+  /**
+   * Дата досрочного погашения (например, дата оферты): платежи после неё не учитываются,
+   * а непогашенный номинал выплачивается в эту дату
+   */
+  redemptionDate?: string | Date;
+}
+
+/**
+ * Показатели процентного риска облигации
+ */
+export interface BondRisk {
+  /** Дюрация Маколея, лет (MOEX публикует её в днях: macaulayDuration * 365) */
+  macaulayDuration: number;
+  /** Модифицированная дюрация: относительное изменение цены на 1 п.п. доходности, % */
+  modifiedDuration: number;
+  /** Выпуклость */
+  convexity: number;
+}
+
+/**
+ * Переводит дату в номер дня от начала эпохи; Date берётся по московскому времени (UTC+3)
+ * @param value - дата 'YYYY-MM-DD' или Date
+ * @returns номер дня
+ */
+function dayNumber(value: string | Date): number {
+  const [year, month, day] = moscowDate(value).split('-').map(Number);
+  return Date.UTC(year, month - 1, day) / MS_PER_DAY;
+}
+
+/**
+ * Размер купона в валюте номинала. Для ещё не объявленных купонов плавающих выпусков
+ * берётся ставка, а без неё — последний известный купон
+ * @param coupon - купон
+ * @param previous - предыдущий известный размер купона
+ */
+function couponAmount(coupon: BondCoupon, previous: number): number {
+  if (coupon.value !== null) {
+    return coupon.value;
+  }
+  if (coupon.valueprc !== null) {
+    const days = dayNumber(coupon.coupondate) - dayNumber(coupon.startdate);
+    return coupon.facevalue * coupon.valueprc / 100 * days / DAYS_IN_YEAR;
+  }
+  return previous;
+}
+
+/**
+ * Округляет сумму до копеек
+ */
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Считает непогашенный номинал облигации на дату
+ * @param bondization - график платежей
+ * @param settlement - дата расчётов
+ * @returns непогашенный номинал в валюте номинала
+ */
+export function outstandingFace(bondization: Bondization, settlement: string | Date): number {
+  const day = dayNumber(settlement);
+  if (bondization.amortizations.length > 0) {
+    return bondization.amortizations
+      .filter(amortization => dayNumber(amortization.amortdate) > day)
+      .reduce((sum, amortization) => sum + (amortization.value ?? 0), 0);
+  }
+  const current = bondization.coupons.find(coupon => dayNumber(coupon.coupondate) > day);
+  return current ? current.facevalue : 0;
+}
+
+/**
+ * Считает накопленный купонный доход (НКД) на дату расчётов: купон текущего периода,
+ * пропорциональный числу прошедших дней, с округлением до копеек
+ * @param bondization - график платежей
+ * @param settlement - дата расчётов
+ * @returns НКД в валюте номинала (0 вне купонных периодов)
+ */
+export function accruedInterest(bondization: Bondization, settlement: string | Date): number {
+  const day = dayNumber(settlement);
+  let previous = 0;
+  for (const coupon of bondization.coupons) {
+    const amount = couponAmount(coupon, previous);
+    previous = amount;
+    const start = dayNumber(coupon.startdate);
+    const end = dayNumber(coupon.coupondate);
+    if (start <= day && day < end) {
+      return roundMoney(amount * (day - start) / (end - start));
+    }
+  }
+  return 0;
+}
+
+/**
+ * Составляет будущие платежи по облигации после даты расчётов
+ * @param bondization - график платежей
+ * @param settlement - дата расчётов
+ * @param options - дата досрочного погашения
+ * @returns платежи в порядке дат
+ */
+export function bondCashFlows(
+  bondization: Bondization,
+  settlement: string | Date,
+  options: BondCalculationOptions = {}
+): BondCashFlow[] {
+  const day = dayNumber(settlement);
+  const flows = new Map<string, BondCashFlow>();
+  const flowAt = (date: string): BondCashFlow => {
+    let flow = flows.get(date);
+    if (!flow) {
+      flow = { date, coupon: 0, principal: 0, amount: 0 };
+      flows.set(date, flow);
+    }
+    return flow;
+  };
+
+  let previous = 0;
+  for (const coupon of bondization.coupons) {
+    const amount = couponAmount(coupon, previous);
+    previous = amount;
+    if (dayNumber(coupon.coupondate) > day) {
+      flowAt(coupon.coupondate).coupon += amount;
+    }
+  }
+  if (bondization.amortizations.length > 0) {
+    for (const amortization of bondization.amortizations) {
+      if (dayNumber(amortization.amortdate) > day) {
+        flowAt(amortization.amortdate).principal += amortization.value ?? 0;
+      }
+    }
+  } else if (bondization.coupons.length > 0) {
+    // Без графика амортизаций номинал погашается в дату последнего купона
+    const last = bondization.coupons[bondization.coupons.length - 1];
+    if (dayNumber(last.coupondate) > day) {
+      flowAt(last.coupondate).principal += last.facevalue;
+    }
+  }
+
+  let result = [...flows.values()].sort((a, b) => dayNumber(a.date) - dayNumber(b.date));
+
+  if (options.redemptionDate !== undefined) {
+    const redemption = dayNumber(options.redemptionDate);
+    const remaining = result
+      .filter(flow => dayNumber(flow.date) > redemption)
+      .reduce((sum, flow) => sum + flow.principal, 0);
+    result = result.filter(flow => dayNumber(flow.date) <= redemption);
+    if (remaining > 0) {
+      const date = typeof options.redemptionDate === 'string'
+        ? options.redemptionDate
+        : new Date(redemption * MS_PER_DAY).toISOString().slice(0, 10);
+      const last = result[result.length - 1];
+      if (last && last.date === date) {
+        last.principal += remaining;
+      } else {
+        result.push({ date, coupon: 0, principal: remaining, amount: 0 });
+      }
+    }
+  }
+
+  for (const flow of result) {
+    flow.amount = flow.coupon + flow.principal;
+  }
+  return result;
+}
+
+/**
+ * Дисконтирует платежи по эффективной годовой ставке
+ * @param flows - платежи
+ * @param day - номер дня расчётов
+ * @param yieldPercent - доходность, % годовых
+ * @returns приведённая стоимость
+ */
+function presentValue(flows: BondCashFlow[], day: number, yieldPercent: number): number {
+  const base = 1 + yieldPercent / 100;
+  return flows.reduce((sum, flow) => sum + flow.amount / Math.pow(base, (dayNumber(flow.date) - day) / DAYS_IN_YEAR), 0);
+}
+
+/**
+ * Возвращает платежи для расчёта, проверяя, что они есть
+ */
+function requireCashFlows(bondization: Bondization, settlement: string | Date, options: BondCalculationOptions): BondCashFlow[] {
+  const flows = bondCashFlows(bondization, settlement, options);
+  if (flows.length === 0) {
+    throw new Error('No bond cash flows after settlement date');
+  }
+  return flows;
+}
+
+/**
+ * Считает чистую цену облигации по доходности
+ * @param bondization - график платежей
+ * @param yieldPercent - эффективная доходность к погашению, % годовых
+ * @param settlement - дата расчётов
+ * @param options - дата досрочного погашения
+ * @returns чистая цена, % от непогашенного номинала
+ */
+export function priceFromYield(
+  bondization: Bondization,
+  yieldPercent: number,
+  settlement: string | Date,
+  options: BondCalculationOptions = {}
+): number {
+  const flows = requireCashFlows(bondization, settlement, options);
+  const dirty = presentValue(flows, dayNumber(settlement), yieldPercent);
+  const face = outstandingFace(bondization, settlement);
+  return (dirty - accruedInterest(bondization, settlement)) / face * 100;
+}
+
+/**
+ * Считает эффективную доходность к погашению (или к дате оферты) по чистой цене
+ * @param bondization - график платежей
+ * @param price - чистая цена, % от непогашенного номинала
+ * @param settlement - дата расчётов
+ * @param options - дата досрочного погашения
+ * @returns доходность, % годовых
+ */
+export function yieldToMaturity(
+  bondization: Bondization,
+  price: number,
+  settlement: string | Date,
+  options: BondCalculationOptions = {}
+): number {
+  const flows = requireCashFlows(bondization, settlement, options);
+  const day = dayNumber(settlement);
+  const dirty = price / 100 * outstandingFace(bondization, settlement) + accruedInterest(bondization, settlement);
+
+  // Приведённая стоимость убывает с ростом доходности, поэтому корень ищется делением отрезка пополам
+  let low = MIN_YIELD;
+  let high = MAX_YIELD;
+  for (let i = 0; i < 200 && high - low > 1e-12; i++) {
+    const mid = (low + high) / 2;
+    if (presentValue(flows, day, mid) > dirty) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Считает дюрацию и выпуклость облигации при заданной доходности
+ * @param bondization - график платежей
+ * @param yieldPercent - эффективная доходность к погашению, % годовых
+ * @param settlement - дата расчётов
+ * @param options - дата досрочного погашения
+ * @returns дюрация Маколея, модифицированная дюрация и выпуклость
+ */
+export function bondRisk(
+  bondization: Bondization,
+  yieldPercent: number,
+  settlement: string | Date,
+  options: BondCalculationOptions = {}
+): BondRisk {
+  const flows = requireCashFlows(bondization, settlement, options);
+  const day = dayNumber(settlement);
+  const base = 1 + yieldPercent / 100;
+
+  let price = 0;
+  let weightedTime = 0;
+  let weightedConvexity = 0;
+  for (const flow of flows) {
+    const t = (dayNumber(flow.date) - day) / DAYS_IN_YEAR;
+    const discounted = flow.amount / Math.pow(base, t);
+    price += discounted;
+    weightedTime += t * discounted;
+    weightedConvexity += t * (t + 1) * discounted;
+  }
+
+  const macaulayDuration = weightedTime / price;
+  return {
+    macaulayDuration,
+    modifiedDuration: macaulayDuration / base,
+    convexity: weightedConvexity / (price * base * base)
+  };
+}
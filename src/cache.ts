@@ -0,0 +1,156 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+/**
+ * Категории запросов с разным сроком жизни кэша
+ */
+export type CacheCategory =
+  /** Справочные данные: списки бумаг, торговые сессии */
+  | 'reference'
+  /** Текущие рыночные данные и стаканы */
+  | 'marketdata'
+  /** Итоги торгов и свечи за прошедшие периоды */
+  | 'history'
+  /** Лента сделок */
+  | 'trades';
+
+/**
+ * Сроки жизни кэша по умолчанию для каждой категории, мс (0 — не кэшировать)
+ */
+export const DEFAULT_CACHE_TTL: Record<CacheCategory, number> = {
+  reference: 24 * 60 * 60 * 1000,
+  marketdata: 5 * 1000,
+  history: 60 * 60 * 1000,
+  trades: 0
+};
+
+/**
+ * Запись в кэше
+ */
+export interface CacheEntry {
+  /** Разобранный ответ ISS */
+  value: unknown;
+  /** Момент сохранения, мс с эпохи */
+  storedAt: number;
+  /** Момент, после которого запись считается устаревшей, мс с эпохи */
+  expiresAt: number;
+}
+
+/**
+ * Хранилище кэша ответов
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Настройки кэша клиента
+ */
+export interface CacheOptions {
+  /** Хранилище записей */
+  store: CacheStore;
+  /** Сроки жизни по категориям, мс; не указанные берутся из DEFAULT_CACHE_TTL */
+  ttl?: Partial<Record<CacheCategory, number>>;
+  /** Сколько мс после истечения срока отдавать устаревшую запись, обновляя её в фоне */
+  staleWhileRevalidate?: number;
+}
+
+/**
+ * Хранилище в памяти с вытеснением давно не использованных записей (LRU)
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly maxEntries: number;
+
+  constructor(options: { maxEntries?: number } = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Перемещаем запись в конец порядка обхода Map — она становится самой свежей
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Номер записи во временный файл: параллельные записи одного ключа в процессе не делят один файл
+ */
+let tempFileCounter = 0;
+
+/**
+ * Хранилище в файловой системе: по одному JSON-файлу на запись
+ */
+export class FileCacheStore implements CacheStore {
+  private readonly directory: string;
+
+  constructor(options: { directory: string }) {
+    this.directory = options.directory;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.fileFor(key), 'utf8')) as CacheEntry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    // Пишем во временный файл и переименовываем, чтобы не оставить обрезанную запись
+    const file = this.fileFor(key);
+    const tmp = `${file}.${process.pid}.${tempFileCounter++}.tmp`;
+    try {
+      await fs.writeFile(tmp, JSON.stringify(entry), 'utf8');
+      await fs.rename(tmp, file);
+    } catch (error) {
+      await fs.rm(tmp, { force: true });
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.fileFor(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch {
+      return;
+    }
+    await Promise.all(files
+      .filter(file => file.endsWith('.json'))
+      .map(file => fs.rm(path.join(this.directory, file), { force: true })));
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.directory, `${createHash('sha1').update(key).digest('hex')}.json`);
+  }
+}
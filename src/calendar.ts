@@ -0,0 +1,206 @@
+import { CalendarDay, EngineDailyTableDay, EngineSchedule, EngineTimetableDay } from './types';
+
+/**
+ * Смещение московского времени от UTC: с 2014 года Москва живёт в UTC+3 без перехода на летнее время
+ */
+const MOSCOW_OFFSET_MS = 3 * 60 * 60 * 1000;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Сколько дней просматривать в поисках следующего или предыдущего торгового дня
+ */
+const MAX_SEARCH_DAYS = 366;
+
+/**
+ * Время торгов в течение дня по московскому времени
+ */
+export interface TradingHours {
+  /** Начало торгов 'HH:MM:SS' */
+  start: string;
+  /** Окончание торгов 'HH:MM:SS' */
+  stop: string;
+}
+
+/**
+ * Возвращает дату по московскому времени независимо от часового пояса машины
+ * @param value - дата 'YYYY-MM-DD' или Date
+ * @returns дата 'YYYY-MM-DD'
+ */
+export function moscowDate(value: string | Date): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  return new Date(value.getTime() + MOSCOW_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Возвращает время по московскому времени независимо от часового пояса машины
+ * @param value - момент времени
+ * @returns время 'HH:MM:SS'
+ */
+export function moscowTime(value: Date): string {
+  return new Date(value.getTime() + MOSCOW_OFFSET_MS).toISOString().slice(11, 19);
+}
+
+/**
+ * Сдвигает дату на заданное число календарных дней
+ * @param value - дата 'YYYY-MM-DD' или Date (берётся по московскому времени)
+ * @param days - число дней, в том числе отрицательное
+ * @returns дата 'YYYY-MM-DD'
+ */
+export function shiftDate(value: string | Date, days: number): string {
+  const time = Date.parse(`${moscowDate(value)}T00:00:00Z`) + days * MS_PER_DAY;
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Возвращает день недели даты
+ * @param day - дата 'YYYY-MM-DD'
+ * @returns 1 — понедельник, 7 — воскресенье
+ */
+function weekDay(day: string): number {
+  return new Date(`${day}T00:00:00Z`).getUTCDay() || 7;
+}
+
+/**
+ * Календарь торговых дней и часов торговой системы.
+ * Торговый день определяется по расписанию на дату (dailytable), затем по календарю ISS (off_days),
+ * затем по недельному расписанию (timetable); без данных торговыми считаются будни.
+ * Все даты и время считаются по московскому времени
+ */
+export class TradingCalendar {
+  private readonly weekly = new Map<number, EngineTimetableDay>();
+  private readonly daily = new Map<string, EngineDailyTableDay>();
+  private readonly days = new Map<string, boolean>();
+
+  /**
+   * @param schedule - расписание торговой системы
+   * @param days - дни календаря ISS, отличающиеся от обычной рабочей недели
+   */
+  constructor(schedule: EngineSchedule, days: CalendarDay[] = []) {
+    for (const row of schedule.timetable) {
+      this.weekly.set(row.week_day, row);
+    }
+    for (const row of schedule.dailytable) {
+      this.daily.set(row.date, row);
+    }
+    for (const day of days) {
+      this.days.set(day.tradedate, day.isTraded);
+    }
+  }
+
+  /**
+   * Проверяет, идут ли в этот день торги
+   * @param date - дата 'YYYY-MM-DD' или Date
+   */
+  isTradingDay(date: string | Date): boolean {
+    const day = moscowDate(date);
+    const daily = this.daily.get(day);
+    if (daily) {
+      return daily.is_work_day === 1;
+    }
+    const traded = this.days.get(day);
+    if (traded !== undefined) {
+      return traded;
+    }
+    const weekly = this.weekly.get(weekDay(day));
+    if (weekly) {
+      return weekly.is_work_day === 1;
+    }
+    return weekDay(day) <= 5;
+  }
+
+  /**
+   * Возвращает время торгов в этот день
+   * @param date - дата 'YYYY-MM-DD' или Date
+   * @returns время торгов или null, если день неторговый или расписание неизвестно
+   */
+  tradingHours(date: string | Date): TradingHours | null {
+    const day = moscowDate(date);
+    if (!this.isTradingDay(day)) {
+      return null;
+    }
+    const daily = this.daily.get(day);
+    if (daily?.start_time && daily.stop_time) {
+      return { start: daily.start_time, stop: daily.stop_time };
+    }
+    const weekly = this.weekly.get(weekDay(day));
+    if (weekly?.is_work_day === 1 && weekly.start_time && weekly.stop_time) {
+      return { start: weekly.start_time, stop: weekly.stop_time };
+    }
+    // Рабочая суббота по календарю: берём часы обычного рабочего дня
+    for (const row of this.weekly.values()) {
+      if (row.is_work_day === 1 && row.start_time && row.stop_time) {
+        return { start: row.start_time, stop: row.stop_time };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Проверяет, идут ли торги в указанный момент
+   * @param now - момент времени (по умолчанию — текущий)
+   */
+  isOpen(now: Date = new Date()): boolean {
+    const hours = this.tradingHours(now);
+    if (!hours) {
+      return false;
+    }
+    const time = moscowTime(now);
+    return time >= hours.start && time < hours.stop;
+  }
+
+  /**
+   * Возвращает ближайший торговый день после даты
+   * @param date - дата 'YYYY-MM-DD' или Date
+   * @returns дата 'YYYY-MM-DD'
+   * @throws Error, если торгового дня нет в пределах года
+   */
+  nextTradingDay(date: string | Date): string {
+    return this.findTradingDay(date, 1);
+  }
+
+  /**
+   * Возвращает ближайший торговый день до даты
+   * @param date - дата 'YYYY-MM-DD' или Date
+   * @returns дата 'YYYY-MM-DD'
+   * @throws Error, если торгового дня нет в пределах года
+   */
+  previousTradingDay(date: string | Date): string {
+    return this.findTradingDay(date, -1);
+  }
+
+  /**
+   * Возвращает торговые дни периода, включая его границы
+   * @param from - начало периода 'YYYY-MM-DD' или Date
+   * @param till - конец периода 'YYYY-MM-DD' или Date
+   * @returns даты 'YYYY-MM-DD' по возрастанию
+   */
+  tradingDaysBetween(from: string | Date, till: string | Date): string[] {
+    const last = moscowDate(till);
+    const days: string[] = [];
+    for (let day = moscowDate(from); day <= last; day = shiftDate(day, 1)) {
+      if (this.isTradingDay(day)) {
+        days.push(day);
+      }
+    }
+    return days;
+  }
+
+  /**
+   * Ищет торговый день, двигаясь от даты в заданную сторону
+   * @param date - дата, с которой начинается поиск (сама дата не учитывается)
+   * @param step - 1 — вперёд, -1 — назад
+   */
+  private findTradingDay(date: string | Date, step: 1 | -1): string {
+    let day = moscowDate(date);
+    for (let i = 0; i < MAX_SEARCH_DAYS; i++) {
+      day = shiftDate(day, step);
+      if (this.isTradingDay(day)) {
+        return day;
+      }
+    }
+    throw new Error(`No trading day within ${MAX_SEARCH_DAYS} days of ${moscowDate(date)}`);
+  }
+}
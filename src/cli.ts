@@ -0,0 +1,376 @@
+#!/usr/bin/env node
+import { parseArgs } from 'util';
+import {
+  getAllSecurities,
+  getMarketDataBatch,
+  getTradingSessions,
+  getCandles,
+  searchSecurities
+} from './moex-api';
+import {
+  MoexError,
+  MoexNotFoundError,
+  MoexRateLimitError,
+  MoexHttpError,
+  MoexNetworkError,
+  MoexRouteError,
+  MoexParseError
+} from './errors';
+import { Engine, Market, Interval } from './types';
+
+/**
+ * Коды завершения CLI
+ */
+export const EXIT_CODES = {
+  OK: 0,
+  /** Непредвиденная ошибка */
+  ERROR: 1,
+  /** Неверные аргументы командной строки */
+  USAGE: 2,
+  /** Бумага или ресурс ISS не найдены (MoexNotFoundError) */
+  NOT_FOUND: 3,
+  /** Превышен лимит запросов (MoexRateLimitError) */
+  RATE_LIMIT: 4,
+  /** Сетевая ошибка или таймаут (MoexNetworkError) */
+  NETWORK: 5,
+  /** ISS ответил ошибкой HTTP (MoexHttpError) */
+  HTTP: 6,
+  /** Ответ ISS не разобран или не совпал со схемой (MoexParseError, MoexSchemaError) */
+  PARSE: 7,
+  /** Неизвестная торговая система, рынок или режим торгов (MoexRouteError) */
+  ROUTE: 8
+} as const;
+
+/**
+ * Форматы вывода
+ */
+export type OutputFormat = 'table' | 'json' | 'csv' | 'ndjson';
+
+const FORMATS: OutputFormat[] = ['table', 'json', 'csv', 'ndjson'];
+
+/**
+ * Вывод CLI: по умолчанию — stdout и stderr процесса
+ */
+export interface CliOutput {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+const USAGE = `Usage: iss-moex <command> [arguments] [options]
+
+Commands:
+  securities                 list securities of a market
+  quote <secid...>           current market data
+  sessions                   trading sessions of a market
+  candles <secid>            candles (OHLCV)
+  search <query>             search securities by ticker, name or ISIN
+
+Options:
+  --engine <engine>          trading engine (default: stock)
+  --market <market>          market (default: shares)
+  --board <board>            board for candles
+  --interval <minutes>       candle interval: 1, 10, 60, 24, 7, 31, 4 (default: 24)
+  --from <YYYY-MM-DD>        start of the candle period
+  --till <YYYY-MM-DD>        end of the candle period
+  --limit <n>                number of rows for securities and search
+  --format <format>          table, json, csv or ndjson (default: table)
+  --columns <a,b,c>          columns to print
+  -h, --help                 show this help
+`;
+
+/**
+ * Колонки таблицы по умолчанию: в остальных форматах выводятся все колонки
+ */
+const TABLE_COLUMNS: Record<string, string[]> = {
+  securities: ['SECID', 'BOARDID', 'SHORTNAME', 'PREVPRICE', 'LOTSIZE', 'CURRENCYID'],
+  quote: ['SECID', 'BOARDID', 'LAST', 'LASTTOPREVPRICE', 'VOLTODAY', 'VALTODAY', 'UPDATETIME'],
+  candles: ['begin', 'open', 'high', 'low', 'close', 'volume'],
+  search: ['secid', 'shortname', 'name', 'isin', 'type', 'primary_boardid']
+};
+
+/**
+ * Ошибка в аргументах командной строки
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+type Row = Record<string, unknown>;
+
+/**
+ * Аргументы командной строки
+ */
+const OPTIONS = {
+  engine: { type: 'string', default: Engine.STOCK },
+  market: { type: 'string', default: Market.SHARES },
+  board: { type: 'string' },
+  interval: { type: 'string', default: String(Interval.DAY) },
+  from: { type: 'string' },
+  till: { type: 'string' },
+  limit: { type: 'string' },
+  format: { type: 'string', default: 'table' },
+  columns: { type: 'string' },
+  help: { type: 'boolean', short: 'h', default: false }
+} as const;
+
+/**
+ * Разбирает аргументы командной строки
+ * @param args - аргументы без node и имени скрипта
+ * @throws UsageError при неизвестном аргументе или отсутствующем значении
+ */
+function parseCliArgs(args: string[]) {
+  try {
+    return parseArgs({ args, allowPositionals: true, options: OPTIONS });
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+}
+
+/**
+ * Проверяет, что значение входит в перечисление
+ * @param values - допустимые значения
+ * @param value - значение аргумента
+ * @param option - имя аргумента для текста ошибки
+ */
+function oneOf<T extends string>(values: T[], value: string, option: string): T {
+  if (!values.includes(value as T)) {
+    throw new UsageError(`Invalid --${option} "${value}". Expected one of: ${values.join(', ')}`);
+  }
+  return value as T;
+}
+
+/**
+ * Разбирает положительное целое число
+ * @param value - значение аргумента
+ * @param option - имя аргумента для текста ошибки
+ */
+function positiveInteger(value: string, option: string): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number <= 0) {
+    throw new UsageError(`Invalid --${option} "${value}". Expected a positive integer`);
+  }
+  return number;
+}
+
+/**
+ * Проверяет дату в формате YYYY-MM-DD
+ * @param value - значение аргумента (может отсутствовать)
+ * @param option - имя аргумента для текста ошибки
+ */
+function isoDate(value: string | undefined, option: string): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  // Date.parse переносит несуществующие даты (2024-02-30) на следующий месяц, поэтому сверяем обратно
+  const time = Date.parse(`${value}T00:00:00Z`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(time) || new Date(time).toISOString().slice(0, 10) !== value) {
+    throw new UsageError(`Invalid --${option} "${value}". Expected a date YYYY-MM-DD`);
+  }
+  return value;
+}
+
+/**
+ * Приводит значение ячейки к строке для таблицы и CSV
+ * @param value - значение
+ */
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Экранирует значение CSV по RFC 4180
+ * @param text - значение ячейки
+ */
+function csvCell(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Собирает колонки строк в порядке первого появления
+ * @param rows - строки
+ */
+function allColumns(rows: object[]): string[] {
+  const columns = new Set<string>();
+  for (const row of rows) {
+    for (const column of Object.keys(row)) {
+      columns.add(column);
+    }
+  }
+  return [...columns];
+}
+
+/**
+ * Форматирует строки для вывода
+ * @param rows - строки
+ * @param columns - выводимые колонки
+ * @param format - формат вывода
+ * @returns текст без завершающего перевода строки
+ */
+export function formatRows<T extends object>(rows: T[], columns: string[], format: OutputFormat): string {
+  const cell = (row: T, column: string): unknown => (row as Row)[column];
+  const pick = (row: T): Row => Object.fromEntries(columns.map(column => [column, cell(row, column) ?? null]));
+
+  switch (format) {
+    case 'json':
+      return JSON.stringify(rows.map(pick), null, 2);
+    case 'ndjson':
+      return rows.map(row => JSON.stringify(pick(row))).join('\n');
+    case 'csv':
+      return [columns, ...rows.map(row => columns.map(column => cellText(cell(row, column))))]
+        .map(cells => cells.map(csvCell).join(','))
+        .join('\n');
+    case 'table': {
+      const cells = rows.map(row => columns.map(column => cellText(cell(row, column))));
+      const widths = columns.map((column, i) => Math.max(column.length, ...cells.map(line => line[i].length)));
+      const line = (values: string[], numeric: boolean[]) => values
+        .map((value, i) => numeric[i] ? value.padStart(widths[i]) : value.padEnd(widths[i]))
+        .join('  ')
+        .trimEnd();
+      const numeric = columns.map(column => rows.some(row => typeof cell(row, column) === 'number'));
+      return [
+        line(columns, numeric),
+        line(widths.map(width => '-'.repeat(width)), numeric),
+        ...cells.map(values => line(values, numeric))
+      ].join('\n');
+    }
+  }
+}
+
+/**
+ * Выбирает код завершения по типу ошибки
+ * @param error - ошибка
+ */
+export function exitCodeFor(error: unknown): number {
+  if (error instanceof UsageError) {
+    return EXIT_CODES.USAGE;
+  }
+  if (error instanceof MoexNotFoundError) {
+    return EXIT_CODES.NOT_FOUND;
+  }
+  if (error instanceof MoexRateLimitError) {
+    return EXIT_CODES.RATE_LIMIT;
+  }
+  if (error instanceof MoexHttpError) {
+    return EXIT_CODES.HTTP;
+  }
+  if (error instanceof MoexNetworkError) {
+    return EXIT_CODES.NETWORK;
+  }
+  if (error instanceof MoexParseError) {
+    return EXIT_CODES.PARSE;
+  }
+  if (error instanceof MoexRouteError) {
+    return EXIT_CODES.ROUTE;
+  }
+  return EXIT_CODES.ERROR;
+}
+
+/**
+ * Выполняет команду CLI
+ * @param args - аргументы командной строки без node и имени скрипта
+ * @param output - куда выводить результат и ошибки
+ * @returns Promise с кодом завершения
+ */
+export async function runCli(
+  args: string[],
+  output: CliOutput = {
+    stdout: text => process.stdout.write(text),
+    stderr: text => process.stderr.write(text)
+  }
+): Promise<number> {
+  try {
+    const { values, positionals } = parseCliArgs(args);
+
+    const [command, ...rest] = positionals;
+    if (values.help || command === undefined) {
+      (values.help ? output.stdout : output.stderr)(USAGE);
+      return values.help ? EXIT_CODES.OK : EXIT_CODES.USAGE;
+    }
+
+    const engine = oneOf(Object.values(Engine), values.engine, 'engine');
+    const market = oneOf(Object.values(Market), values.market, 'market');
+    const format = oneOf(FORMATS, values.format, 'format');
+    const limit = values.limit === undefined ? undefined : positiveInteger(values.limit, 'limit');
+
+    let rows: object[];
+    let exitCode: number = EXIT_CODES.OK;
+    switch (command) {
+      case 'securities':
+        rows = await getAllSecurities(engine, market, { maxRows: limit });
+        break;
+      case 'quote': {
+        if (rest.length === 0) {
+          throw new UsageError('quote requires at least one secid');
+        }
+        const { data, missing } = await getMarketDataBatch(rest, engine, market);
+        rows = [...data.values()];
+        for (const secid of missing) {
+          output.stderr(`No market data for ${secid}\n`);
+          exitCode = EXIT_CODES.NOT_FOUND;
+        }
+        break;
+      }
+      case 'sessions':
+        rows = await getTradingSessions(engine, market);
+        break;
+      case 'candles': {
+        if (rest.length !== 1) {
+          throw new UsageError('candles requires exactly one secid');
+        }
+        const intervals = Object.values(Interval).filter((value): value is Interval => typeof value === 'number');
+        const interval = Number(values.interval) as Interval;
+        if (!intervals.includes(interval)) {
+          throw new UsageError(`Invalid --interval "${values.interval}". Expected one of: ${intervals.join(', ')}`);
+        }
+        rows = await getCandles(rest[0], {
+          engine,
+          market,
+          board: values.board,
+          interval,
+          from: isoDate(values.from, 'from'),
+          till: isoDate(values.till, 'till')
+        });
+        break;
+      }
+      case 'search':
+        if (rest.length === 0) {
+          throw new UsageError('search requires a query');
+        }
+        rows = await searchSecurities(rest.join(' '), { limit });
+        break;
+      default:
+        throw new UsageError(`Unknown command "${command}"`);
+    }
+
+    const columns = values.columns
+      ? values.columns.split(',').map(column => column.trim()).filter(Boolean)
+      : format === 'table' && TABLE_COLUMNS[command] ? TABLE_COLUMNS[command] : allColumns(rows);
+    const text = formatRows(rows, columns, format);
+    if (text) {
+      output.stdout(`${text}\n`);
+    }
+    return exitCode;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      output.stderr(`${error.message}\n\n${USAGE}`);
+    } else {
+      output.stderr(`${error instanceof MoexError ? error.message : String(error)}\n`);
+    }
+    return exitCodeFor(error);
+  }
+}
+
+if (require.main === module) {
+  void runCli(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
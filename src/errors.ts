@@ -0,0 +1,125 @@
+import { SchemaDrift } from './schema';
+
+/**
+ * Параметры, общие для всех ошибок библиотеки
+ */
+export interface MoexErrorOptions {
+  /** Адрес запроса, на котором произошла ошибка */
+  url?: string;
+  /** Исходная ошибка */
+  cause?: unknown;
+}
+
+/**
+ * Параметры ошибки HTTP-ответа
+ */
+export interface MoexHttpErrorOptions extends MoexErrorOptions {
+  /** HTTP-статус ответа */
+  status: number;
+  /** Тело ответа, если его удалось прочитать */
+  body?: string;
+}
+
+/**
+ * Базовый класс ошибок при обращении к MOEX ISS
+ */
+export class MoexError extends Error {
+  readonly url?: string;
+  readonly cause?: unknown;
+
+  constructor(message: string, options: MoexErrorOptions = {}) {
+    super(message);
+    this.name = 'MoexError';
+    this.url = options.url;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * ISS ответил статусом, отличным от 2xx
+ */
+export class MoexHttpError extends MoexError {
+  readonly status: number;
+  readonly body?: string;
+
+  constructor(message: string, options: MoexHttpErrorOptions) {
+    super(message, options);
+    this.name = 'MoexHttpError';
+    this.status = options.status;
+    this.body = options.body;
+  }
+}
+
+/**
+ * ISS ответил 404: запрошенного ресурса не существует
+ */
+export class MoexNotFoundError extends MoexHttpError {
+  constructor(message: string, options: MoexHttpErrorOptions) {
+    super(message, options);
+    this.name = 'MoexNotFoundError';
+  }
+}
+
+/**
+ * ISS ответил 429: превышен лимит запросов
+ */
+export class MoexRateLimitError extends MoexHttpError {
+  /** Пауза из заголовка Retry-After, мс */
+  readonly retryAfter?: number;
+
+  constructor(message: string, options: MoexHttpErrorOptions & { retryAfter?: number }) {
+    super(message, options);
+    this.name = 'MoexRateLimitError';
+    this.retryAfter = options.retryAfter;
+  }
+}
+
+/**
+ * Запрос не дошёл до ISS или ответ не был получен (сеть, DNS, таймаут)
+ */
+export class MoexNetworkError extends MoexError {
+  constructor(message: string, options: MoexErrorOptions = {}) {
+    super(message, options);
+    this.name = 'MoexNetworkError';
+  }
+}
+
+/**
+ * Сочетание торговой системы, рынка и режима торгов отсутствует в справочнике ISS
+ */
+export class MoexRouteError extends MoexError {
+  readonly engine: string;
+  readonly market: string;
+  readonly board?: string;
+
+  constructor(message: string, options: MoexErrorOptions & { engine: string; market: string; board?: string }) {
+    super(message, options);
+    this.name = 'MoexRouteError';
+    this.engine = options.engine;
+    this.market = options.market;
+    this.board = options.board;
+  }
+}
+
+/**
+ * Ответ ISS не удалось разобрать
+ */
+export class MoexParseError extends MoexError {
+  constructor(message: string, options: MoexErrorOptions = {}) {
+    super(message, options);
+    this.name = 'MoexParseError';
+  }
+}
+
+/**
+ * Ответ ISS разошёлся со схемой: пропали колонки или изменились типы значений
+ */
+export class MoexSchemaError extends MoexParseError {
+  readonly drift: SchemaDrift;
+
+  constructor(message: string, options: MoexErrorOptions & { drift: SchemaDrift }) {
+    super(message, options);
+    this.name = 'MoexSchemaError';
+    this.drift = options.drift;
+  }
+}
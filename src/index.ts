@@ -1 +1,12 @@
 export * from './moex-api';
+export * from './moex-client';
+export * from './errors';
+export * from './rate-limiter';
+export * from './cache';
+export * from './schema';
+export * from './orderbook';
+export * from './bond-calculator';
+export * from './subscription';
+export * from './stream';
+export * from './calendar';
+export * from './normalize';
@@ -1,54 +1,233 @@
-import { fetch } from 'undici';
-import { Security, MarketData, Engine, Market } from './types';
+import {
+  MoexClient,
+  RequestOptions,
+  NormalizeOptions,
+  SearchSecuritiesOptions,
+  MarketDataBatchOptions,
+  SubscribeMarketDataOptions,
+  PaginationOptions,
+  CandlesOptions,
+  HistoryOptions,
+  TradesOptions,
+  PollTradesOptions
+} from './moex-client';
+import { MarketDataSubscription } from './subscription';
+import { TradingCalendar } from './calendar';
+import {
+  IssIndex,
+  IssEngine,
+  IssMarket,
+  IssBoard,
+  Security,
+  SecurityFor,
+  SecurityBoard,
+  SecurityInfo,
+  SecuritySearchResult,
+  Bondization,
+  CbrRate,
+  CurrencyFixing,
+  IndicativeRate,
+  TradingSession,
+  EngineSchedule,
+  CalendarDay,
+  MarketData,
+  MarketDataFor,
+  AnyMarketData,
+  IndexMarketData,
+  IndexInfo,
+  IndexConstituent,
+  MarketDataBatch,
+  SecurityWithMarketData,
+  Candle,
+  HistoryRow,
+  Trade,
+  OrderBook,
+  Engine,
+  Market,
+  Normalized
+} from './types';
 
 // Реэкспорт интерфейсов и enum'ов для обратной совместимости
-export { Security, MarketData, Engine, Market } from './types';
+export {
+  BondsSecurity,
+  FuturesSecurity,
+  CurrencySecurity,
+  IndexSecurity,
+  AnySecurity,
+  SecurityFor,
+  SharesMarketData,
+  BaseMarketData,
+  BondsMarketData,
+  FuturesMarketData,
+  CurrencyMarketData,
+  AnyMarketData,
+  MarketDataFor,
+  SecurityDescription,
+  SecurityDescriptionField,
+  SecurityInfo,
+  SecuritySearchResult,
+  BondCoupon,
+  BondAmortization,
+  BondOffer,
+  Bondization,
+  IndexMarketData,
+  IndexInfo,
+  IndexConstituent,
+  CbrRate,
+  CurrencyFixing,
+  IndicativeRate,
+  Decimal,
+  Normalized,
+  NormalizedDateField,
+  NormalizedTimestampField,
+  NormalizedPriceField,
+  TradingSession,
+  EngineTimetableDay,
+  EngineDailyTableDay,
+  EngineSchedule,
+  CalendarDay,
+  IssEngine,
+  IssMarket,
+  IssBoard,
+  IssBoardGroup,
+  IssSecurityType,
+  IssSecurityGroup,
+  IssIndex,
+  Security,
+  SecurityBoard,
+  MarketData,
+  MarketDataBatch,
+  MarketDataChanges,
+  MarketDataUpdate,
+  SecurityWithMarketData,
+  Candle,
+  HistoryRow,
+  Trade,
+  OrderBook,
+  OrderBookRow,
+  OrderBookLevel,
+  CumulativeOrderBookLevel,
+  Engine,
+  Market,
+  Board,
+  Interval
+} from './types';
 
 /**
- * Базовый URL для API MOEX
+ * Клиент, через который работают функции модуля
  */
-const MOEX_API_BASE_URL = 'https://iss.moex.com/iss';
+let defaultClient: MoexClient | undefined;
 
 /**
- * Получает список ценных бумаг с MOEX
+ * Возвращает клиент по умолчанию (создаётся при первом обращении)
+ * @returns клиент MOEX ISS
+ */
+export function getDefaultClient(): MoexClient {
+  if (!defaultClient) {
+    defaultClient = new MoexClient();
+  }
+  return defaultClient;
+}
+
+/**
+ * Заменяет клиент, через который работают функции модуля
+ * @param client - настроенный клиент MOEX ISS
+ */
+export function setDefaultClient(client: MoexClient): void {
+  defaultClient = client;
+}
+
+/**
+ * Получает одну страницу списка ценных бумаг с MOEX
  * @param engine - торговая система
  * @param market - рынок
  * @param limit - количество записей (по умолчанию 100)
+ * @param options - параметры вызова
  * @returns Promise с массивом ценных бумаг
  */
-export async function getSecurities(
-  engine: Engine = Engine.STOCK,
-  market: Market = Market.SHARES,
-  limit: number = 100
-): Promise<Security[]> {
-  try {
-    const url = `${MOEX_API_BASE_URL}/engines/${engine}/markets/${market}/securities.json?iss.meta=off&iss.only=securities&securities.columns=SECID,BOARDID,SHORTNAME,PREVPRICE,LOTSIZE,FACEVALUE,STATUS,BOARDNAME,DECIMALS,SECNAME,REMARKS,MARKETCODE,INSTRID,SECTORID,MINSTEP,PREVWAPRICE,FACEUNIT,PREVDATE,ISSUESIZE,ISIN,LATNAME,REGNUMBER,PREVLEGALCLOSEPRICE,CURRENCYID,SECTYPE,LISTLEVEL,SETTLEDATE&start=0&limit=${limit}`;
-    
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-    
-    const data = await response.json() as any;
-    
-    if (!data.securities || !data.securities.data) {
-      return [];
-    }
-    
-    const columns = data.securities.columns;
-    const rows = data.securities.data;
-    
-    return rows.map((row: any[]) => {
-      const security: any = {};
-      columns.forEach((column: string, index: number) => {
-        security[column] = row[index];
-      });
-      return security as Security;
-    });
-  } catch (error) {
-    throw new Error(`Failed to fetch securities: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
+export function getSecurities<E extends Engine = Engine.STOCK, M extends Market = Market.SHARES>(
+  engine?: E,
+  market?: M,
+  limit?: number,
+  options?: NormalizeOptions & { normalize?: false }
+): Promise<SecurityFor<E, M>[]>;
+export function getSecurities<E extends Engine = Engine.STOCK, M extends Market = Market.SHARES>(
+  engine: E | undefined,
+  market: M | undefined,
+  limit: number | undefined,
+  options: NormalizeOptions & { normalize: true }
+): Promise<Normalized<SecurityFor<E, M>>[]>;
+export async function getSecurities<E extends Engine = Engine.STOCK, M extends Market = Market.SHARES>(
+  engine: E = Engine.STOCK as E,
+  market: M = Market.SHARES as M,
+  limit: number = 100,
+  options: NormalizeOptions = {}
+): Promise<SecurityFor<E, M>[] | Normalized<SecurityFor<E, M>>[]> {
+  return options.normalize
+    ? getDefaultClient().getSecurities(engine, market, limit, { ...options, normalize: true })
+    : getDefaultClient().getSecurities(engine, market, limit, { ...options, normalize: false });
+}
+
+/**
+ * Постранично обходит все ценные бумаги рынка
+ * @param engine - торговая система
+ * @param market - рынок
+ * @param options - размер страницы и ограничение числа строк
+ * @returns асинхронный итератор по ценным бумагам
+ */
+export function iterateSecurities<E extends Engine = Engine.STOCK, M extends Market = Market.SHARES>(
+  engine: E = Engine.STOCK as E,
+  market: M = Market.SHARES as M,
+  options: PaginationOptions = {}
+): AsyncGenerator<SecurityFor<E, M>> {
+  return getDefaultClient().iterateSecurities(engine, market, options);
+}
+
+/**
+ * Получает полный список ценных бумаг рынка со всех страниц
+ * @param engine - торговая система
+ * @param market - рынок
+ * @param options - размер страницы и ограничение числа строк
+ * @returns Promise с массивом ценных бумаг
+ */
+export async function getAllSecurities<E extends Engine = Engine.STOCK, M extends Market = Market.SHARES>(
+  engine: E = Engine.STOCK as E,
+  market: M = Market.SHARES as M,
+  options: PaginationOptions = {}
+): Promise<SecurityFor<E, M>[]> {
+  return getDefaultClient().getAllSecurities(engine, market, options);
+}
+
+/**
+ * Получает все ценные бумаги, торгующиеся в режиме торгов
+ * @param board - режим торгов
+ * @param engine - торговая система
+ * @param market - рынок
+ * @param options - размер страницы, ограничение числа строк и параметры вызова
+ * @returns Promise с массивом ценных бумаг
+ */
+export async function getBoardSecurities<E extends Engine = Engine.STOCK, M extends Market = Market.SHARES>(
+  board: string,
+  engine: E = Engine.STOCK as E,
+  market: M = Market.SHARES as M,
+  options: PaginationOptions = {}
+): Promise<SecurityFor<E, M>[]> {
+  return getDefaultClient().getBoardSecurities(board, engine, market, options);
+}
+
+/**
+ * Получает все ценные бумаги рынка вместе с рыночными данными одним запросом на страницу
+ * @param engine - торговая система
+ * @param market - рынок
+ * @param options - размер страницы, ограничение числа строк и параметры вызова
+ * @returns Promise с массивом ценных бумаг и их рыночных данных
+ */
+export async function getSecuritiesWithMarketData<E extends Engine = Engine.STOCK, M extends Market = Market.SHARES>(
+  engine: E = Engine.STOCK as E,
+  market: M = Market.SHARES as M,
+  options: PaginationOptions = {}
+): Promise<SecurityWithMarketData<SecurityFor<E, M>, MarketDataFor<E, M>>[]> {
+  return getDefaultClient().getSecuritiesWithMarketData(engine, market, options);
 }
 
 /**
@@ -56,78 +235,536 @@ export async function getSecurities(
  * @param secid - идентификатор ценной бумаги
  * @param engine - торговая система
  * @param market - рынок
+ * @param options - параметры вызова
  * @returns Promise с рыночными данными
  */
-export async function getMarketData(
+export function getMarketData<E extends Engine = Engine.STOCK, M extends Market = Market.SHARES>(
   secid: string,
-  engine: Engine = Engine.STOCK,
-  market: Market = Market.SHARES
-): Promise<MarketData | null> {
-  try {
-    const url = `${MOEX_API_BASE_URL}/engines/${engine}/markets/${market}/securities/${secid}.json?iss.meta=off&iss.only=marketdata`;
-    
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-    
-    const data = await response.json() as any;
-    
-    if (!data.marketdata || !data.marketdata.data || data.marketdata.data.length === 0) {
-      return null;
-    }
-    
-    const columns = data.marketdata.columns;
-    const row = data.marketdata.data[0];
-    
-    const marketData: any = {};
-    columns.forEach((column: string, index: number) => {
-      marketData[column] = row[index];
-    });
-    
-    return marketData as MarketData;
-  } catch (error) {
-    throw new Error(`Failed to fetch market data for ${secid}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
+  engine?: E,
+  market?: M,
+  options?: NormalizeOptions & { normalize?: false }
+): Promise<MarketDataFor<E, M> | null>;
+export function getMarketData<E extends Engine = Engine.STOCK, M extends Market = Market.SHARES>(
+  secid: string,
+  engine: E | undefined,
+  market: M | undefined,
+  options: NormalizeOptions & { normalize: true }
+): Promise<Normalized<MarketDataFor<E, M>> | null>;
+export async function getMarketData<E extends Engine = Engine.STOCK, M extends Market = Market.SHARES>(
+  secid: string,
+  engine: E = Engine.STOCK as E,
+  market: M = Market.SHARES as M,
+  options: NormalizeOptions = {}
+): Promise<MarketDataFor<E, M> | Normalized<MarketDataFor<E, M>> | null> {
+  return options.normalize
+    ? getDefaultClient().getMarketData(secid, engine, market, { ...options, normalize: true })
+    : getDefaultClient().getMarketData(secid, engine, market, { ...options, normalize: false });
+}
+
+/**
+ * Получает рыночные данные ценной бумаги в указанном режиме торгов
+ * @param secid - идентификатор ценной бумаги
+ * @param board - режим торгов
+ * @param engine - торговая система
+ * @param market - рынок
+ * @param options - параметры вызова
+ * @returns Promise с рыночными данными или null
+ */
+export async function getBoardMarketData<E extends Engine = Engine.STOCK, M extends Market = Market.SHARES>(
+  secid: string,
+  board: string,
+  engine: E = Engine.STOCK as E,
+  market: M = Market.SHARES as M,
+  options: RequestOptions = {}
+): Promise<MarketDataFor<E, M> | null> {
+  return getDefaultClient().getBoardMarketData(secid, board, engine, market, options);
+}
+
+/**
+ * Получает рыночные данные ценной бумаги в её основном режиме торгов
+ * @param secidOrIsin - идентификатор ценной бумаги или ISIN
+ * @param options - параметры вызова
+ * @returns Promise с рыночными данными или null
+ */
+export async function getPrimaryMarketData(secidOrIsin: string, options: RequestOptions = {}): Promise<AnyMarketData | null> {
+  return getDefaultClient().getPrimaryMarketData(secidOrIsin, options);
+}
+
+/**
+ * Получает режимы торгов ценной бумаги
+ * @param secid - идентификатор ценной бумаги
+ * @param options - параметры вызова
+ * @returns Promise с массивом режимов торгов
+ */
+export async function getSecurityBoards(secid: string, options: RequestOptions = {}): Promise<SecurityBoard[]> {
+  return getDefaultClient().getSecurityBoards(secid, options);
+}
+
+/**
+ * Получает описание ценной бумаги и режимы торгов, в которых она обращается
+ * @param secidOrIsin - идентификатор ценной бумаги или ISIN
+ * @param options - параметры вызова
+ * @returns Promise с описанием и режимами торгов или null, если бумага не найдена
+ */
+export async function getSecurityInfo(secidOrIsin: string, options: RequestOptions = {}): Promise<SecurityInfo | null> {
+  return getDefaultClient().getSecurityInfo(secidOrIsin, options);
+}
+
+/**
+ * Ищет ценные бумаги по всем рынкам
+ * @param query - строка поиска: код, название, ISIN или регистрационный номер
+ * @param options - фильтры, число результатов и параметры вызова
+ * @returns Promise с массивом найденных бумаг, точные совпадения SECID и ISIN первыми
+ */
+export async function searchSecurities(
+  query: string,
+  options: SearchSecuritiesOptions = {}
+): Promise<SecuritySearchResult[]> {
+  return getDefaultClient().searchSecurities(query, options);
+}
+
+/**
+ * Определяет основной режим торгов ценной бумаги
+ * @param secidOrIsin - идентификатор ценной бумаги или ISIN
+ * @param options - параметры вызова
+ * @returns Promise с основным режимом торгов или null
+ */
+export async function resolvePrimaryBoard(secidOrIsin: string, options: RequestOptions = {}): Promise<SecurityBoard | null> {
+  return getDefaultClient().resolvePrimaryBoard(secidOrIsin, options);
+}
+
+/**
+ * Получает график платежей по облигации: купоны, амортизации и оферты
+ * @param secid - идентификатор облигации
+ * @param options - параметры вызова
+ * @returns Promise с купонами, амортизациями и офертами
+ */
+export async function getBondization(secid: string, options: RequestOptions = {}): Promise<Bondization> {
+  return getDefaultClient().getBondization(secid, options);
+}
+
+/**
+ * Получает рыночные данные для списка ценных бумаг
+ * @param secids - коды ценных бумаг
+ * @param engine - торговая система
+ * @param market - рынок
+ * @param board - режим торгов
+ * @param options - размер части, число одновременных запросов и параметры вызова
+ * @returns Promise с рыночными данными по SECID и списком тикеров, которых нет в ответе
+ */
+export async function getMarketDataBatch<E extends Engine = Engine.STOCK, M extends Market = Market.SHARES>(
+  secids: string[],
+  engine: E = Engine.STOCK as E,
+  market: M = Market.SHARES as M,
+  board?: string,
+  options: MarketDataBatchOptions = {}
+): Promise<MarketDataBatch<MarketDataFor<E, M>>> {
+  return getDefaultClient().getMarketDataBatch(secids, engine, market, board, options);
+}
+
+/**
+ * Подписывается на рыночные данные с выдачей только изменившихся инструментов
+ * @param secids - коды ценных бумаг
+ * @param options - рынок, режим торгов, интервалы опроса и сигнал остановки
+ * @returns подписка: источник событий update/error/end и асинхронный итератор по обновлениям
+ */
+export function subscribeMarketData(secids: string[], options: SubscribeMarketDataOptions = {}): MarketDataSubscription {
+  return getDefaultClient().subscribeMarketData(secids, options);
 }
 
 /**
  * Получает информацию о торговых сессиях
  * @param engine - торговая система
  * @param market - рынок
+ * @param options - параметры вызова
  * @returns Promise с информацией о торговых сессиях
  */
 export async function getTradingSessions(
   engine: Engine = Engine.STOCK,
-  market: Market = Market.SHARES
-): Promise<any[]> {
-  try {
-    const url = `${MOEX_API_BASE_URL}/engines/${engine}/markets/${market}/sessions.json?iss.meta=off`;
-    
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-    
-    const data = await response.json() as any;
-    
-    if (!data.sessions || !data.sessions.data) {
-      return [];
-    }
-    
-    const columns = data.sessions.columns;
-    const rows = data.sessions.data;
-    
-    return rows.map((row: any[]) => {
-      const session: any = {};
-      columns.forEach((column: string, index: number) => {
-        session[column] = row[index];
-      });
-      return session;
-    });
-  } catch (error) {
-    throw new Error(`Failed to fetch trading sessions: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
+  market: Market = Market.SHARES,
+  options: RequestOptions = {}
+): Promise<TradingSession[]> {
+  return getDefaultClient().getTradingSessions(engine, market, options);
+}
+
+/**
+ * Получает расписание торговой системы (загружается один раз на торговую систему)
+ * @param engine - торговая система
+ * @param options - параметры вызова
+ * @returns Promise с расписанием торговой системы
+ */
+export async function getEngineSchedule(
+  engine: Engine = Engine.STOCK,
+  options: RequestOptions = {}
+): Promise<EngineSchedule> {
+  return getDefaultClient().getEngineSchedule(engine, options);
+}
+
+/**
+ * Получает расписание рынка; если ISS его не публикует — расписание торговой системы
+ * (загружается один раз на рынок)
+ * @param engine - торговая система
+ * @param market - рынок
+ * @param options - параметры вызова
+ * @returns Promise с расписанием рынка
+ */
+export async function getMarketSchedule(
+  engine: Engine = Engine.STOCK,
+  market: Market = Market.SHARES,
+  options: RequestOptions = {}
+): Promise<EngineSchedule> {
+  return getDefaultClient().getMarketSchedule(engine, market, options);
+}
+
+/**
+ * Получает дни календаря ISS за период, отличающиеся от обычной рабочей недели
+ * @param from - начало периода 'YYYY-MM-DD' или Date
+ * @param till - конец периода 'YYYY-MM-DD' или Date
+ * @param engine - торговая система
+ * @param options - параметры вызова
+ * @returns Promise с массивом дней календаря
+ */
+export async function getCalendarDays(
+  from: string | Date,
+  till: string | Date,
+  engine: Engine = Engine.STOCK,
+  options: RequestOptions = {}
+): Promise<CalendarDay[]> {
+  return getDefaultClient().getCalendarDays(from, till, engine, options);
+}
+
+/**
+ * Собирает календарь торговых дней и часов торговой системы или рынка за период
+ * @param from - начало периода 'YYYY-MM-DD' или Date
+ * @param till - конец периода 'YYYY-MM-DD' или Date
+ * @param engine - торговая система
+ * @param market - рынок, часы торгов которого нужны (по умолчанию — часы торговой системы)
+ * @param options - параметры вызова
+ * @returns Promise с календарём торговой системы или рынка
+ */
+export async function getTradingCalendar(
+  from: string | Date,
+  till: string | Date,
+  engine: Engine = Engine.STOCK,
+  market?: Market,
+  options: RequestOptions = {}
+): Promise<TradingCalendar> {
+  return getDefaultClient().getTradingCalendar(from, till, engine, market, options);
+}
+
+/**
+ * Проверяет, идут ли торги в этот день (по московскому времени)
+ * @param date - дата 'YYYY-MM-DD' или Date (по умолчанию — сегодня)
+ * @param engine - торговая система
+ * @param options - параметры вызова
+ */
+export async function isTradingDay(
+  date: string | Date = new Date(),
+  engine: Engine = Engine.STOCK,
+  options: RequestOptions = {}
+): Promise<boolean> {
+  return getDefaultClient().isTradingDay(date, engine, options);
+}
+
+/**
+ * Проверяет, идут ли торги в указанный момент (по московскому времени)
+ * @param now - момент времени (по умолчанию — текущий)
+ * @param engine - торговая система
+ * @param market - рынок; часы торгов берутся из его расписания (по умолчанию — часы торговой системы)
+ * @param options - параметры вызова
+ */
+export async function isMarketOpen(
+  now: Date = new Date(),
+  engine: Engine = Engine.STOCK,
+  market?: Market,
+  options: RequestOptions = {}
+): Promise<boolean> {
+  return getDefaultClient().isMarketOpen(now, engine, market, options);
+}
+
+/**
+ * Возвращает ближайший торговый день после даты (по московскому времени)
+ * @param date - дата 'YYYY-MM-DD' или Date (по умолчанию — сегодня)
+ * @param engine - торговая система
+ * @param options - параметры вызова
+ * @returns Promise с датой 'YYYY-MM-DD'
+ */
+export async function nextTradingDay(
+  date: string | Date = new Date(),
+  engine: Engine = Engine.STOCK,
+  options: RequestOptions = {}
+): Promise<string> {
+  return getDefaultClient().nextTradingDay(date, engine, options);
+}
+
+/**
+ * Возвращает ближайший торговый день до даты (по московскому времени)
+ * @param date - дата 'YYYY-MM-DD' или Date (по умолчанию — сегодня)
+ * @param engine - торговая система
+ * @param options - параметры вызова
+ * @returns Promise с датой 'YYYY-MM-DD'
+ */
+export async function previousTradingDay(
+  date: string | Date = new Date(),
+  engine: Engine = Engine.STOCK,
+  options: RequestOptions = {}
+): Promise<string> {
+  return getDefaultClient().previousTradingDay(date, engine, options);
+}
+
+/**
+ * Возвращает торговые дни периода, включая его границы (по московскому времени)
+ * @param from - начало периода 'YYYY-MM-DD' или Date
+ * @param till - конец периода 'YYYY-MM-DD' или Date
+ * @param engine - торговая система
+ * @param options - параметры вызова
+ * @returns Promise с датами 'YYYY-MM-DD' по возрастанию
+ */
+export async function tradingDaysBetween(
+  from: string | Date,
+  till: string | Date,
+  engine: Engine = Engine.STOCK,
+  options: RequestOptions = {}
+): Promise<string[]> {
+  return getDefaultClient().tradingDaysBetween(from, till, engine, options);
+}
+
+/**
+ * Получает свечи по ценной бумаге за период
+ * @param secid - идентификатор ценной бумаги
+ * @param options - рынок, режим торгов, интервал и период
+ * @returns Promise с массивом свечей
+ */
+export async function getCandles(secid: string, options: CandlesOptions = {}): Promise<Candle[]> {
+  return getDefaultClient().getCandles(secid, options);
+}
+
+/**
+ * Получает итоги торгов по ценной бумаге за период
+ * @param secid - идентификатор ценной бумаги
+ * @param options - рынок, режим торгов и период
+ * @returns Promise с массивом итогов торгов по дням
+ */
+export async function getHistory(secid: string, options: HistoryOptions = {}): Promise<HistoryRow[]> {
+  return getDefaultClient().getHistory(secid, options);
+}
+
+/**
+ * Получает итоги торгов по всем бумагам рынка за один день
+ * @param date - торговый день: 'YYYY-MM-DD' или Date
+ * @param engine - торговая система
+ * @param market - рынок
+ * @param board - режим торгов (необязательно)
+ * @param options - параметры вызова
+ * @returns Promise с массивом итогов торгов
+ */
+export async function getHistoryByDate(
+  date: string | Date,
+  engine: Engine = Engine.STOCK,
+  market: Market = Market.SHARES,
+  board?: string,
+  options: RequestOptions = {}
+): Promise<HistoryRow[]> {
+  return getDefaultClient().getHistoryByDate(date, engine, market, board, options);
+}
+
+/**
+ * Получает ленту сделок по ценной бумаге
+ * @param secid - идентификатор ценной бумаги
+ * @param options - рынок, режим торгов, курсор по номеру сделки и порядок
+ * @returns Promise с массивом сделок
+ */
+export async function getTrades(secid: string, options: TradesOptions = {}): Promise<Trade[]> {
+  return getDefaultClient().getTrades(secid, options);
+}
+
+/**
+ * Опрашивает ленту сделок и выдаёт только новые сделки
+ * @param secid - идентификатор ценной бумаги
+ * @param options - рынок, режим торгов, начальный номер сделки, интервал и сигнал остановки
+ * @returns асинхронный итератор по новым сделкам
+ */
+export function pollTrades(secid: string, options: PollTradesOptions = {}): AsyncGenerator<Trade> {
+  return getDefaultClient().pollTrades(secid, options);
+}
+
+/**
+ * Получает стакан заявок по ценной бумаге
+ * @param secid - идентификатор ценной бумаги
+ * @param engine - торговая система
+ * @param market - рынок
+ * @param board - режим торгов (необязательно, если бумага торгуется в одном режиме)
+ * @param options - параметры вызова
+ * @returns Promise со стаканом
+ */
+export async function getOrderBook(
+  secid: string,
+  engine: Engine = Engine.STOCK,
+  market: Market = Market.SHARES,
+  board?: string,
+  options: RequestOptions = {}
+): Promise<OrderBook> {
+  return getDefaultClient().getOrderBook(secid, engine, market, board, options);
+}
+
+/**
+ * Получает стаканы заявок по ценной бумаге во всех режимах торгов, по одному на режим
+ * @param secid - идентификатор ценной бумаги
+ * @param engine - торговая система
+ * @param market - рынок
+ * @param options - параметры вызова
+ * @returns Promise с массивом стаканов
+ */
+export async function getOrderBooks(
+  secid: string,
+  engine: Engine = Engine.STOCK,
+  market: Market = Market.SHARES,
+  options: RequestOptions = {}
+): Promise<OrderBook[]> {
+  return getDefaultClient().getOrderBooks(secid, engine, market, options);
+}
+
+/**
+ * Получает список индексов, по которым ISS публикует состав и веса
+ * @param options - параметры вызова
+ * @returns Promise с массивом индексов
+ */
+export async function listIndices(options: RequestOptions = {}): Promise<IndexInfo[]> {
+  return getDefaultClient().listIndices(options);
+}
+
+/**
+ * Получает состав индекса с весами бумаг
+ * @param indexId - код индекса, например 'IMOEX'
+ * @param date - дата состава (по умолчанию — текущий состав)
+ * @param options - параметры вызова
+ * @returns Promise с массивом бумаг индекса
+ */
+export async function getIndexConstituents(
+  indexId: string,
+  date?: string | Date,
+  options: RequestOptions = {}
+): Promise<IndexConstituent[]> {
+  return getDefaultClient().getIndexConstituents(indexId, date, options);
+}
+
+/**
+ * Получает текущее значение индекса
+ * @param indexId - код индекса, например 'IMOEX' или 'RTSI'
+ * @param options - параметры вызова
+ * @returns Promise с рыночными данными индекса или null
+ */
+export async function getIndexValue(indexId: string, options: RequestOptions = {}): Promise<IndexMarketData | null> {
+  return getDefaultClient().getIndexValue(indexId, options);
+}
+
+/**
+ * Получает официальные курсы ЦБ РФ
+ * @param date - дата курса (по умолчанию — последний курс)
+ * @param options - параметры вызова
+ * @returns Promise с массивом курсов по валютам
+ */
+export async function getCbrRates(date?: string | Date, options: RequestOptions = {}): Promise<CbrRate[]> {
+  return getDefaultClient().getCbrRates(date, options);
+}
+
+/**
+ * Получает фиксинги Московской Биржи по валютной паре за период
+ * @param pair - валютная пара ('USD/RUB') или код фиксинга ('USDFIXME')
+ * @param from - начало периода
+ * @param till - конец периода
+ * @param options - параметры вызова
+ * @returns Promise с массивом фиксингов по дням
+ */
+export async function getFixings(
+  pair: string,
+  from: string | Date,
+  till: string | Date,
+  options: RequestOptions = {}
+): Promise<CurrencyFixing[]> {
+  return getDefaultClient().getFixings(pair, from, till, options);
+}
+
+/**
+ * Получает текущие индикативные курсы срочного рынка
+ * @param options - параметры вызова
+ * @returns Promise с массивом индикативных курсов
+ */
+export async function getIndicativeRates(options: RequestOptions = {}): Promise<IndicativeRate[]> {
+  return getDefaultClient().getIndicativeRates(options);
+}
+
+/**
+ * Пересчитывает сумму из одной валюты в другую через рублёвые курсы
+ * @param amount - сумма
+ * @param from - исходная валюта (рубль — 'RUB' или 'SUR')
+ * @param to - целевая валюта
+ * @param date - дата курса (по умолчанию — текущий курс)
+ * @param options - параметры вызова
+ * @returns Promise с суммой в целевой валюте
+ */
+export async function convert(
+  amount: number,
+  from: string,
+  to: string,
+  date?: string | Date,
+  options: RequestOptions = {}
+): Promise<number> {
+  return getDefaultClient().convert(amount, from, to, date, options);
+}
+
+/**
+ * Получает справочник ISS (загружается один раз на клиент)
+ * @param options - параметры вызова
+ * @returns Promise со справочником торговых систем, рынков и режимов торгов
+ */
+export async function getIndex(options: RequestOptions = {}): Promise<IssIndex> {
+  return getDefaultClient().getIndex(options);
+}
+
+/**
+ * Получает список торговых систем
+ * @param options - параметры вызова
+ * @returns Promise с массивом торговых систем
+ */
+export async function getEngines(options: RequestOptions = {}): Promise<IssEngine[]> {
+  return getDefaultClient().getEngines(options);
+}
+
+/**
+ * Получает рынки торговой системы
+ * @param engine - торговая система
+ * @param options - параметры вызова
+ * @returns Promise с массивом рынков
+ */
+export async function getMarkets(engine: Engine, options: RequestOptions = {}): Promise<IssMarket[]> {
+  return getDefaultClient().getMarkets(engine, options);
+}
+
+/**
+ * Получает режимы торгов рынка
+ * @param engine - торговая система
+ * @param market - рынок
+ * @param options - параметры вызова
+ * @returns Promise с массивом режимов торгов
+ */
+export async function getBoards(engine: Engine, market: Market, options: RequestOptions = {}): Promise<IssBoard[]> {
+  return getDefaultClient().getBoards(engine, market, options);
+}
+
+/**
+ * Проверяет по справочнику ISS сочетание торговой системы, рынка и режима торгов
+ * @param engine - торговая система
+ * @param market - рынок
+ * @param board - режим торгов (необязательно)
+ * @param options - параметры вызова
+ * @throws MoexRouteError, если сочетание отсутствует в справочнике
+ */
+export async function validateRoute(
+  engine: Engine,
+  market: Market,
+  board?: string,
+  options: RequestOptions = {}
+): Promise<void> {
+  return getDefaultClient().validateRoute(engine, market, board, options);
 }
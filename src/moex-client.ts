@@ -0,0 +1,2330 @@
+import { fetch as undiciFetch } from 'undici';
+import {
+  IssIndex,
+  IssEngine,
+  IssMarket,
+  IssBoard,
+  Security,
+  SecurityFor,
+  SecurityBoard,
+  SecurityDescription,
+  SecurityDescriptionField,
+  SecurityInfo,
+  SecuritySearchResult,
+  Bondization,
+  CbrRate,
+  CurrencyFixing,
+  IndicativeRate,
+  TradingSession,
+  EngineSchedule,
+  CalendarDay,
+  MarketData,
+  MarketDataFor,
+  AnyMarketData,
+  IndexMarketData,
+  IndexInfo,
+  IndexConstituent,
+  MarketDataBatch,
+  SecurityWithMarketData,
+  Candle,
+  HistoryRow,
+  Trade,
+  OrderBook,
+  OrderBookRow,
+  Engine,
+  Market,
+  Interval,
+  Normalized
+} from './types';
+import { buildOrderBook, buildOrderBooks } from './orderbook';
+import { MarketDataSubscription } from './subscription';
+import { TradingCalendar, moscowDate, shiftDate } from './calendar';
+import { normalizeRow } from './normalize';
+import { RateLimiter, RateLimiterOptions } from './rate-limiter';
+import { CacheCategory, CacheOptions, CacheStore, DEFAULT_CACHE_TTL, MemoryCacheStore } from './cache';
+import {
+  Schema,
+  SchemaDrift,
+  SchemaDriftStrategy,
+  ColumnType,
+  coerceValue,
+  validateBlock,
+  SECURITY_SCHEMA,
+  BONDS_SECURITY_SCHEMA,
+  FUTURES_SECURITY_SCHEMA,
+  CURRENCY_SECURITY_SCHEMA,
+  INDEX_SECURITY_SCHEMA,
+  SECURITY_BOARD_SCHEMA,
+  SECURITY_DESCRIPTION_FIELD_SCHEMA,
+  SECURITY_SEARCH_RESULT_SCHEMA,
+  BOND_COUPON_SCHEMA,
+  BOND_AMORTIZATION_SCHEMA,
+  BOND_OFFER_SCHEMA,
+  INDEX_INFO_SCHEMA,
+  INDEX_CONSTITUENT_SCHEMA,
+  CURRENCY_FIXING_SCHEMA,
+  INDICATIVE_RATE_SCHEMA,
+  MARKET_DATA_SCHEMA,
+  BONDS_MARKET_DATA_SCHEMA,
+  FUTURES_MARKET_DATA_SCHEMA,
+  CURRENCY_MARKET_DATA_SCHEMA,
+  INDEX_MARKET_DATA_SCHEMA,
+  CANDLE_SCHEMA,
+  HISTORY_ROW_SCHEMA,
+  TRADE_SCHEMA,
+  ORDER_BOOK_ROW_SCHEMA,
+  ISS_ENGINE_SCHEMA,
+  ISS_MARKET_SCHEMA,
+  ISS_BOARD_SCHEMA,
+  ISS_BOARD_GROUP_SCHEMA,
+  ISS_SECURITY_TYPE_SCHEMA,
+  ISS_SECURITY_GROUP_SCHEMA,
+  ENGINE_TIMETABLE_SCHEMA,
+  TRADING_SESSION_SCHEMA,
+  ENGINE_DAILY_TABLE_SCHEMA
+} from './schema';
+import {
+  MoexError,
+  MoexHttpError,
+  MoexNotFoundError,
+  MoexRateLimitError,
+  MoexNetworkError,
+  MoexParseError,
+  MoexSchemaError,
+  MoexRouteError
+} from './errors';
+
+/**
+ * Базовый URL для API MOEX по умолчанию
+ */
+export const DEFAULT_BASE_URL = 'https://iss.moex.com/iss';
+
+/**
+ * Таймаут запроса по умолчанию, мс
+ */
+export const DEFAULT_TIMEOUT = 30000;
+
+/**
+ * User-Agent, с которым библиотека ходит в ISS по умолчанию
+ */
+export const DEFAULT_USER_AGENT = 'iss-moex';
+
+/**
+ * Минимальный набор полей HTTP-ответа, который использует клиент
+ */
+export interface FetchResponse {
+  ok: boolean;
+  status: number;
+  headers?: { get(name: string): string | null };
+  json(): Promise<unknown>;
+  text?(): Promise<string>;
+}
+
+/**
+ * Параметры запроса, которые клиент передаёт в транспорт
+ */
+export interface FetchInit {
+  headers: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+/**
+ * Транспорт для HTTP-запросов (совместим с fetch из undici и глобальным fetch)
+ */
+export type FetchLike = (url: string, init?: FetchInit) => Promise<FetchResponse>;
+
+/**
+ * Настройки клиента MOEX ISS
+ */
+export interface MoexClientOptions {
+  /** Базовый URL ISS (например, адрес кэширующего прокси или зеркала) */
+  baseUrl?: string;
+  /** Реализация fetch; по умолчанию используется fetch из undici */
+  fetch?: FetchLike;
+  /** Заголовки, добавляемые к каждому запросу */
+  headers?: Record<string, string>;
+  /** Таймаут запроса в миллисекундах; 0 отключает таймаут */
+  timeout?: number;
+  /** Значение заголовка User-Agent */
+  userAgent?: string;
+  /** Повтор запросов при 429, 5xx и сетевых ошибках; по умолчанию повторов нет */
+  retry?: RetryOptions;
+  /** Ограничение параллельности и частоты запросов (можно передать общий RateLimiter) */
+  rateLimit?: RateLimiterOptions | RateLimiter;
+  /** Кэш ответов; по умолчанию выключен */
+  cache?: CacheOptions;
+  /** Реакция на расхождение ответа ISS со схемой типов; по умолчанию 'ignore' */
+  schemaDrift?: SchemaDriftStrategy;
+  /**
+   * Проверять торговую систему, рынок и режим торгов по справочнику ISS перед каждым запросом;
+   * справочник хранится со сроком жизни справочных данных, а если загрузить его не удалось,
+   * запрос отправляется без проверки. По умолчанию включено
+   */
+  validateRoutes?: boolean;
+}
+
+/**
+ * Параметры отдельного вызова
+ */
+export interface RequestOptions {
+  /** false — не брать ответ из кэша (свежий ответ всё равно сохраняется в кэш) */
+  cache?: boolean;
+}
+
+/**
+ * Параметры вызова с нормализацией значений
+ */
+export interface NormalizeOptions extends RequestOptions {
+  /**
+   * true — даты и время как Date по московскому времени, цены как точные десятичные строки
+   * с точностью DECIMALS (см. normalizeRow)
+   */
+  normalize?: boolean;
+}
+
+/**
+ * Настройки повтора запросов с экспоненциальной задержкой
+ */
+export interface RetryOptions {
+  /** Число повторных попыток */
+  retries?: number;
+  /** Задержка перед первым повтором, мс */
+  minDelay?: number;
+  /** Максимальная задержка, мс; ограничивает и паузу из Retry-After */
+  maxDelay?: number;
+  /** Множитель задержки для каждой следующей попытки */
+  factor?: number;
+  /** Случайно уменьшать задержку, чтобы клиенты не повторяли запросы синхронно */
+  jitter?: boolean;
+}
+
+/**
+ * Настройки повтора по умолчанию (при включении через retries)
+ */
+const DEFAULT_RETRY: Required<RetryOptions> = {
+  retries: 0,
+  minDelay: 500,
+  maxDelay: 30000,
+  factor: 2,
+  jitter: true
+};
+
+/**
+ * Максимальное число строк, которое ISS отдаёт за один запрос
+ */
+export const ISS_PAGE_SIZE = 100;
+
+/**
+ * Колонки, запрашиваемые для ценных бумаг
+ */
+const SECURITIES_COLUMNS = 'SECID,BOARDID,SHORTNAME,PREVPRICE,LOTSIZE,FACEVALUE,STATUS,BOARDNAME,DECIMALS,SECNAME,REMARKS,MARKETCODE,INSTRID,SECTORID,MINSTEP,PREVWAPRICE,FACEUNIT,PREVDATE,ISSUESIZE,ISIN,LATNAME,REGNUMBER,PREVLEGALCLOSEPRICE,CURRENCYID,SECTYPE,LISTLEVEL,SETTLEDATE';
+
+/**
+ * Настройки постраничного обхода
+ */
+export interface PaginationOptions extends RequestOptions {
+  /** Размер страницы (по умолчанию и не более ISS_PAGE_SIZE) */
+  pageSize?: number;
+  /** Максимальное число строк, после которого обход прекращается */
+  maxRows?: number;
+}
+
+/**
+ * Максимальное число свечей, которое ISS отдаёт за один запрос
+ */
+export const ISS_CANDLES_PAGE_SIZE = 500;
+
+/**
+ * Параметры запроса свечей
+ */
+export interface CandlesOptions extends RequestOptions {
+  /** Торговая система (по умолчанию stock) */
+  engine?: Engine;
+  /** Рынок (по умолчанию shares) */
+  market?: Market;
+  /** Режим торгов; без него ISS выбирает основной режим сам */
+  board?: string;
+  /** Интервал свечей (по умолчанию день) */
+  interval?: Interval;
+  /** Начало периода: 'YYYY-MM-DD' или Date */
+  from?: string | Date;
+  /** Конец периода: 'YYYY-MM-DD' или Date */
+  till?: string | Date;
+}
+
+/**
+ * Параметры запроса истории торгов по ценной бумаге
+ */
+export interface HistoryOptions extends RequestOptions {
+  /** Торговая система (по умолчанию stock) */
+  engine?: Engine;
+  /** Рынок (по умолчанию shares) */
+  market?: Market;
+  /** Режим торгов; без него возвращаются итоги по всем режимам */
+  board?: string;
+  /** Начало периода: 'YYYY-MM-DD' или Date */
+  from?: string | Date;
+  /** Конец периода: 'YYYY-MM-DD' или Date */
+  till?: string | Date;
+}
+
+/**
+ * Максимальное число сделок, которое ISS отдаёт за один запрос
+ */
+export const ISS_TRADES_PAGE_SIZE = 5000;
+
+/**
+ * Интервал опроса ленты сделок по умолчанию, мс
+ */
+export const DEFAULT_POLL_INTERVAL = 5000;
+
+/**
+ * Параметры запроса ленты сделок
+ */
+export interface TradesOptions extends RequestOptions {
+  /** Торговая система (по умолчанию stock) */
+  engine?: Engine;
+  /** Рынок (по умолчанию shares) */
+  market?: Market;
+  /** Режим торгов */
+  board?: string;
+  /** Номер сделки, начиная с которого выводить ленту */
+  fromTradeNo?: number;
+  /** Выводить сделки в обратном порядке (последние первыми) */
+  reversed?: boolean;
+  /** Количество сделок (не более ISS_TRADES_PAGE_SIZE) */
+  limit?: number;
+}
+
+/**
+ * Число результатов searchSecurities по умолчанию
+ */
+export const DEFAULT_SEARCH_LIMIT = 100;
+
+/**
+ * Параметры поиска ценных бумаг
+ */
+export interface SearchSecuritiesOptions extends RequestOptions {
+  /** Искать только в торговой системе */
+  engine?: Engine;
+  /** Искать только на рынке */
+  market?: Market;
+  /** true — только торгуемые бумаги, false — только неторгуемые */
+  isTrading?: boolean;
+  /** Группа бумаг, например stock_shares или stock_bonds */
+  group?: string;
+  /** Максимальное число результатов (по умолчанию DEFAULT_SEARCH_LIMIT) */
+  limit?: number;
+  /** Размер страницы (не более ISS_PAGE_SIZE) */
+  pageSize?: number;
+}
+
+/**
+ * Число тикеров в одном запросе getMarketDataBatch по умолчанию: адрес запроса
+ * остаётся в пределах ограничений на длину URL
+ */
+export const MARKET_DATA_BATCH_SIZE = 100;
+
+/**
+ * Число одновременных запросов getMarketDataBatch по умолчанию
+ */
+export const MARKET_DATA_BATCH_CONCURRENCY = 4;
+
+/**
+ * Параметры пакетного запроса рыночных данных
+ */
+export interface MarketDataBatchOptions extends RequestOptions {
+  /** Число тикеров в одном запросе (по умолчанию MARKET_DATA_BATCH_SIZE) */
+  chunkSize?: number;
+  /** Число одновременных запросов (по умолчанию MARKET_DATA_BATCH_CONCURRENCY) */
+  concurrency?: number;
+}
+
+/**
+ * Максимальная пауза между опросами подписки на рыночные данные вне торгов, мс
+ */
+export const DEFAULT_SUBSCRIPTION_MAX_INTERVAL = 5 * 60 * 1000;
+
+/**
+ * Параметры подписки на рыночные данные
+ */
+export interface SubscribeMarketDataOptions extends MarketDataBatchOptions {
+  /** Торговая система (по умолчанию stock) */
+  engine?: Engine;
+  /** Рынок (по умолчанию shares) */
+  market?: Market;
+  /** Режим торгов */
+  board?: string;
+  /** Пауза между опросами во время торгов, мс (по умолчанию DEFAULT_POLL_INTERVAL) */
+  intervalMs?: number;
+  /** Максимальная пауза вне торгов и после ошибок, мс (по умолчанию DEFAULT_SUBSCRIPTION_MAX_INTERVAL) */
+  maxIntervalMs?: number;
+  /** Сигнал для остановки подписки */
+  signal?: AbortSignal;
+}
+
+/**
+ * Параметры опроса ленты сделок
+ */
+export interface PollTradesOptions {
+  /** Торговая система (по умолчанию stock) */
+  engine?: Engine;
+  /** Рынок (по умолчанию shares) */
+  market?: Market;
+  /** Режим торгов */
+  board?: string;
+  /** Номер сделки, с которого начинать; по умолчанию — с начала дня */
+  fromTradeNo?: number;
+  /** Пауза между опросами, мс */
+  intervalMs?: number;
+  /** Сигнал для остановки опроса */
+  signal?: AbortSignal;
+}
+
+/**
+ * Торговая система, рынок и режим торгов в пути запроса ISS
+ */
+const ROUTE_PATTERN = /^(?:\/history)?\/engines\/([^/?.]+)\/markets\/([^/?.]+)(?:\/boards\/([^/?.]+))?/;
+
+/**
+ * Формат ISIN: код страны, девять символов и контрольная цифра
+ */
+const ISIN_PATTERN = /^[A-Z]{2}[A-Z0-9]{9}\d$/;
+
+/**
+ * Обозначения рубля: в FACEUNIT и CURRENCYID ISS рубль записан как SUR
+ */
+const RUB_CODES = new Set(['RUB', 'SUR', 'RUR']);
+
+/**
+ * Колонка официального курса в блоке cbrf, например CBRF_USD_LAST
+ */
+const CBR_RATE_COLUMN = /^CBRF_([A-Z]{3})_LAST$/;
+
+/**
+ * Поля описания ценной бумаги, вынесенные в SecurityDescription
+ */
+const DESCRIPTION_FIELDS: Array<Exclude<keyof SecurityDescription, 'fields'>> = [
+  'SECID', 'NAME', 'SHORTNAME', 'ISIN', 'REGNUMBER', 'LATNAME', 'TYPE', 'TYPENAME', 'GROUP', 'GROUPNAME',
+  'EMITTER_ID', 'ISSUEDATE', 'ISSUESIZE', 'FACEVALUE', 'FACEUNIT', 'LISTLEVEL',
+  'MATDATE', 'COUPONPERCENT', 'COUPONVALUE', 'COUPONFREQUENCY', 'COUPONDATE'
+];
+
+/**
+ * Блок данных ISS: список колонок и строки значений
+ */
+interface IssBlock {
+  columns: string[];
+  data: any[][];
+}
+
+/**
+ * Превращает строки блока ISS в объекты вида { КОЛОНКА: значение }
+ * @param block - блок данных из ответа ISS
+ * @param schema - схема для приведения значений (необязательно)
+ * @returns массив объектов
+ */
+function mapRows<T>(block: IssBlock, schema?: Schema<T>): T[] {
+  const specs = schema as Record<string, { type: ColumnType }> | undefined;
+  return block.data.map((row: any[]) => {
+    const item: any = {};
+    block.columns.forEach((column: string, index: number) => {
+      const spec = specs?.[column];
+      item[column] = spec ? coerceValue(spec, row[index]) : row[index];
+    });
+    return item as T;
+  });
+}
+
+/**
+ * Ключ запомненных курсов. Последний курс запоминается отдельно от курса на сегодняшнюю дату:
+ * последняя таблица ЦБ РФ часто уже содержит курс на завтра, а запасной источник у них разный
+ * @param day - дата курса 'YYYY-MM-DD' (undefined — последний курс)
+ */
+function rateKey(day: string | undefined): string {
+  return day ?? `latest@${moscowDate(new Date())}`;
+}
+
+/**
+ * Проверяет, что значение — целое положительное число
+ * @param value - число из параметров вызова
+ */
+function isPositiveInteger(value: number): boolean {
+  return Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Выбирает схему и колонки блока securities для торговой системы и рынка
+ * @param engine - торговая система
+ * @param market - рынок
+ * @returns схема строк и список колонок для параметра securities.columns
+ */
+function securitySchemaFor<E extends Engine, M extends Market>(
+  engine: E,
+  market: M
+): { schema: Schema<SecurityFor<E, M>>; columns: string } {
+  let schema: object = SECURITY_SCHEMA;
+  if (market === Market.BONDS) {
+    schema = BONDS_SECURITY_SCHEMA;
+  } else if (engine === Engine.FUTURES && market === Market.FORTS) {
+    schema = FUTURES_SECURITY_SCHEMA;
+  } else if (engine === Engine.CURRENCY && market === Market.SELT) {
+    schema = CURRENCY_SECURITY_SCHEMA;
+  } else if (engine === Engine.STOCK && market === Market.INDEX) {
+    schema = INDEX_SECURITY_SCHEMA;
+  }
+  return {
+    schema: schema as Schema<SecurityFor<E, M>>,
+    columns: schema === SECURITY_SCHEMA ? SECURITIES_COLUMNS : Object.keys(schema).join(',')
+  };
+}
+
+/**
+ * Выбирает схему блока marketdata для торговой системы и рынка
+ * @param engine - торговая система
+ * @param market - рынок
+ * @returns схема строк рыночных данных
+ */
+function marketDataSchemaFor<E extends Engine, M extends Market>(engine: E, market: M): Schema<MarketDataFor<E, M>> {
+  let schema: object = MARKET_DATA_SCHEMA;
+  if (market === Market.BONDS) {
+    schema = BONDS_MARKET_DATA_SCHEMA;
+  } else if (engine === Engine.FUTURES && market === Market.FORTS) {
+    schema = FUTURES_MARKET_DATA_SCHEMA;
+  } else if (engine === Engine.CURRENCY && market === Market.SELT) {
+    schema = CURRENCY_MARKET_DATA_SCHEMA;
+  } else if (engine === Engine.STOCK && market === Market.INDEX) {
+    schema = INDEX_MARKET_DATA_SCHEMA;
+  }
+  return schema as Schema<MarketDataFor<E, M>>;
+}
+
+/**
+ * Собирает описание ценной бумаги из полей блока description,
+ * приводя значения к типу, указанному в поле type
+ * @param rows - поля описания
+ * @returns описание ценной бумаги
+ */
+function buildSecurityDescription(rows: SecurityDescriptionField[]): SecurityDescription {
+  const fields: Record<string, string | number | null> = {};
+  for (const row of rows) {
+    const type: ColumnType = row.type === 'number' || row.type === 'boolean'
+      ? 'number'
+      : row.type === 'date' ? 'date' : 'string';
+    fields[row.name] = coerceValue({ type }, row.value) as string | number | null;
+  }
+
+  const description: any = { fields };
+  for (const name of DESCRIPTION_FIELDS) {
+    description[name] = fields[name] ?? null;
+  }
+  return description as SecurityDescription;
+}
+
+/**
+ * Торговые системы, для которых календарь ISS ведёт отдельный признак торгового дня
+ */
+const CALENDAR_ENGINES = new Set<string>([Engine.STOCK, Engine.CURRENCY, Engine.FUTURES]);
+
+/**
+ * Сколько дней календаря ISS загружать для поиска следующего или предыдущего торгового дня
+ */
+const CALENDAR_SEARCH_DAYS = 31;
+
+/**
+ * Возвращает колонку календаря ISS с признаком торгового дня торговой системы;
+ * для остальных торговых систем используется календарь фондового рынка
+ * @param engine - торговая система
+ */
+function calendarColumn(engine: Engine): string {
+  return `${CALENDAR_ENGINES.has(engine) ? engine : Engine.STOCK}_workday`;
+}
+
+/**
+ * Приводит код валюты к верхнему регистру, а обозначения рубля — к 'RUB'
+ * @param code - код валюты, например 'usd' или 'SUR'
+ */
+function normalizeCurrency(code: string): string {
+  const upper = code.trim().toUpperCase();
+  return RUB_CODES.has(upper) ? 'RUB' : upper;
+}
+
+/**
+ * Возвращает код фиксинга для валютной пары: 'USD/RUB' → 'USDFIXME'.
+ * Код фиксинга возвращается как есть
+ * @param pair - валютная пара или код фиксинга
+ * @throws Error для кросс-пары: фиксинги публикуются только к рублю
+ */
+function fixingSecid(pair: string): string {
+  const [base, quote] = pair.trim().toUpperCase().split('/');
+  if (quote === undefined) {
+    return base;
+  }
+  if (normalizeCurrency(quote) !== 'RUB') {
+    throw new Error(`Invalid currency pair "${pair}": fixings are published only against RUB`);
+  }
+  return `${base}FIXME`;
+}
+
+/**
+ * Собирает официальные курсы из строки блока cbrf, где каждой валюте соответствует
+ * группа колонок CBRF_<валюта>_LAST, CBRF_<валюта>_LASTCHANGEPRCNT, CBRF_<валюта>_TRADEDATE
+ * @param row - строка блока cbrf
+ * @returns курсы по валютам
+ */
+function buildCbrRates(row: Record<string, unknown>): CbrRate[] {
+  const rates: CbrRate[] = [];
+  for (const column of Object.keys(row)) {
+    const match = CBR_RATE_COLUMN.exec(column);
+    if (!match || typeof row[column] !== 'number') {
+      continue;
+    }
+    const currency = match[1];
+    const changePercent = row[`CBRF_${currency}_LASTCHANGEPRCNT`];
+    const tradeDate = row[`CBRF_${currency}_TRADEDATE`];
+    rates.push({
+      currency,
+      rate: row[column] as number,
+      changePercent: typeof changePercent === 'number' ? changePercent : null,
+      tradeDate: typeof tradeDate === 'string' ? tradeDate : null
+    });
+  }
+  return rates;
+}
+
+/**
+ * Возвращает текст ошибки для сообщения
+ * @param error - пойманное значение
+ */
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+/**
+ * Разбирает заголовок Retry-After (секунды или HTTP-дата)
+ * @param value - значение заголовка
+ * @returns пауза в миллисекундах или undefined
+ */
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Читает тело ответа с ошибкой, если транспорт это позволяет
+ * @param response - HTTP-ответ
+ */
+async function readErrorBody(response: FetchResponse): Promise<string | undefined> {
+  try {
+    return response.text ? await response.text() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Проверяет, имеет ли смысл повторить запрос после ошибки
+ * @param error - ошибка запроса
+ */
+function isRetryable(error: unknown): boolean {
+  if (error instanceof MoexRateLimitError || error instanceof MoexNetworkError) {
+    return true;
+  }
+  return error instanceof MoexHttpError && error.status >= 500;
+}
+
+/**
+ * Ждёт заданное время; при срабатывании сигнала завершается досрочно
+ * @param ms - длительность паузы, мс
+ * @param signal - сигнал отмены
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Клиент MOEX ISS с настраиваемым адресом, транспортом и заголовками
+ */
+export class MoexClient {
+  /** Базовый URL ISS без завершающего слэша */
+  readonly baseUrl: string;
+  private readonly fetchFn: FetchLike;
+  private readonly headers: Record<string, string>;
+  private readonly timeout: number;
+  private readonly retry: Required<RetryOptions>;
+  private readonly limiter: RateLimiter | undefined;
+  private readonly cache: CacheOptions | undefined;
+  private readonly cacheTtl: Record<CacheCategory, number>;
+  private readonly revalidating = new Set<string>();
+  private readonly schemaDrift: SchemaDriftStrategy;
+  private readonly validateRoutes: boolean;
+  private readonly indexStore: CacheStore;
+  private indexLoading: Promise<IssIndex> | undefined;
+  private readonly rubRates = new Map<string, Promise<number>>();
+  private readonly cbrRates = new Map<string, Promise<CbrRate[]>>();
+  private readonly schedules = new Map<string, Promise<EngineSchedule>>();
+
+  constructor(options: MoexClientOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.fetchFn = options.fetch ?? ((url, init) => undiciFetch(url, init));
+    this.headers = {
+      'User-Agent': options.userAgent ?? DEFAULT_USER_AGENT,
+      ...options.headers
+    };
+    this.timeout = options.timeout ?? DEFAULT_TIMEOUT;
+    this.retry = { ...DEFAULT_RETRY, ...options.retry };
+    this.limiter = options.rateLimit instanceof RateLimiter
+      ? options.rateLimit
+      : options.rateLimit && new RateLimiter(options.rateLimit);
+    this.cache = options.cache;
+    this.cacheTtl = { ...DEFAULT_CACHE_TTL, ...options.cache?.ttl };
+    this.schemaDrift = options.schemaDrift ?? 'ignore';
+    this.validateRoutes = options.validateRoutes ?? true;
+    this.indexStore = options.cache?.store ?? new MemoryCacheStore({ maxEntries: 1 });
+  }
+
+  /**
+   * Получает одну страницу списка ценных бумаг с MOEX.
+   * ISS отдаёт не более ISS_PAGE_SIZE строк за запрос, для полного списка
+   * используйте iterateSecurities или getAllSecurities
+   * @param engine - торговая система
+   * @param market - рынок
+   * @param limit - количество записей (по умолчанию 100)
+   * @param options - параметры вызова
+   * @returns Promise с массивом ценных бумаг; тип зависит от торговой системы и рынка
+   */
+  getSecurities<E extends Engine = Engine.STOCK, M extends Market = Market.SHARES>(
+    engine?: E,
+    market?: M,
+    limit?: number,
+    options?: NormalizeOptions & { normalize?: false }
+  ): Promise<SecurityFor<E, M>[]>;
+  getSecurities<E extends Engine = Engine.STOCK, M extends Market = Market.SHARES>(
+    engine: E | undefined,
+    market: M | undefined,
+    limit: number | undefined,
+    options: NormalizeOptions & { normalize: true }
+  ): Promise<Normalized<SecurityFor<E, M>>[]>;
+  async getSecurities<E extends Engine = Engine.STOCK, M extends Market = Market.SHARES>(
+    engine: E = Engine.STOCK as E,
+    market: M = Market.SHARES as M,
+    limit: number = 100,
+    options: NormalizeOptions = {}
+  ): Promise<SecurityFor<E, M>[] | Normalized<SecurityFor<E, M>>[]> {
+    const { schema, columns } = securitySchemaFor<E, M>(engine, market);
+    const url = `${this.baseUrl}/engines/${engine}/markets/${market}/securities.json?iss.meta=off&iss.only=securities&securities.columns=${columns}&start=0&limit=${limit}`;
+
+    const data = await this.request(url, 'securities', 'reference', options);
+
+    if (!data.securities || !data.securities.data) {
+      return [];
+    }
+
+    const securities = this.mapBlock(data.securities, 'securities', schema, url);
+    return options.normalize ? securities.map(security => normalizeRow(security)) : securities;
+  }
+
+  /**
+   * Постранично обходит все ценные бумаги рынка, сдвигая курсор start
+   * @param engine - торговая система
+   * @param market - рынок
+   * @param options - размер страницы и ограничение числа строк
+   * @returns асинхронный итератор по ценным бумагам
+   */
+  iterateSecurities<E extends Engine = Engine.STOCK, M extends Market = Market.SHARES>(
+    engine: E = Engine.STOCK as E,
+    market: M = Market.SHARES as M,
+    options: PaginationOptions = {}
+  ): AsyncGenerator<SecurityFor<E, M>> {
+    const { schema, columns } = securitySchemaFor<E, M>(engine, market);
+    return this.paginate(
+      (start, limit) => `${this.baseUrl}/engines/${engine}/markets/${market}/securities.json?iss.meta=off&iss.only=securities&securities.columns=${columns}&start=${start}&limit=${limit}`,
+      'securities',
+      schema,
+      'securities',
+      'reference',
+      options
+    );
+  }
+
+  /**
+   * Получает полный список ценных бумаг рынка со всех страниц
+   * @param engine - торговая система
+   * @param market - рынок
+   * @param options - размер страницы и ограничение числа строк
+   * @returns Promise с массивом ценных бумаг
+   */
+  async getAllSecurities<E extends Engine = Engine.STOCK, M extends Market = Market.SHARES>(
+    engine: E = Engine.STOCK as E,
+    market: M = Market.SHARES as M,
+    options: PaginationOptions = {}
+  ): Promise<SecurityFor<E, M>[]> {
+    const securities: SecurityFor<E, M>[] = [];
+    for await (const security of this.iterateSecurities(engine, market, options)) {
+      securities.push(security);
+    }
+    return securities;
+  }
+
+  /**
+   * Получает все ценные бумаги, торгующиеся в режиме торгов, со всех страниц
+   * @param board - режим торгов
+   * @param engine - торговая система
+   * @param market - рынок
+   * @param options - размер страницы, ограничение числа строк и параметры вызова
+   * @returns Promise с массивом ценных бумаг
+   */
+  async getBoardSecurities<E extends Engine = Engine.STOCK, M extends Market = Market.SHARES>(
+    board: string,
+    engine: E = Engine.STOCK as E,
+    market: M = Market.SHARES as M,
+    options: PaginationOptions = {}
+  ): Promise<SecurityFor<E, M>[]> {
+    const securities: SecurityFor<E, M>[] = [];
+    const { schema, columns } = securitySchemaFor<E, M>(engine, market);
+    const rows = this.paginate(
+      (start, limit) => `${this.baseUrl}/engines/${engine}/markets/${market}/boards/${encodeURIComponent(board)}/securities.json?iss.meta=off&iss.only=securities&securities.columns=${columns}&start=${start}&limit=${limit}`,
+      'securities',
+      schema,
+      `securities for board ${board}`,
+      'reference',
+      options
+    );
+    for await (const security of rows) {
+      securities.push(security);
+    }
+    return securities;
+  }
+
+  /**
+   * Получает все ценные бумаги рынка вместе с рыночными данными: ISS отдаёт оба блока
+   * одним запросом, строки сопоставляются по паре SECID + BOARDID
+   * @param engine - торговая система
+   * @param market - рынок
+   * @param options - размер страницы, ограничение числа строк и параметры вызова
+   * @returns Promise с массивом ценных бумаг, у каждой — рыночные данные её режима торгов или null;
+   * типы зависят от торговой системы и рынка
+   */
+  async getSecuritiesWithMarketData<E extends Engine = Engine.STOCK, M extends Market = Market.SHARES>(
+    engine: E = Engine.STOCK as E,
+    market: M = Market.SHARES as M,
+    options: PaginationOptions = {}
+  ): Promise<SecurityWithMarketData<SecurityFor<E, M>, MarketDataFor<E, M>>[]> {
+    const { schema, columns } = securitySchemaFor<E, M>(engine, market);
+    const marketDataSchema = marketDataSchemaFor<E, M>(engine, market);
+    const result: SecurityWithMarketData<SecurityFor<E, M>, MarketDataFor<E, M>>[] = [];
+    const pages = this.paginateResponses(
+      (start, limit) => `${this.baseUrl}/engines/${engine}/markets/${market}/securities.json?iss.meta=off&iss.only=securities,marketdata&securities.columns=${columns}&start=${start}&limit=${limit}`,
+      'securities',
+      'securities with market data',
+      'marketdata',
+      options
+    );
+
+    for await (const { data, url } of pages) {
+      const marketData = new Map<string, MarketDataFor<E, M>>();
+      if (data.marketdata && data.marketdata.data) {
+        for (const row of this.mapBlock(data.marketdata, 'marketdata', marketDataSchema, url)) {
+          marketData.set(`${row.SECID}|${row.BOARDID}`, row);
+        }
+      }
+      for (const security of this.mapBlock(data.securities, 'securities', schema, url)) {
+        result.push({ ...security, marketdata: marketData.get(`${security.SECID}|${security.BOARDID}`) ?? null });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Получает рыночные данные для конкретной ценной бумаги.
+   * Если бумага торгуется в нескольких режимах, возвращается первая строка ответа ISS,
+   * не обязательно основного режима — см. getBoardMarketData и getPrimaryMarketData
+   * @param secid - идентификатор ценной бумаги
+   * @param engine - торговая система
+   * @param market - рынок
+   * @param options - параметры вызова
+   * @returns Promise с рыночными данными; тип зависит от торговой системы и рынка
+   */
+  getMarketData<E extends Engine = Engine.STOCK, M extends Market = Market.SHARES>(
+    secid: string,
+    engine?: E,
+    market?: M,
+    options?: NormalizeOptions & { normalize?: false }
+  ): Promise<MarketDataFor<E, M> | null>;
+  getMarketData<E extends Engine = Engine.STOCK, M extends Market = Market.SHARES>(
+    secid: string,
+    engine: E | undefined,
+    market: M | undefined,
+    options: NormalizeOptions & { normalize: true }
+  ): Promise<Normalized<MarketDataFor<E, M>> | null>;
+  async getMarketData<E extends Engine = Engine.STOCK, M extends Market = Market.SHARES>(
+    secid: string,
+    engine: E = Engine.STOCK as E,
+    market: M = Market.SHARES as M,
+    options: NormalizeOptions = {}
+  ): Promise<MarketDataFor<E, M> | Normalized<MarketDataFor<E, M>> | null> {
+    // Точность цен приходит в блоке securities, поэтому для нормализации запрашиваем и его
+    const only = options.normalize ? 'marketdata,securities&securities.columns=SECID,BOARDID,DECIMALS' : 'marketdata';
+    const url = `${this.baseUrl}/engines/${engine}/markets/${market}/securities/${encodeURIComponent(secid)}.json?iss.meta=off&iss.only=${only}`;
+
+    const data = await this.request(url, `market data for ${secid}`, 'marketdata', options);
+
+    if (!data.marketdata || !data.marketdata.data || data.marketdata.data.length === 0) {
+      return null;
+    }
+
+    const row = this.mapBlock(data.marketdata, 'marketdata', marketDataSchemaFor<E, M>(engine, market), url)[0];
+    if (!options.normalize) {
+      return row;
+    }
+    const boards = data.securities && data.securities.data
+      ? mapRows<{ BOARDID: string; DECIMALS: number | null }>(data.securities)
+      : [];
+    const board = boards.find(item => item.BOARDID === (row as { BOARDID?: string }).BOARDID);
+    return normalizeRow(row, board?.DECIMALS);
+  }
+
+  /**
+   * Получает рыночные данные ценной бумаги в указанном режиме торгов
+   * @param secid - идентификатор ценной бумаги
+   * @param board - режим торгов
+   * @param engine - торговая система
+   * @param market - рынок
+   * @param options - параметры вызова
+   * @returns Promise с рыночными данными или null, если бумага не торгуется в режиме
+   */
+  async getBoardMarketData<E extends Engine = Engine.STOCK, M extends Market = Market.SHARES>(
+    secid: string,
+    board: string,
+    engine: E = Engine.STOCK as E,
+    market: M = Market.SHARES as M,
+    options: RequestOptions = {}
+  ): Promise<MarketDataFor<E, M> | null> {
+    const url = `${this.baseUrl}/engines/${engine}/markets/${market}/boards/${encodeURIComponent(board)}/securities/${encodeURIComponent(secid)}.json?iss.meta=off&iss.only=marketdata`;
+
+    const data = await this.request(url, `market data for ${secid} on ${board}`, 'marketdata', options);
+
+    if (!data.marketdata || !data.marketdata.data || data.marketdata.data.length === 0) {
+      return null;
+    }
+
+    return this.mapBlock(data.marketdata, 'marketdata', marketDataSchemaFor<E, M>(engine, market), url)[0];
+  }
+
+  /**
+   * Получает режимы торгов ценной бумаги из её описания
+   * @param secid - идентификатор ценной бумаги
+   * @param options - параметры вызова
+   * @returns Promise с массивом режимов торгов
+   */
+  async getSecurityBoards(secid: string, options: RequestOptions = {}): Promise<SecurityBoard[]> {
+    const url = `${this.baseUrl}/securities/${encodeURIComponent(secid)}.json?iss.meta=off&iss.only=boards`;
+
+    const data = await this.request(url, `boards for ${secid}`, 'reference', options);
+
+    if (!data.boards || !data.boards.data) {
+      return [];
+    }
+
+    return this.mapBlock(data.boards, 'boards', SECURITY_BOARD_SCHEMA, url);
+  }
+
+  /**
+   * Получает описание ценной бумаги и режимы торгов, в которых она обращается.
+   * Если по коду описания нет, код ищется как ISIN
+   * @param secidOrIsin - идентификатор ценной бумаги или ISIN
+   * @param options - параметры вызова
+   * @returns Promise с описанием и режимами торгов или null, если бумага не найдена
+   */
+  async getSecurityInfo(secidOrIsin: string, options: RequestOptions = {}): Promise<SecurityInfo | null> {
+    const info = await this.fetchSecurityInfo(secidOrIsin, options);
+    if (info || !ISIN_PATTERN.test(secidOrIsin.toUpperCase())) {
+      return info;
+    }
+
+    const matches = await this.searchSecurities(secidOrIsin, options);
+    const found = matches.find(row => row.isin?.toUpperCase() === secidOrIsin.toUpperCase());
+
+    return found ? this.fetchSecurityInfo(found.secid, options) : null;
+  }
+
+  /**
+   * Ищет ценные бумаги по всем рынкам по коду, названию, ISIN или регистрационному номеру.
+   * Бумаги, у которых SECID или ISIN совпадает с запросом, идут первыми
+   * @param query - строка поиска
+   * @param options - фильтры, число результатов и параметры вызова
+   * @returns Promise с массивом найденных бумаг
+   */
+  async searchSecurities(query: string, options: SearchSecuritiesOptions = {}): Promise<SecuritySearchResult[]> {
+    const { engine, market, isTrading, group, limit = DEFAULT_SEARCH_LIMIT, pageSize } = options;
+    const filters = [
+      `q=${encodeURIComponent(query.trim())}`,
+      engine && `engine=${engine}`,
+      market && `market=${market}`,
+      isTrading !== undefined && `is_trading=${isTrading ? 1 : 0}`,
+      group && `group_by=group&group_by_filter=${encodeURIComponent(group)}`
+    ].filter(Boolean).join('&');
+
+    const results: SecuritySearchResult[] = [];
+    const rows = this.paginate<SecuritySearchResult>(
+      (start, pageLimit) => `${this.baseUrl}/securities.json?iss.meta=off&iss.only=securities&${filters}&start=${start}&limit=${pageLimit}`,
+      'securities',
+      SECURITY_SEARCH_RESULT_SCHEMA,
+      `securities matching "${query}"`,
+      'reference',
+      { ...options, maxRows: limit, pageSize }
+    );
+    for await (const row of rows) {
+      results.push(row);
+    }
+
+    const normalized = query.trim().toUpperCase();
+    const rank = (row: SecuritySearchResult): number => {
+      if (row.secid.toUpperCase() === normalized) {
+        return 0;
+      }
+      return row.isin?.toUpperCase() === normalized ? 1 : 2;
+    };
+    // Array.prototype.sort устойчива: внутри одного ранга сохраняется порядок ISS
+    return results.sort((a, b) => rank(a) - rank(b));
+  }
+
+  /**
+   * Определяет основной режим торгов ценной бумаги по флагу is_primary
+   * @param secidOrIsin - идентификатор ценной бумаги или ISIN
+   * @param options - параметры вызова
+   * @returns Promise с основным режимом торгов или null, если он не указан
+   */
+  async resolvePrimaryBoard(secidOrIsin: string, options: RequestOptions = {}): Promise<SecurityBoard | null> {
+    const info = await this.getSecurityInfo(secidOrIsin, options);
+    return info?.boards.find(board => board.is_primary === 1) ?? null;
+  }
+
+  /**
+   * Получает рыночные данные ценной бумаги в её основном режиме торгов
+   * @param secidOrIsin - идентификатор ценной бумаги или ISIN
+   * @param options - параметры вызова
+   * @returns Promise с рыночными данными или null, если основной режим не указан
+   */
+  async getPrimaryMarketData(secidOrIsin: string, options: RequestOptions = {}): Promise<AnyMarketData | null> {
+    const board = await this.resolvePrimaryBoard(secidOrIsin, options);
+    if (!board) {
+      return null;
+    }
+    return this.getBoardMarketData(board.secid, board.boardid, board.engine as Engine, board.market as Market, options);
+  }
+
+  /**
+   * Получает график платежей по облигации: купоны, амортизации и оферты за весь срок обращения
+   * @param secid - идентификатор облигации
+   * @param options - параметры вызова
+   * @returns Promise с купонами, амортизациями и офертами (пустыми для необлигаций)
+   */
+  async getBondization(secid: string, options: RequestOptions = {}): Promise<Bondization> {
+    const url = `${this.baseUrl}/securities/${encodeURIComponent(secid)}/bondization.json?iss.meta=off&iss.only=coupons,amortizations,offers&limit=unlimited`;
+
+    const data = await this.request(url, `bondization for ${secid}`, 'reference', options);
+    const block = <T>(name: string, schema: Schema<T>): T[] =>
+      data[name] && data[name].data ? this.mapBlock(data[name], name, schema, url) : [];
+
+    return {
+      coupons: block('coupons', BOND_COUPON_SCHEMA),
+      amortizations: block('amortizations', BOND_AMORTIZATION_SCHEMA),
+      offers: block('offers', BOND_OFFER_SCHEMA)
+    };
+  }
+
+  /**
+   * Получает рыночные данные для списка ценных бумаг фильтром ISS securities=.
+   * Длинный список делится на части, которые запрашиваются параллельно с ограничением.
+   * Без режима торгов по каждому тикеру берётся первая строка ответа ISS.
+   * Тикеры сравниваются без учёта регистра, ключи результата — в написании запроса
+   * @param secids - коды ценных бумаг
+   * @param engine - торговая система
+   * @param market - рынок
+   * @param board - режим торгов
+   * @param options - размер части, число одновременных запросов и параметры вызова
+   * @returns Promise с рыночными данными по SECID и списком тикеров, которых нет в ответе;
+   * тип данных зависит от торговой системы и рынка
+   * @throws Error, если chunkSize или concurrency не целое положительное число
+   */
+  async getMarketDataBatch<E extends Engine = Engine.STOCK, M extends Market = Market.SHARES>(
+    secids: string[],
+    engine: E = Engine.STOCK as E,
+    market: M = Market.SHARES as M,
+    board?: string,
+    options: MarketDataBatchOptions = {}
+  ): Promise<MarketDataBatch<MarketDataFor<E, M>>> {
+    const chunkSize = options.chunkSize ?? MARKET_DATA_BATCH_SIZE;
+    if (!isPositiveInteger(chunkSize)) {
+      throw new Error(`Invalid chunk size: ${chunkSize}`);
+    }
+    const concurrency = options.concurrency ?? MARKET_DATA_BATCH_CONCURRENCY;
+    if (!isPositiveInteger(concurrency)) {
+      throw new Error(`Invalid concurrency: ${concurrency}`);
+    }
+
+    // Ключ — тикер в верхнем регистре, значение — первое написание тикера в запросе
+    const requested = new Map<string, string>();
+    for (const secid of secids) {
+      if (!requested.has(secid.toUpperCase())) {
+        requested.set(secid.toUpperCase(), secid);
+      }
+    }
+    const unique = [...requested.values()];
+    const chunks: string[][] = [];
+    for (let i = 0; i < unique.length; i += chunkSize) {
+      chunks.push(unique.slice(i, i + chunkSize));
+    }
+
+    const boardPath = board ? `/boards/${encodeURIComponent(board)}` : '';
+    const limiter = new RateLimiter({ maxConcurrent: concurrency });
+    const pages = await Promise.all(chunks.map(chunk => limiter.schedule(async () => {
+      const url = `${this.baseUrl}/engines/${engine}/markets/${market}${boardPath}/securities.json?iss.meta=off&iss.only=marketdata&securities=${chunk.map(encodeURIComponent).join(',')}`;
+      const data = await this.request(url, `market data for ${chunk.length} securities`, 'marketdata', options);
+      return data.marketdata && data.marketdata.data
+        ? this.mapBlock(data.marketdata, 'marketdata', marketDataSchemaFor<E, M>(engine, market), url)
+        : [];
+    })));
+
+    const result = new Map<string, MarketDataFor<E, M>>();
+    for (const rows of pages) {
+      for (const row of rows) {
+        const secid = requested.get(String(row.SECID).toUpperCase());
+        if (secid !== undefined && !result.has(secid)) {
+          result.set(secid, row);
+        }
+      }
+    }
+
+    return {
+      data: result,
+      missing: unique.filter(secid => !result.has(secid))
+    };
+  }
+
+  /**
+   * Подписывается на рыночные данные: опрашивает ISS пакетными запросами и выдаёт только
+   * изменившиеся инструменты с изменившимися полями. Вне торговых часов рынка по календарю опрос замедляется
+   * @param secids - коды ценных бумаг
+   * @param options - рынок, режим торгов, интервалы опроса и сигнал остановки
+   * @returns подписка: источник событий update/error/end и асинхронный итератор по обновлениям
+   */
+  subscribeMarketData(secids: string[], options: SubscribeMarketDataOptions = {}): MarketDataSubscription {
+    const {
+      engine = Engine.STOCK,
+      market = Market.SHARES,
+      board,
+      intervalMs = DEFAULT_POLL_INTERVAL,
+      maxIntervalMs = DEFAULT_SUBSCRIPTION_MAX_INTERVAL,
+      signal
+    } = options;
+    // Календарь рынка загружается один раз на московский день
+    const calendars = new Map<string, Promise<TradingCalendar>>();
+    const isOpen = async () => {
+      const now = new Date();
+      const day = moscowDate(now);
+      return (await this.memo(calendars, day, () => this.getTradingCalendar(day, day, engine, market, options), {})).isOpen(now);
+    };
+    // Обновления подписки типизированы как MarketData независимо от рынка
+    return new MarketDataSubscription(
+      () => this.getMarketDataBatch(secids, engine, market, board, options) as Promise<MarketDataBatch>,
+      { intervalMs, maxIntervalMs, signal, isOpen }
+    );
+  }
+
+  /**
+   * Получает информацию о торговых сессиях
+   * @param engine - торговая система
+   * @param market - рынок
+   * @param options - параметры вызова
+   * @returns Promise с информацией о торговых сессиях
+   */
+  async getTradingSessions(
+    engine: Engine = Engine.STOCK,
+    market: Market = Market.SHARES,
+    options: RequestOptions = {}
+  ): Promise<TradingSession[]> {
+    const url = `${this.baseUrl}/engines/${engine}/markets/${market}/sessions.json?iss.meta=off`;
+
+    const data = await this.request(url, 'trading sessions', 'reference', options);
+
+    if (!data.sessions || !data.sessions.data) {
+      return [];
+    }
+
+    return this.mapBlock(data.sessions, 'sessions', TRADING_SESSION_SCHEMA, url);
+  }
+
+  /**
+   * Получает недельное расписание торговой системы и исключения из него на отдельные даты.
+   * Расписание загружается один раз на торговую систему, { cache: false } загружает его заново
+   * @param engine - торговая система
+   * @param options - параметры вызова
+   * @returns Promise с расписанием торговой системы
+   */
+  getEngineSchedule(engine: Engine = Engine.STOCK, options: RequestOptions = {}): Promise<EngineSchedule> {
+    return this.memo(this.schedules, engine, () => this.fetchEngineSchedule(engine, options), options);
+  }
+
+  /**
+   * Получает расписание рынка: у рынков одной торговой системы свои часы торгов
+   * (например, облигации не торгуются в вечернюю сессию). Если ISS не публикует расписание рынка,
+   * возвращается расписание торговой системы.
+   * Расписание загружается один раз на рынок, { cache: false } загружает его заново
+   * @param engine - торговая система
+   * @param market - рынок
+   * @param options - параметры вызова
+   * @returns Promise с расписанием рынка
+   * @throws MoexRouteError, если рынка нет в торговой системе (при включённой проверке validateRoutes)
+   */
+  getMarketSchedule(
+    engine: Engine = Engine.STOCK,
+    market: Market = Market.SHARES,
+    options: RequestOptions = {}
+  ): Promise<EngineSchedule> {
+    return this.memo(this.schedules, `${engine}/${market}`, () => this.fetchMarketSchedule(engine, market, options), options);
+  }
+
+  /**
+   * Получает дни календаря ISS за период, отличающиеся от обычной рабочей недели
+   * (праздники в будни и рабочие выходные)
+   * @param from - начало периода 'YYYY-MM-DD' или Date
+   * @param till - конец периода 'YYYY-MM-DD' или Date
+   * @param engine - торговая система, для которой определяется признак торгового дня
+   * @param options - параметры вызова
+   * @returns Promise с массивом дней календаря
+   */
+  async getCalendarDays(
+    from: string | Date,
+    till: string | Date,
+    engine: Engine = Engine.STOCK,
+    options: RequestOptions = {}
+  ): Promise<CalendarDay[]> {
+    const url = `${this.baseUrl}/calendars.json?iss.meta=off&iss.only=off_days&from=${moscowDate(from)}&till=${moscowDate(till)}`;
+
+    const data = await this.request(url, 'trading calendar', 'reference', options);
+
+    if (!data.off_days || !data.off_days.data) {
+      return [];
+    }
+
+    const column = calendarColumn(engine);
+    return mapRows<Record<string, unknown>>(data.off_days)
+      .filter(row => typeof row.tradedate === 'string' && row[column] != null)
+      .map(row => ({ tradedate: row.tradedate as string, isTraded: Number(row[column]) === 1 }));
+  }
+
+  /**
+   * Собирает календарь торговой системы или рынка из расписания и календаря ISS за период.
+   * Вне периода календарь опирается только на расписание
+   * @param from - начало периода 'YYYY-MM-DD' или Date
+   * @param till - конец периода 'YYYY-MM-DD' или Date
+   * @param engine - торговая система
+   * @param market - рынок, часы торгов которого нужны (по умолчанию — часы торговой системы)
+   * @param options - параметры вызова
+   * @returns Promise с календарём торговых дней и часов
+   */
+  async getTradingCalendar(
+    from: string | Date,
+    till: string | Date,
+    engine: Engine = Engine.STOCK,
+    market?: Market,
+    options: RequestOptions = {}
+  ): Promise<TradingCalendar> {
+    const [schedule, days] = await Promise.all([
+      market === undefined ? this.getEngineSchedule(engine, options) : this.getMarketSchedule(engine, market, options),
+      this.getCalendarDays(from, till, engine, options)
+    ]);
+    return new TradingCalendar(schedule, days);
+  }
+
+  /**
+   * Проверяет, идут ли торги в этот день (по московскому времени)
+   * @param date - дата 'YYYY-MM-DD' или Date (по умолчанию — сегодня)
+   * @param engine - торговая система
+   * @param options - параметры вызова
+   */
+  async isTradingDay(
+    date: string | Date = new Date(),
+    engine: Engine = Engine.STOCK,
+    options: RequestOptions = {}
+  ): Promise<boolean> {
+    return (await this.getTradingCalendar(date, date, engine, undefined, options)).isTradingDay(date);
+  }
+
+  /**
+   * Проверяет, идут ли торги в указанный момент (по московскому времени)
+   * @param now - момент времени (по умолчанию — текущий)
+   * @param engine - торговая система
+   * @param market - рынок; часы торгов берутся из его расписания (по умолчанию — часы торговой системы)
+   * @param options - параметры вызова
+   */
+  async isMarketOpen(
+    now: Date = new Date(),
+    engine: Engine = Engine.STOCK,
+    market?: Market,
+    options: RequestOptions = {}
+  ): Promise<boolean> {
+    return (await this.getTradingCalendar(now, now, engine, market, options)).isOpen(now);
+  }
+
+  /**
+   * Возвращает ближайший торговый день после даты (по московскому времени)
+   * @param date - дата 'YYYY-MM-DD' или Date (по умолчанию — сегодня)
+   * @param engine - торговая система
+   * @param options - параметры вызова
+   * @returns Promise с датой 'YYYY-MM-DD'
+   */
+  async nextTradingDay(
+    date: string | Date = new Date(),
+    engine: Engine = Engine.STOCK,
+    options: RequestOptions = {}
+  ): Promise<string> {
+    const calendar = await this.getTradingCalendar(shiftDate(date, 1), shiftDate(date, CALENDAR_SEARCH_DAYS), engine, undefined, options);
+    return calendar.nextTradingDay(date);
+  }
+
+  /**
+   * Возвращает ближайший торговый день до даты (по московскому времени)
+   * @param date - дата 'YYYY-MM-DD' или Date (по умолчанию — сегодня)
+   * @param engine - торговая система
+   * @param options - параметры вызова
+   * @returns Promise с датой 'YYYY-MM-DD'
+   */
+  async previousTradingDay(
+    date: string | Date = new Date(),
+    engine: Engine = Engine.STOCK,
+    options: RequestOptions = {}
+  ): Promise<string> {
+    const calendar = await this.getTradingCalendar(shiftDate(date, -CALENDAR_SEARCH_DAYS), shiftDate(date, -1), engine, undefined, options);
+    return calendar.previousTradingDay(date);
+  }
+
+  /**
+   * Возвращает торговые дни периода, включая его границы (по московскому времени)
+   * @param from - начало периода 'YYYY-MM-DD' или Date
+   * @param till - конец периода 'YYYY-MM-DD' или Date
+   * @param engine - торговая система
+   * @param options - параметры вызова
+   * @returns Promise с датами 'YYYY-MM-DD' по возрастанию
+   */
+  async tradingDaysBetween(
+    from: string | Date,
+    till: string | Date,
+    engine: Engine = Engine.STOCK,
+    options: RequestOptions = {}
+  ): Promise<string[]> {
+    return (await this.getTradingCalendar(from, till, engine, undefined, options)).tradingDaysBetween(from, till);
+  }
+
+  /**
+   * Получает свечи по ценной бумаге за период, загружая все страницы ISS
+   * @param secid - идентификатор ценной бумаги
+   * @param options - рынок, режим торгов, интервал и период
+   * @returns Promise с массивом свечей
+   */
+  async getCandles(secid: string, options: CandlesOptions = {}): Promise<Candle[]> {
+    const {
+      engine = Engine.STOCK,
+      market = Market.SHARES,
+      board,
+      interval = Interval.DAY,
+      from,
+      till
+    } = options;
+
+    const path = board
+      ? `/engines/${engine}/markets/${market}/boards/${encodeURIComponent(board)}/securities/${encodeURIComponent(secid)}/candles.json`
+      : `/engines/${engine}/markets/${market}/securities/${encodeURIComponent(secid)}/candles.json`;
+    let query = `iss.meta=off&iss.only=candles&interval=${interval}`;
+    if (from) {
+      query += `&from=${moscowDate(from)}`;
+    }
+    if (till) {
+      query += `&till=${moscowDate(till)}`;
+    }
+
+    const candles: Candle[] = [];
+    const pages = this.paginate<Candle>(
+      (start) => `${this.baseUrl}${path}?${query}&start=${start}`,
+      'candles',
+      CANDLE_SCHEMA,
+      `candles for ${secid}`,
+      'history',
+      options,
+      ISS_CANDLES_PAGE_SIZE
+    );
+    for await (const candle of pages) {
+      candles.push(candle);
+    }
+    return candles;
+  }
+
+  /**
+   * Получает итоги торгов по ценной бумаге за период, загружая все страницы ISS
+   * @param secid - идентификатор ценной бумаги
+   * @param options - рынок, режим торгов и период
+   * @returns Promise с массивом итогов торгов по дням
+   */
+  async getHistory(secid: string, options: HistoryOptions = {}): Promise<HistoryRow[]> {
+    const { engine = Engine.STOCK, market = Market.SHARES, board, from, till } = options;
+
+    const path = board
+      ? `/history/engines/${engine}/markets/${market}/boards/${encodeURIComponent(board)}/securities/${encodeURIComponent(secid)}.json`
+      : `/history/engines/${engine}/markets/${market}/securities/${encodeURIComponent(secid)}.json`;
+    let query = 'iss.meta=off&iss.only=history,history.cursor';
+    if (from) {
+      query += `&from=${moscowDate(from)}`;
+    }
+    if (till) {
+      query += `&till=${moscowDate(till)}`;
+    }
+
+    const rows: HistoryRow[] = [];
+    const pages = this.paginateCursor<HistoryRow>(
+      (start) => `${this.baseUrl}${path}?${query}&start=${start}`,
+      'history',
+      HISTORY_ROW_SCHEMA,
+      `history for ${secid}`,
+      'history',
+      options
+    );
+    for await (const row of pages) {
+      rows.push(row);
+    }
+    return rows;
+  }
+
+  /**
+   * Получает итоги торгов по всем бумагам рынка за один день
+   * @param date - торговый день: 'YYYY-MM-DD' или Date
+   * @param engine - торговая система
+   * @param market - рынок
+   * @param board - режим торгов (необязательно)
+   * @param options - параметры вызова
+   * @returns Promise с массивом итогов торгов
+   */
+  async getHistoryByDate(
+    date: string | Date,
+    engine: Engine = Engine.STOCK,
+    market: Market = Market.SHARES,
+    board?: string,
+    options: RequestOptions = {}
+  ): Promise<HistoryRow[]> {
+    const path = board
+      ? `/history/engines/${engine}/markets/${market}/boards/${encodeURIComponent(board)}/securities.json`
+      : `/history/engines/${engine}/markets/${market}/securities.json`;
+    const query = `iss.meta=off&iss.only=history,history.cursor&date=${moscowDate(date)}`;
+
+    const rows: HistoryRow[] = [];
+    const pages = this.paginateCursor<HistoryRow>(
+      (start) => `${this.baseUrl}${path}?${query}&start=${start}`,
+      'history',
+      HISTORY_ROW_SCHEMA,
+      `history for ${moscowDate(date)}`,
+      'history',
+      options
+    );
+    for await (const row of pages) {
+      rows.push(row);
+    }
+    return rows;
+  }
+
+  /**
+   * Получает ленту сделок по ценной бумаге
+   * @param secid - идентификатор ценной бумаги
+   * @param options - рынок, режим торгов, курсор по номеру сделки и порядок
+   * @returns Promise с массивом сделок
+   */
+  async getTrades(secid: string, options: TradesOptions = {}): Promise<Trade[]> {
+    const { engine = Engine.STOCK, market = Market.SHARES, board, fromTradeNo, reversed, limit } = options;
+
+    const path = board
+      ? `/engines/${engine}/markets/${market}/boards/${encodeURIComponent(board)}/securities/${encodeURIComponent(secid)}/trades.json`
+      : `/engines/${engine}/markets/${market}/securities/${encodeURIComponent(secid)}/trades.json`;
+    let url = `${this.baseUrl}${path}?iss.meta=off&iss.only=trades`;
+    if (fromTradeNo !== undefined) {
+      url += `&tradeno=${fromTradeNo}`;
+    }
+    if (reversed) {
+      url += '&reversed=1';
+    }
+    if (limit !== undefined) {
+      url += `&limit=${Math.min(limit, ISS_TRADES_PAGE_SIZE)}`;
+    }
+
+    const data = await this.request(url, `trades for ${secid}`, 'trades', options);
+
+    if (!data.trades || !data.trades.data) {
+      return [];
+    }
+
+    return this.mapBlock(data.trades, 'trades', TRADE_SCHEMA, url);
+  }
+
+  /**
+   * Опрашивает ленту сделок и выдаёт только сделки с номером больше
+   * последнего увиденного, без пропусков и повторов.
+   * Временные сбои (сеть, 5xx, 429) не прерывают опрос: он продолжается после паузы,
+   * растущей как при повторах запросов; остальные ошибки завершают итератор
+   * @param secid - идентификатор ценной бумаги
+   * @param options - рынок, режим торгов, начальный номер сделки, интервал и сигнал остановки
+   * @returns асинхронный итератор по новым сделкам
+   */
+  async *pollTrades(secid: string, options: PollTradesOptions = {}): AsyncGenerator<Trade> {
+    const { engine, market, board, fromTradeNo, intervalMs = DEFAULT_POLL_INTERVAL, signal } = options;
+    let lastTradeNo = fromTradeNo !== undefined ? fromTradeNo - 1 : undefined;
+    let failures = 0;
+
+    while (!signal?.aborted) {
+      let trades: Trade[];
+      try {
+        trades = await this.getTrades(secid, {
+          engine,
+          market,
+          board,
+          fromTradeNo: lastTradeNo,
+          limit: ISS_TRADES_PAGE_SIZE
+        });
+        failures = 0;
+      } catch (error) {
+        if (!isRetryable(error)) {
+          throw error;
+        }
+        await sleep(Math.max(intervalMs, this.retryDelay(failures++, error as MoexError)), signal);
+        continue;
+      }
+
+      for (const trade of trades) {
+        if (lastTradeNo === undefined || trade.TRADENO > lastTradeNo) {
+          lastTradeNo = trade.TRADENO;
+          yield trade;
+        }
+      }
+
+      // Полная страница означает, что в ленте есть ещё сделки — догружаем сразу
+      if (trades.length < ISS_TRADES_PAGE_SIZE) {
+        await sleep(intervalMs, signal);
+      }
+    }
+  }
+
+  /**
+   * Получает стакан заявок по ценной бумаге.
+   * Без подписки ISS отдаёт пустой стакан — в этом случае available = false
+   * @param secid - идентификатор ценной бумаги
+   * @param engine - торговая система
+   * @param market - рынок
+   * @param board - режим торгов (необязательно, если бумага торгуется в одном режиме)
+   * @param options - параметры вызова
+   * @returns Promise со стаканом
+   * @throws MoexError, если режим не указан, а ISS вернул стаканы нескольких режимов
+   *   (см. getOrderBooks)
+   */
+  async getOrderBook(
+    secid: string,
+    engine: Engine = Engine.STOCK,
+    market: Market = Market.SHARES,
+    board?: string,
+    options: RequestOptions = {}
+  ): Promise<OrderBook> {
+    const path = board
+      ? `/engines/${engine}/markets/${market}/boards/${encodeURIComponent(board)}/securities/${encodeURIComponent(secid)}/orderbook.json`
+      : `/engines/${engine}/markets/${market}/securities/${encodeURIComponent(secid)}/orderbook.json`;
+    const url = `${this.baseUrl}${path}?iss.meta=off&iss.only=orderbook`;
+
+    const data = await this.request(url, `order book for ${secid}`, 'marketdata', options);
+
+    if (!data.orderbook || !data.orderbook.data) {
+      return buildOrderBook(secid, []);
+    }
+
+    const books = buildOrderBooks(secid, this.mapBlock(data.orderbook, 'orderbook', ORDER_BOOK_ROW_SCHEMA, url));
+    if (books.length > 1) {
+      const boards = books.map(book => book.boardid).join(', ');
+      throw new MoexError(`Order book for ${secid} spans several boards (${boards}): pass board or use getOrderBooks`, { url });
+    }
+    return books[0] ?? buildOrderBook(secid, []);
+  }
+
+  /**
+   * Получает стаканы заявок по ценной бумаге во всех режимах торгов, по одному на режим
+   * @param secid - идентификатор ценной бумаги
+   * @param engine - торговая система
+   * @param market - рынок
+   * @param options - параметры вызова
+   * @returns Promise с массивом стаканов (пустым, если ISS не отдал стакан)
+   */
+  async getOrderBooks(
+    secid: string,
+    engine: Engine = Engine.STOCK,
+    market: Market = Market.SHARES,
+    options: RequestOptions = {}
+  ): Promise<OrderBook[]> {
+    const url = `${this.baseUrl}/engines/${engine}/markets/${market}/securities/${encodeURIComponent(secid)}/orderbook.json?iss.meta=off&iss.only=orderbook`;
+
+    const data = await this.request(url, `order books for ${secid}`, 'marketdata', options);
+
+    if (!data.orderbook || !data.orderbook.data) {
+      return [];
+    }
+
+    return buildOrderBooks(secid, this.mapBlock(data.orderbook, 'orderbook', ORDER_BOOK_ROW_SCHEMA, url));
+  }
+
+  /**
+   * Получает список индексов, по которым ISS публикует состав и веса
+   * @param options - параметры вызова
+   * @returns Promise с массивом индексов
+   */
+  async listIndices(options: RequestOptions = {}): Promise<IndexInfo[]> {
+    const url = `${this.baseUrl}/statistics/engines/stock/markets/index/analytics.json?iss.meta=off&iss.only=indices`;
+
+    const data = await this.request(url, 'indices', 'reference', options);
+
+    if (!data.indices || !data.indices.data) {
+      return [];
+    }
+
+    return this.mapBlock(data.indices, 'indices', INDEX_INFO_SCHEMA, url);
+  }
+
+  /**
+   * Получает состав индекса с весами бумаг, загружая все страницы ISS
+   * @param indexId - код индекса, например 'IMOEX'
+   * @param date - дата состава: 'YYYY-MM-DD' или Date (по умолчанию — текущий состав)
+   * @param options - параметры вызова
+   * @returns Promise с массивом бумаг индекса
+   */
+  async getIndexConstituents(
+    indexId: string,
+    date?: string | Date,
+    options: RequestOptions = {}
+  ): Promise<IndexConstituent[]> {
+    let query = 'iss.meta=off&iss.only=analytics,analytics.cursor';
+    if (date !== undefined) {
+      query += `&date=${moscowDate(date)}`;
+    }
+
+    const rows: IndexConstituent[] = [];
+    const pages = this.paginateCursor<IndexConstituent>(
+      (start) => `${this.baseUrl}/statistics/engines/stock/markets/index/analytics/${encodeURIComponent(indexId)}.json?${query}&start=${start}`,
+      'analytics',
+      INDEX_CONSTITUENT_SCHEMA,
+      `constituents of ${indexId}`,
+      date === undefined ? 'reference' : 'history',
+      options
+    );
+    for await (const row of pages) {
+      rows.push(row);
+    }
+    return rows;
+  }
+
+  /**
+   * Получает текущее значение индекса
+   * @param indexId - код индекса, например 'IMOEX' или 'RTSI'
+   * @param options - параметры вызова
+   * @returns Promise с рыночными данными индекса или null, если индекс не найден
+   */
+  async getIndexValue(indexId: string, options: RequestOptions = {}): Promise<IndexMarketData | null> {
+    return this.getMarketData(indexId, Engine.STOCK, Market.INDEX, options);
+  }
+
+  /**
+   * Получает официальные курсы ЦБ РФ, публикуемые в статистике валютного рынка
+   * @param date - дата курса: 'YYYY-MM-DD' или Date (по умолчанию — последний курс)
+   * @param options - параметры вызова
+   * @returns Promise с массивом курсов по валютам
+   */
+  async getCbrRates(date?: string | Date, options: RequestOptions = {}): Promise<CbrRate[]> {
+    let url = `${this.baseUrl}/statistics/engines/currency/markets/selt/rates.json?iss.meta=off&iss.only=cbrf`;
+    if (date !== undefined) {
+      url += `&date=${moscowDate(date)}`;
+    }
+
+    const data = await this.request(url, 'CBR rates', 'history', options);
+
+    if (!data.cbrf || !data.cbrf.data || data.cbrf.data.length === 0) {
+      return [];
+    }
+
+    return buildCbrRates(mapRows<Record<string, unknown>>(data.cbrf)[0]);
+  }
+
+  /**
+   * Получает фиксинги Московской Биржи по валютной паре за период, загружая все страницы ISS
+   * @param pair - валютная пара ('USD/RUB') или код фиксинга ('USDFIXME')
+   * @param from - начало периода: 'YYYY-MM-DD' или Date
+   * @param till - конец периода: 'YYYY-MM-DD' или Date
+   * @param options - параметры вызова
+   * @returns Promise с массивом фиксингов по дням
+   */
+  async getFixings(
+    pair: string,
+    from: string | Date,
+    till: string | Date,
+    options: RequestOptions = {}
+  ): Promise<CurrencyFixing[]> {
+    const secid = fixingSecid(pair);
+    const query = `iss.meta=off&iss.only=history,history.cursor&from=${moscowDate(from)}&till=${moscowDate(till)}`;
+
+    const rows: CurrencyFixing[] = [];
+    const pages = this.paginateCursor<CurrencyFixing>(
+      (start) => `${this.baseUrl}/statistics/engines/currency/markets/fixing/${encodeURIComponent(secid)}.json?${query}&start=${start}`,
+      'history',
+      CURRENCY_FIXING_SCHEMA,
+      `fixings for ${secid}`,
+      'history',
+      options
+    );
+    for await (const row of pages) {
+      rows.push(row);
+    }
+    return rows;
+  }
+
+  /**
+   * Получает текущие индикативные курсы срочного рынка по всем валютным парам
+   * @param options - параметры вызова
+   * @returns Promise с массивом индикативных курсов
+   */
+  async getIndicativeRates(options: RequestOptions = {}): Promise<IndicativeRate[]> {
+    const url = `${this.baseUrl}/statistics/engines/futures/markets/indicativerates/securities.json?iss.meta=off&iss.only=securities`;
+
+    const data = await this.request(url, 'indicative rates', 'marketdata', options);
+
+    if (!data.securities || !data.securities.data) {
+      return [];
+    }
+
+    return this.mapBlock(data.securities, 'securities', INDICATIVE_RATE_SCHEMA, url);
+  }
+
+  /**
+   * Пересчитывает сумму из одной валюты в другую через рублёвые курсы.
+   * Курс валюты берётся из официальных курсов ЦБ РФ; если ЦБ её не публикует —
+   * из индикативных курсов (на текущую дату) или фиксинга (на прошедшую).
+   * Курсы запоминаются в клиенте по валюте и дню
+   * @param amount - сумма
+   * @param from - исходная валюта, например 'USD' (рубль — 'RUB' или 'SUR')
+   * @param to - целевая валюта
+   * @param date - дата курса: 'YYYY-MM-DD' или Date (по умолчанию — текущий курс)
+   * @param options - параметры вызова
+   * @returns Promise с суммой в целевой валюте
+   * @throws MoexError, если курс валюты не найден ни в одном источнике
+   */
+  async convert(
+    amount: number,
+    from: string,
+    to: string,
+    date?: string | Date,
+    options: RequestOptions = {}
+  ): Promise<number> {
+    const source = normalizeCurrency(from);
+    const target = normalizeCurrency(to);
+    if (source === target) {
+      return amount;
+    }
+
+    const [sourceRate, targetRate] = await Promise.all([
+      this.rubRate(source, date, options),
+      this.rubRate(target, date, options)
+    ]);
+    return amount * sourceRate / targetRate;
+  }
+
+  /**
+   * Получает справочник ISS. Справочник хранится в кэше клиента (или в памяти, если кэш
+   * не настроен) со сроком жизни справочных данных, { cache: false } загружает его заново
+   * @param options - параметры вызова
+   * @returns Promise со справочником торговых систем, рынков и режимов торгов
+   */
+  async getIndex(options: RequestOptions = {}): Promise<IssIndex> {
+    const url = `${this.baseUrl}/index.json?iss.meta=off&iss.only=engines,markets,boards,boardgroups,securitytypes,securitygroups`;
+    if (options.cache !== false) {
+      const entry = await this.indexStore.get(url);
+      if (entry && Date.now() < entry.expiresAt) {
+        return entry.value as IssIndex;
+      }
+      if (this.indexLoading) {
+        return this.indexLoading;
+      }
+    }
+
+    const pending = this.fetchIndex(url).then(async index => {
+      const storedAt = Date.now();
+      await this.indexStore
+        .set(url, { value: index, storedAt, expiresAt: storedAt + this.cacheTtl.reference })
+        .catch(() => undefined);
+      return index;
+    });
+    // Одновременные вызовы ждут одну загрузку; неудачная не запоминается
+    this.indexLoading = pending;
+    pending.catch(() => undefined).finally(() => {
+      if (this.indexLoading === pending) {
+        this.indexLoading = undefined;
+      }
+    });
+    return pending;
+  }
+
+  /**
+   * Получает список торговых систем
+   * @param options - параметры вызова
+   * @returns Promise с массивом торговых систем
+   */
+  async getEngines(options: RequestOptions = {}): Promise<IssEngine[]> {
+    return (await this.getIndex(options)).engines;
+  }
+
+  /**
+   * Получает рынки торговой системы
+   * @param engine - торговая система
+   * @param options - параметры вызова
+   * @returns Promise с массивом рынков (пустым для неизвестной торговой системы)
+   */
+  async getMarkets(engine: Engine, options: RequestOptions = {}): Promise<IssMarket[]> {
+    const index = await this.getIndex(options);
+    return index.markets.filter(item => item.trade_engine_name === engine);
+  }
+
+  /**
+   * Получает режимы торгов рынка
+   * @param engine - торговая система
+   * @param market - рынок
+   * @param options - параметры вызова
+   * @returns Promise с массивом режимов торгов (пустым для неизвестного рынка)
+   */
+  async getBoards(engine: Engine, market: Market, options: RequestOptions = {}): Promise<IssBoard[]> {
+    const index = await this.getIndex(options);
+    const found = index.markets.find(item => item.trade_engine_name === engine && item.market_name === market);
+    if (!found) {
+      return [];
+    }
+    return index.boards.filter(item => item.engine_id === found.trade_engine_id && item.market_id === found.id);
+  }
+
+  /**
+   * Проверяет по справочнику ISS, что рынок есть в торговой системе, а режим торгов — на рынке
+   * @param engine - торговая система
+   * @param market - рынок
+   * @param board - режим торгов (необязательно)
+   * @param options - параметры вызова
+   * @throws MoexRouteError, если сочетание отсутствует в справочнике
+   */
+  async validateRoute(engine: Engine, market: Market, board?: string, options: RequestOptions = {}): Promise<void> {
+    this.checkRoute(await this.getIndex(options), engine, market, board);
+  }
+
+  /**
+   * Проверяет сочетание торговой системы, рынка и режима торгов по справочнику
+   * @param index - справочник ISS
+   * @param engine - торговая система
+   * @param market - рынок
+   * @param board - режим торгов
+   * @param url - адрес запроса, для которого выполняется проверка
+   */
+  private checkRoute(index: IssIndex, engine: string, market: string, board: string | undefined, url?: string): void {
+    const route = { url, engine, market, board };
+
+    const foundEngine = index.engines.find(item => item.name === engine);
+    if (!foundEngine) {
+      const available = index.engines.map(item => item.name).join(', ');
+      throw new MoexRouteError(`Unknown engine "${engine}". Available engines: ${available}`, route);
+    }
+
+    const markets = index.markets.filter(item => item.trade_engine_id === foundEngine.id);
+    const foundMarket = markets.find(item => item.market_name === market);
+    if (!foundMarket) {
+      const available = markets.map(item => item.market_name).join(', ');
+      throw new MoexRouteError(`Market "${market}" is not available in engine "${engine}". Available markets: ${available}`, route);
+    }
+
+    if (board === undefined) {
+      return;
+    }
+    const boards = index.boards.filter(item => item.engine_id === foundEngine.id && item.market_id === foundMarket.id);
+    if (!boards.some(item => item.boardid.toUpperCase() === board.toUpperCase())) {
+      const available = boards.map(item => item.boardid).join(', ');
+      throw new MoexRouteError(`Board "${board}" is not available in ${engine}/${market}. Available boards: ${available}`, route);
+    }
+  }
+
+  /**
+   * Загружает описание и режимы торгов ценной бумаги по её коду
+   * @param secid - идентификатор ценной бумаги
+   * @param options - параметры вызова
+   */
+  private async fetchSecurityInfo(secid: string, options: RequestOptions): Promise<SecurityInfo | null> {
+    const url = `${this.baseUrl}/securities/${encodeURIComponent(secid)}.json?iss.meta=off&iss.only=description,boards`;
+
+    const data = await this.request(url, `security ${secid}`, 'reference', options);
+
+    if (!data.description || !data.description.data || data.description.data.length === 0) {
+      return null;
+    }
+
+    const fields = this.mapBlock(data.description, 'description', SECURITY_DESCRIPTION_FIELD_SCHEMA, url);
+    return {
+      description: buildSecurityDescription(fields),
+      boards: data.boards && data.boards.data ? this.mapBlock(data.boards, 'boards', SECURITY_BOARD_SCHEMA, url) : []
+    };
+  }
+
+  /**
+   * Загружает справочник ISS. Запрос идёт мимо кэша ответов: getIndex кэширует справочник разобранным
+   * @param url - адрес справочника
+   */
+  private async fetchIndex(url: string): Promise<IssIndex> {
+    const data = await this.fetchJson(url, 'ISS index');
+    const block = <T>(name: string, schema: Schema<T>): T[] =>
+      data[name] && data[name].data ? this.mapBlock(data[name], name, schema, url) : [];
+
+    return {
+      engines: block('engines', ISS_ENGINE_SCHEMA),
+      markets: block('markets', ISS_MARKET_SCHEMA),
+      boards: block('boards', ISS_BOARD_SCHEMA),
+      boardgroups: block('boardgroups', ISS_BOARD_GROUP_SCHEMA),
+      securitytypes: block('securitytypes', ISS_SECURITY_TYPE_SCHEMA),
+      securitygroups: block('securitygroups', ISS_SECURITY_GROUP_SCHEMA)
+    };
+  }
+
+  /**
+   * Загружает расписание торговой системы
+   * @param engine - торговая система
+   * @param options - параметры вызова
+   */
+  private async fetchEngineSchedule(engine: Engine, options: RequestOptions): Promise<EngineSchedule> {
+    const url = `${this.baseUrl}/engines/${engine}.json?iss.meta=off&iss.only=timetable,dailytable`;
+
+    const data = await this.request(url, `schedule of ${engine}`, 'reference', options);
+
+    return this.mapSchedule(data, url);
+  }
+
+  /**
+   * Загружает расписание рынка, а если ISS его не публикует — расписание торговой системы
+   * @param engine - торговая система
+   * @param market - рынок
+   * @param options - параметры вызова
+   */
+  private async fetchMarketSchedule(engine: Engine, market: Market, options: RequestOptions): Promise<EngineSchedule> {
+    const url = `${this.baseUrl}/engines/${engine}/markets/${market}.json?iss.meta=off&iss.only=timetable,dailytable`;
+
+    const data = await this.request(url, `schedule of ${engine}/${market}`, 'reference', options);
+
+    const schedule = this.mapSchedule(data, url);
+    if (schedule.timetable.length === 0 && schedule.dailytable.length === 0) {
+      return this.getEngineSchedule(engine, options);
+    }
+    return schedule;
+  }
+
+  /**
+   * Приводит блоки timetable и dailytable ответа ISS к расписанию
+   * @param data - тело ответа ISS
+   * @param url - адрес запроса
+   */
+  private mapSchedule(data: any, url: string): EngineSchedule {
+    return {
+      timetable: data.timetable && data.timetable.data ? this.mapBlock(data.timetable, 'timetable', ENGINE_TIMETABLE_SCHEMA, url) : [],
+      dailytable: data.dailytable && data.dailytable.data ? this.mapBlock(data.dailytable, 'dailytable', ENGINE_DAILY_TABLE_SCHEMA, url) : []
+    };
+  }
+
+  /**
+   * Возвращает курс валюты в рублях, запоминая его по валюте и дню
+   * @param currency - код валюты
+   * @param date - дата курса (по умолчанию — текущий курс)
+   * @param options - параметры вызова
+   */
+  private rubRate(currency: string, date: string | Date | undefined, options: RequestOptions): Promise<number> {
+    if (currency === 'RUB') {
+      return Promise.resolve(1);
+    }
+
+    const day = date === undefined ? undefined : moscowDate(date);
+    return this.memo(this.rubRates, `${currency}|${rateKey(day)}`, () => this.fetchRubRate(currency, day, options), options);
+  }
+
+  /**
+   * Ищет курс валюты в рублях: официальный курс ЦБ РФ, затем индикативный курс
+   * (без даты) или фиксинг (на дату)
+   * @param currency - код валюты
+   * @param day - дата курса 'YYYY-MM-DD' (undefined — текущий курс)
+   * @param options - параметры вызова
+   */
+  private async fetchRubRate(currency: string, day: string | undefined, options: RequestOptions): Promise<number> {
+    // Одна таблица ЦБ РФ на день: обе валюты пересчёта берут курсы из одного запроса
+    const table = this.memo(this.cbrRates, rateKey(day), () => this.getCbrRates(day, options), options);
+    const official = (await table).find(rate => rate.currency === currency);
+    if (official) {
+      return official.rate;
+    }
+
+    if (day === undefined) {
+      const indicative = (await this.getIndicativeRates(options)).find(rate => rate.secid === `${currency}/RUB`);
+      if (indicative) {
+        return indicative.rate;
+      }
+    } else {
+      const fixings = await this.getFixings(`${currency}/RUB`, day, day, options);
+      if (fixings.length > 0) {
+        return fixings[fixings.length - 1].rate;
+      }
+    }
+
+    throw new MoexError(day === undefined ? `No RUB rate for ${currency}` : `No RUB rate for ${currency} on ${day}`);
+  }
+
+  /**
+   * Обходит постраничный блок ISS, пока очередная страница не окажется неполной
+   * @param buildUrl - формирует адрес страницы по смещению и размеру
+   * @param blockName - имя блока в ответе ISS
+   * @param schema - схема строк блока
+   * @param what - описание запрашиваемых данных для текста ошибки
+   * @param category - категория запроса для кэша
+   * @param options - размер страницы, ограничение числа строк и параметры вызова
+   * @param maxPageSize - максимальный размер страницы для эндпоинта
+   */
+  protected async *paginate<T>(
+    buildUrl: (start: number, limit: number) => string,
+    blockName: string,
+    schema: Schema<T>,
+    what: string,
+    category: CacheCategory,
+    options: PaginationOptions = {},
+    maxPageSize: number = ISS_PAGE_SIZE
+  ): AsyncGenerator<T> {
+    const pages = this.paginateResponses(buildUrl, blockName, what, category, options, maxPageSize);
+    for await (const { data, url } of pages) {
+      yield* this.mapBlock(data[blockName], blockName, schema, url);
+    }
+  }
+
+  /**
+   * Загружает страницы ответа ISS целиком; окончание определяется по блоку blockName.
+   * Нужен, когда из одной страницы разбираются несколько блоков
+   * @param buildUrl - формирует адрес страницы по смещению и размеру
+   * @param blockName - имя блока, по которому определяется конец данных
+   * @param what - описание запрашиваемых данных для текста ошибки
+   * @param category - категория запроса для кэша
+   * @param options - размер страницы, ограничение числа строк и параметры вызова
+   * @param maxPageSize - максимальный размер страницы для эндпоинта
+   * @returns асинхронный итератор по непустым страницам и их адресам
+   */
+  protected async *paginateResponses(
+    buildUrl: (start: number, limit: number) => string,
+    blockName: string,
+    what: string,
+    category: CacheCategory,
+    options: PaginationOptions = {},
+    maxPageSize: number = ISS_PAGE_SIZE
+  ): AsyncGenerator<{ data: any; url: string }> {
+    const pageSize = Math.min(options.pageSize ?? maxPageSize, maxPageSize);
+    const maxRows = options.maxRows ?? Infinity;
+    if (pageSize <= 0) {
+      throw new Error(`Invalid page size: ${pageSize}`);
+    }
+
+    let start = 0;
+    while (start < maxRows) {
+      const limit = Math.min(pageSize, maxRows - start);
+      const url = buildUrl(start, limit);
+      const data = await this.request(url, what, category, options);
+      const block = data[blockName];
+
+      if (!block || !block.data || block.data.length === 0) {
+        return;
+      }
+
+      yield { data, url };
+
+      if (block.data.length < limit) {
+        return;
+      }
+      start += block.data.length;
+    }
+  }
+
+  /**
+   * Обходит блок ISS, сопровождаемый блоком `<имя>.cursor` (INDEX, TOTAL, PAGESIZE).
+   * Если курсора в ответе нет, обход завершается после первой страницы
+   * @param buildUrl - формирует адрес страницы по смещению
+   * @param blockName - имя блока в ответе ISS
+   * @param schema - схема строк блока
+   * @param what - описание запрашиваемых данных для текста ошибки
+   * @param category - категория запроса для кэша
+   * @param options - параметры вызова
+   */
+  protected async *paginateCursor<T>(
+    buildUrl: (start: number) => string,
+    blockName: string,
+    schema: Schema<T>,
+    what: string,
+    category: CacheCategory,
+    options: RequestOptions = {}
+  ): AsyncGenerator<T> {
+    let start = 0;
+    while (true) {
+      const url = buildUrl(start);
+      const data = await this.request(url, what, category, options);
+      const block = data[blockName];
+
+      if (!block || !block.data || block.data.length === 0) {
+        return;
+      }
+
+      yield* this.mapBlock(block, blockName, schema, url);
+
+      const cursorBlock = data[`${blockName}.cursor`];
+      if (!cursorBlock || !cursorBlock.data || cursorBlock.data.length === 0) {
+        return;
+      }
+      const cursor = mapRows<{ INDEX: number; TOTAL: number; PAGESIZE: number }>(cursorBlock)[0];
+      start = cursor.INDEX + cursor.PAGESIZE;
+      if (start >= cursor.TOTAL) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Сверяет блок ISS со схемой согласно настройке schemaDrift и превращает строки в объекты
+   * @param block - блок данных из ответа ISS
+   * @param blockName - имя блока
+   * @param schema - схема строк блока
+   * @param url - адрес запроса для текста ошибки
+   * @returns массив объектов с приведёнными значениями
+   * @throws MoexSchemaError при schemaDrift = 'throw'
+   */
+  protected mapBlock<T>(block: IssBlock, blockName: string, schema: Schema<T>, url: string): T[] {
+    if (this.schemaDrift !== 'ignore') {
+      const drift = validateBlock(blockName, block.columns, block.data, schema);
+      if (drift) {
+        this.reportDrift(drift, url);
+      }
+    }
+    return mapRows<T>(block, schema);
+  }
+
+  /**
+   * Сообщает о расхождении со схемой выбранным способом
+   * @param drift - отчёт о расхождении
+   * @param url - адрес запроса
+   */
+  private reportDrift(drift: SchemaDrift, url: string): void {
+    if (typeof this.schemaDrift === 'function') {
+      this.schemaDrift(drift);
+      return;
+    }
+    if (drift.missingColumns.length > 0 || drift.typeMismatches.length > 0) {
+      const details = [
+        ...drift.missingColumns.map(column => `missing column ${column}`),
+        ...drift.typeMismatches.map(m => `${m.column} expected ${m.expected}, got ${m.actual}`)
+      ];
+      throw new MoexSchemaError(`Schema drift in ${drift.block}: ${details.join('; ')}`, { url, drift });
+    }
+  }
+
+  /**
+   * Выполняет GET-запрос к ISS, отдавая ответ из кэша, если он включён и запись свежая.
+   * Устаревшая запись в пределах staleWhileRevalidate отдаётся сразу и обновляется в фоне
+   * @param url - полный адрес запроса
+   * @param what - описание запрашиваемых данных для текста ошибки
+   * @param category - категория запроса, определяющая срок жизни кэша
+   * @param options - параметры вызова
+   * @returns Promise с телом ответа
+   * @throws MoexNetworkError, MoexHttpError (и подклассы), MoexParseError, MoexRouteError
+   */
+  protected async request(
+    url: string,
+    what: string,
+    category: CacheCategory,
+    options: RequestOptions = {}
+  ): Promise<any> {
+    if (this.validateRoutes) {
+      const route = ROUTE_PATTERN.exec(url.slice(this.baseUrl.length));
+      if (route) {
+        // Справочник лишь помогает найти ошибку в пути: если он недоступен или пуст
+        // (сбой ISS, прокси или заглушка вместо ISS), запрос уходит без проверки
+        const index = await this.getIndex().catch(() => undefined);
+        if (index && index.engines.length > 0) {
+          this.checkRoute(index, route[1], route[2], route[3] && decodeURIComponent(route[3]), url);
+        }
+      }
+    }
+
+    const ttl = this.cacheTtl[category];
+    if (!this.cache || ttl <= 0) {
+      return this.fetchJson(url, what);
+    }
+
+    if (options.cache !== false) {
+      const entry = await this.cache.store.get(url);
+      const now = Date.now();
+      if (entry && now < entry.expiresAt) {
+        return entry.value;
+      }
+      if (entry && now < entry.expiresAt + (this.cache.staleWhileRevalidate ?? 0)) {
+        this.revalidate(url, what, ttl);
+        return entry.value;
+      }
+    }
+
+    return this.fetchAndStore(url, what, ttl);
+  }
+
+  /**
+   * Загружает ответ и сохраняет его в кэш
+   * @param url - полный адрес запроса
+   * @param what - описание запрашиваемых данных для текста ошибки
+   * @param ttl - срок жизни записи, мс
+   */
+  private async fetchAndStore(url: string, what: string, ttl: number): Promise<any> {
+    const value = await this.fetchJson(url, what);
+    const storedAt = Date.now();
+    // Кэш — оптимизация: ошибка записи не должна ломать запрос
+    await this.cache!.store.set(url, { value, storedAt, expiresAt: storedAt + ttl }).catch(() => undefined);
+    return value;
+  }
+
+  /**
+   * Обновляет запись кэша в фоне; одновременно идёт не больше одного обновления на адрес
+   * @param url - полный адрес запроса
+   * @param what - описание запрашиваемых данных для текста ошибки
+   * @param ttl - срок жизни записи, мс
+   */
+  private revalidate(url: string, what: string, ttl: number): void {
+    if (this.revalidating.has(url)) {
+      return;
+    }
+    this.revalidating.add(url);
+    this.fetchAndStore(url, what, ttl)
+      .catch(() => undefined)
+      .finally(() => this.revalidating.delete(url));
+  }
+
+  /**
+   * Возвращает запомненный Promise по ключу или запускает загрузку.
+   * Неудачную загрузку не запоминаем, чтобы следующий вызов повторил запрос
+   * @param map - запомненные загрузки
+   * @param key - ключ загрузки
+   * @param load - загрузка данных
+   * @param options - параметры вызова; cache: false загружает данные заново
+   */
+  private memo<K, V>(map: Map<K, Promise<V>>, key: K, load: () => Promise<V>, options: RequestOptions): Promise<V> {
+    const cached = map.get(key);
+    if (cached && options.cache !== false) {
+      return cached;
+    }
+    const pending = load();
+    map.set(key, pending);
+    pending.catch(() => {
+      if (map.get(key) === pending) {
+        map.delete(key);
+      }
+    });
+    return pending;
+  }
+
+  /**
+   * Выполняет GET-запрос к ISS с учётом ограничителя частоты и повторов
+   * @param url - полный адрес запроса
+   * @param what - описание запрашиваемых данных для текста ошибки
+   * @returns Promise с телом ответа
+   */
+  private async fetchJson(url: string, what: string): Promise<any> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return this.limiter
+          ? await this.limiter.schedule(() => this.requestOnce(url, what))
+          : await this.requestOnce(url, what);
+      } catch (error) {
+        if (attempt >= this.retry.retries || !isRetryable(error)) {
+          throw error;
+        }
+        await sleep(this.retryDelay(attempt, error as MoexError));
+      }
+    }
+  }
+
+  /**
+   * Считает паузу перед повтором: Retry-After, если ISS его прислал,
+   * иначе экспоненциальная задержка с jitter; пауза не превышает maxDelay
+   * @param attempt - номер неудавшейся попытки, начиная с 0
+   * @param error - ошибка этой попытки
+   */
+  private retryDelay(attempt: number, error: MoexError): number {
+    const { minDelay, maxDelay, factor, jitter } = this.retry;
+    if (error instanceof MoexRateLimitError && error.retryAfter !== undefined) {
+      return Math.min(error.retryAfter, maxDelay);
+    }
+    const delay = Math.min(maxDelay, minDelay * Math.pow(factor, attempt));
+    return jitter ? delay / 2 + Math.random() * delay / 2 : delay;
+  }
+
+  /**
+   * Выполняет одну попытку GET-запроса к ISS и возвращает разобранный JSON
+   * @param url - полный адрес запроса
+   * @param what - описание запрашиваемых данных для текста ошибки
+   */
+  private async requestOnce(url: string, what: string): Promise<any> {
+    const init: FetchInit = { headers: { ...this.headers } };
+    if (this.timeout > 0) {
+      init.signal = AbortSignal.timeout(this.timeout);
+    }
+
+    let response: FetchResponse;
+    try {
+      response = await this.fetchFn(url, init);
+    } catch (error) {
+      throw new MoexNetworkError(`Failed to fetch ${what}: ${errorMessage(error)}`, { url, cause: error });
+    }
+
+    if (!response.ok) {
+      const message = `Failed to fetch ${what}: HTTP error! status: ${response.status}`;
+      const options = { url, status: response.status, body: await readErrorBody(response) };
+      if (response.status === 404) {
+        throw new MoexNotFoundError(message, options);
+      }
+      if (response.status === 429) {
+        const retryAfter = parseRetryAfter(response.headers?.get('retry-after'));
+        throw new MoexRateLimitError(message, { ...options, retryAfter });
+      }
+      throw new MoexHttpError(message, options);
+    }
+
+    try {
+      return await response.json();
+    } catch (error) {
+      throw new MoexParseError(`Failed to fetch ${what}: ${errorMessage(error)}`, { url, cause: error });
+    }
+  }
+}
@@ -0,0 +1,128 @@
+import { Decimal, Normalized, NormalizedDateField, NormalizedPriceField, NormalizedTimestampField } from './types';
+import { moscowDate } from './calendar';
+
+const DATE_FIELDS = new Set<string>([
+  'PREVDATE', 'SETTLEDATE', 'NEXTCOUPON', 'MATDATE', 'OFFERDATE', 'BUYBACKDATE', 'LASTTRADEDATE', 'LASTDELDATE', 'TRADEDATE'
+] satisfies NormalizedDateField[]);
+
+const TIMESTAMP_FIELDS = new Set<string>([
+  'SYSTIME', 'TIME', 'UPDATETIME', 'ISSUECAPITALIZATION_UPDATETIME'
+] satisfies NormalizedTimestampField[]);
+
+const PRICE_FIELDS = new Set<string>([
+  'PREVPRICE', 'PREVWAPRICE', 'PREVLEGALCLOSEPRICE', 'PREVSETTLEPRICE', 'LASTSETTLEPRICE', 'HIGHLIMIT', 'LOWLIMIT',
+  'MINSTEP', 'BID', 'OFFER', 'SPREAD', 'OPEN', 'LOW', 'HIGH', 'LAST', 'LASTCHANGE', 'WAPRICE', 'CLOSEPRICE',
+  'MARKETPRICE', 'MARKETPRICETODAY', 'MARKETPRICE2', 'LCURRENTPRICE', 'LCLOSEPRICE', 'ADMITTEDQUOTE', 'LASTBID',
+  'LASTOFFER', 'HIGHBID', 'LOWOFFER', 'OPENPERIODPRICE', 'CHANGE', 'PRICEMINUSPREVWAPRICE', 'LASTCNGTOLASTWAPRICE',
+  'WAPTOPREVWAPRICE', 'CLOSINGAUCTIONPRICE', 'SETTLEPRICE', 'SETTLETOPREVSETTLE'
+] satisfies NormalizedPriceField[]);
+
+/**
+ * Округляет десятичное число, записанное цифрами, до заданного числа знаков после точки
+ * (половина округляется от нуля)
+ * @param digits - цифры числа без знака и точки
+ * @param fractionDigits - сколько из них стоит после точки (может быть отрицательным)
+ * @param scale - нужное число знаков после точки
+ * @returns число в единицах последнего знака
+ */
+function roundDigits(digits: string, fractionDigits: number, scale: number): bigint {
+  const shift = scale - fractionDigits;
+  const value = BigInt(digits);
+  if (shift >= 0) {
+    return value * 10n ** BigInt(shift);
+  }
+  const divisor = 10n ** BigInt(-shift);
+  const rounded = value / divisor;
+  return (value % divisor) * 2n >= divisor ? rounded + 1n : rounded;
+}
+
+/**
+ * Записывает число в единицах последнего знака десятичной строкой
+ * @param units - число в единицах последнего знака
+ * @param scale - число знаков после точки
+ */
+function formatUnits(units: bigint, scale: number): Decimal {
+  const sign = units < 0n ? '-' : '';
+  const text = (units < 0n ? -units : units).toString().padStart(scale + 1, '0');
+  return scale === 0 ? `${sign}${text}` : `${sign}${text.slice(0, -scale)}.${text.slice(-scale)}`;
+}
+
+/**
+ * Переводит число из ответа ISS в точную десятичную строку.
+ * Берётся кратчайшая запись числа, поэтому 1.005 округляется до '1.01', а не до '1.00', как в toFixed
+ * @param value - число из ответа ISS
+ * @param decimals - число знаков после точки (по умолчанию — сколько есть в записи числа)
+ * @returns десятичная строка
+ */
+export function toDecimal(value: number, decimals?: number): Decimal {
+  if (!Number.isFinite(value)) {
+    throw new RangeError(`Cannot convert ${value} to decimal`);
+  }
+  const [mantissa, exponent = '0'] = String(Math.abs(value)).split('e');
+  const [integer, fraction = ''] = mantissa.split('.');
+  const fractionDigits = fraction.length - Number(exponent);
+  const scale = decimals ?? Math.max(fractionDigits, 0);
+  const units = roundDigits(integer + fraction, fractionDigits, scale);
+  return formatUnits(value < 0 ? -units : units, scale);
+}
+
+/**
+ * Переводит десятичную строку в целое число единиц заданного знака для точной арифметики,
+ * например decimalToUnits('270.5', 2) === 27050n
+ * @param value - десятичная строка
+ * @param scale - число знаков после точки
+ * @returns число в единицах последнего знака
+ */
+export function decimalToUnits(value: Decimal, scale: number): bigint {
+  const match = /^(-?)(\d+)(?:\.(\d*))?$/.exec(value.trim());
+  if (!match) {
+    throw new RangeError(`Invalid decimal "${value}"`);
+  }
+  const [, sign, integer, fraction = ''] = match;
+  const units = roundDigits(integer + fraction, fraction.length, scale);
+  return sign ? -units : units;
+}
+
+/**
+ * Переводит дату и время ISS в Date по московскому времени
+ * @param date - дата 'YYYY-MM-DD'
+ * @param time - время 'HH:MM:SS' (по умолчанию — полночь)
+ */
+export function moscowDateTime(date: string, time: string = '00:00:00'): Date {
+  return new Date(`${date}T${time}+03:00`);
+}
+
+/**
+ * Нормализует строку ISS: даты становятся Date на полночь по московскому времени,
+ * время объединяется с датой торгов (TRADEDATE или дата SYSTIME), цены округляются до DECIMALS знаков.
+ * Поля, которых нет в строке, не добавляются
+ * @param row - строка ISS
+ * @param decimals - точность цен (по умолчанию — DECIMALS строки, без него цены не округляются)
+ * @returns нормализованная строка
+ */
+export function normalizeRow<T extends object>(row: T, decimals?: number | null): Normalized<T> {
+  const source = row as Record<string, unknown>;
+  const precision = decimals ?? (typeof source.DECIMALS === 'number' ? source.DECIMALS : undefined);
+  const systime = typeof source.SYSTIME === 'string' ? source.SYSTIME : undefined;
+  const tradeDate = typeof source.TRADEDATE === 'string'
+    ? source.TRADEDATE
+    : systime?.slice(0, 10) ?? moscowDate(new Date());
+
+  const result: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(source)) {
+    if (value === null || value === undefined) {
+      result[field] = value;
+    } else if (DATE_FIELDS.has(field) && typeof value === 'string') {
+      result[field] = moscowDateTime(value);
+    } else if (field === 'SYSTIME' && typeof value === 'string') {
+      result[field] = moscowDateTime(value.slice(0, 10), value.slice(11, 19));
+    } else if (TIMESTAMP_FIELDS.has(field) && typeof value === 'string') {
+      result[field] = moscowDateTime(tradeDate, value);
+    } else if (PRICE_FIELDS.has(field) && typeof value === 'number') {
+      result[field] = toDecimal(value, precision);
+    } else {
+      result[field] = value;
+    }
+  }
+  return result as Normalized<T>;
+}
@@ -0,0 +1,91 @@
+import { OrderBook, OrderBookRow, OrderBookLevel, CumulativeOrderBookLevel } from './types';
+
+/**
+ * Собирает модель стакана из строк ISS
+ * @param secid - идентификатор ценной бумаги
+ * @param rows - строки блока orderbook
+ * @returns стакан с отсортированными уровнями и производными величинами
+ */
+export function buildOrderBook(secid: string, rows: OrderBookRow[]): OrderBook {
+  const bids: OrderBookLevel[] = rows
+    .filter(row => row.BUYSELL === 'B')
+    .map(row => ({ price: row.PRICE, quantity: row.QUANTITY }))
+    .sort((a, b) => b.price - a.price);
+  const asks: OrderBookLevel[] = rows
+    .filter(row => row.BUYSELL === 'S')
+    .map(row => ({ price: row.PRICE, quantity: row.QUANTITY }))
+    .sort((a, b) => a.price - b.price);
+
+  const bestBid = bids.length > 0 ? bids[0].price : null;
+  const bestAsk = asks.length > 0 ? asks[0].price : null;
+  const mid = bestBid !== null && bestAsk !== null ? (bestBid + bestAsk) / 2 : null;
+  const spread = bestBid !== null && bestAsk !== null ? bestAsk - bestBid : null;
+  const spreadBps = spread !== null && mid ? (spread / mid) * 10000 : null;
+
+  return {
+    secid,
+    boardid: rows.length > 0 ? rows[0].BOARDID : null,
+    available: rows.length > 0,
+    bids,
+    asks,
+    bestBid,
+    bestAsk,
+    mid,
+    spread,
+    spreadBps,
+    seqnum: rows.length > 0 ? Math.max(...rows.map(row => row.SEQNUM)) : null,
+    updateTime: rows.length > 0 ? rows[0].UPDATETIME : null
+  };
+}
+
+/**
+ * Собирает отдельный стакан для каждого режима торгов: уровни разных режимов не смешиваются
+ * @param secid - идентификатор ценной бумаги
+ * @param rows - строки блока orderbook
+ * @returns стаканы в порядке первого появления режима торгов в ответе
+ */
+export function buildOrderBooks(secid: string, rows: OrderBookRow[]): OrderBook[] {
+  const boards = new Map<string, OrderBookRow[]>();
+  for (const row of rows) {
+    const group = boards.get(row.BOARDID);
+    if (group) {
+      group.push(row);
+    } else {
+      boards.set(row.BOARDID, [row]);
+    }
+  }
+  return [...boards.values()].map(group => buildOrderBook(secid, group));
+}
+
+/**
+ * Считает накопленный объём по уровням одной стороны стакана
+ * @param levels - уровни от лучшей цены
+ * @returns уровни с накопленным количеством и суммой
+ */
+export function cumulativeDepth(levels: OrderBookLevel[]): CumulativeOrderBookLevel[] {
+  let cumulativeQuantity = 0;
+  let cumulativeValue = 0;
+  return levels.map(level => {
+    cumulativeQuantity += level.quantity;
+    cumulativeValue += level.price * level.quantity;
+    return { ...level, cumulativeQuantity, cumulativeValue };
+  });
+}
+
+/**
+ * Считает объём заявок в пределах отклонения от середины стакана
+ * @param book - стакан
+ * @param bps - допустимое отклонение от середины в базисных пунктах
+ * @returns количество в лотах на покупку и на продажу
+ */
+export function depthWithinBps(book: OrderBook, bps: number): { bids: number; asks: number } {
+  if (book.mid === null) {
+    return { bids: 0, asks: 0 };
+  }
+  const lower = book.mid * (1 - bps / 10000);
+  const upper = book.mid * (1 + bps / 10000);
+  return {
+    bids: book.bids.filter(level => level.price >= lower).reduce((sum, level) => sum + level.quantity, 0),
+    asks: book.asks.filter(level => level.price <= upper).reduce((sum, level) => sum + level.quantity, 0)
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * Настройки ограничителя частоты запросов
+ */
+export interface RateLimiterOptions {
+  /** Максимальное число одновременно выполняемых запросов */
+  maxConcurrent?: number;
+  /** Максимальное число запусков запросов в секунду */
+  requestsPerSecond?: number;
+}
+
+/**
+ * Ограничитель параллельности и частоты запросов.
+ * Задачи запускаются в порядке постановки в очередь.
+ * Лимиты, при которых ни одна задача не запустится (maxConcurrent не целое положительное число,
+ * requestsPerSecond не больше нуля), отклоняются с RangeError
+ */
+export class RateLimiter {
+  private readonly maxConcurrent: number;
+  private readonly minInterval: number;
+  private readonly queue: Array<() => void> = [];
+  private running = 0;
+  private nextStart = 0;
+  private timer: NodeJS.Timeout | undefined;
+
+  constructor(options: RateLimiterOptions = {}) {
+    const { maxConcurrent = Infinity, requestsPerSecond } = options;
+    if (maxConcurrent !== Infinity && !(Number.isInteger(maxConcurrent) && maxConcurrent > 0)) {
+      throw new RangeError(`Invalid maxConcurrent: ${maxConcurrent}`);
+    }
+    if (requestsPerSecond !== undefined && !(requestsPerSecond > 0)) {
+      throw new RangeError(`Invalid requestsPerSecond: ${requestsPerSecond}`);
+    }
+    this.maxConcurrent = maxConcurrent;
+    this.minInterval = requestsPerSecond === undefined ? 0 : 1000 / requestsPerSecond;
+  }
+
+  /**
+   * Ставит задачу в очередь и выполняет её, когда позволяют лимиты
+   * @param fn - асинхронная задача
+   * @returns Promise с результатом задачи
+   */
+  schedule<T>(fn: () => Promise<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      this.queue.push(async () => {
+        try {
+          resolve(await fn());
+        } catch (error) {
+          reject(error);
+        } finally {
+          this.running--;
+          this.processQueue();
+        }
+      });
+      this.processQueue();
+    });
+  }
+
+  private processQueue(): void {
+    while (this.running < this.maxConcurrent && this.queue.length > 0 && !this.timer) {
+      const wait = this.nextStart - Date.now();
+      if (wait > 0) {
+        this.timer = setTimeout(() => {
+          this.timer = undefined;
+          this.processQueue();
+        }, wait);
+        return;
+      }
+
+      const next = this.queue.shift()!;
+      this.running++;
+      this.nextStart = Date.now() + this.minInterval;
+      next();
+    }
+  }
+}
@@ -0,0 +1,837 @@
+import {
+  IssEngine,
+  IssMarket,
+  IssBoard,
+  IssBoardGroup,
+  IssSecurityType,
+  IssSecurityGroup,
+  Security,
+  BondsSecurity,
+  FuturesSecurity,
+  CurrencySecurity,
+  IndexSecurity,
+  SecurityBoard,
+  SecurityDescriptionField,
+  SecuritySearchResult,
+  MarketData,
+  BaseMarketData,
+  BondsMarketData,
+  FuturesMarketData,
+  CurrencyMarketData,
+  IndexMarketData,
+  BondCoupon,
+  BondAmortization,
+  BondOffer,
+  IndexInfo,
+  IndexConstituent,
+  CurrencyFixing,
+  IndicativeRate,
+  EngineTimetableDay,
+  EngineDailyTableDay,
+  TradingSession,
+  Candle,
+  HistoryRow,
+  Trade,
+  OrderBookRow
+} from './types';
+
+/**
+ * Тип значения колонки ISS
+ */
+export type ColumnType =
+  | 'string'
+  | 'number'
+  /** Дата 'YYYY-MM-DD' */
+  | 'date'
+  /** Время 'HH:MM:SS' */
+  | 'time'
+  /** Дата и время 'YYYY-MM-DD HH:MM:SS' */
+  | 'datetime';
+
+/**
+ * Описание колонки: тип и допустимость null.
+ * Допустимость null выводится из интерфейса, поэтому схема не может разойтись с типом
+ */
+export type ColumnSpec<V> = (NonNullable<V> extends number
+  ? { type: 'number' }
+  : { type: Exclude<ColumnType, 'number'> }) &
+  (null extends V ? { nullable: true } : { nullable?: false });
+
+/**
+ * Схема блока ISS: описание каждой колонки интерфейса
+ */
+export type Schema<T> = {
+  [K in keyof T]-?: ColumnSpec<T[K]>;
+};
+
+/**
+ * Несовпадение типа значения в колонке
+ */
+export interface ColumnTypeMismatch {
+  column: string;
+  expected: ColumnType;
+  /** Тип первого неподходящего значения ('null' для null) */
+  actual: string;
+  /** Первое неподходящее значение */
+  value: unknown;
+  /** Сколько строк содержат неподходящее значение */
+  rows: number;
+}
+
+/**
+ * Отчёт о расхождении ответа ISS со схемой
+ */
+export interface SchemaDrift {
+  /** Имя блока ISS */
+  block: string;
+  /** Колонки схемы, которых нет в ответе */
+  missingColumns: string[];
+  /** Колонки ответа, которых нет в схеме */
+  unexpectedColumns: string[];
+  /** Колонки, значения которых не соответствуют схеме */
+  typeMismatches: ColumnTypeMismatch[];
+}
+
+/**
+ * Реакция на расхождение со схемой:
+ * 'throw' — бросить MoexSchemaError при пропавших колонках или несовпадении типов
+ * (новые колонки ISS не ломают типизированный результат и не приводят к ошибке);
+ * функция — передать отчёт в обработчик; 'ignore' — ничего не делать
+ */
+export type SchemaDriftStrategy = 'throw' | 'ignore' | ((drift: SchemaDrift) => void);
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^\d{2}:\d{2}:\d{2}$/;
+const DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/;
+
+/**
+ * ISS обозначает отсутствующую дату нулями
+ */
+const EMPTY_DATE = '0000-00-00';
+
+/**
+ * Приводит значение ISS к типу колонки: числовые строки — к числу,
+ * пустые даты '0000-00-00' — к null
+ * @param spec - описание колонки
+ * @param value - значение из ответа ISS
+ * @returns приведённое значение
+ */
+export function coerceValue(spec: { type: ColumnType }, value: unknown): unknown {
+  if (spec.type === 'number' && typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) {
+    return Number(value);
+  }
+  if ((spec.type === 'date' || spec.type === 'datetime') && typeof value === 'string' && value.startsWith(EMPTY_DATE)) {
+    return null;
+  }
+  return value;
+}
+
+/**
+ * Проверяет, соответствует ли приведённое значение описанию колонки
+ * @param spec - описание колонки
+ * @param value - приведённое значение
+ */
+function matches(spec: { type: ColumnType; nullable?: boolean }, value: unknown): boolean {
+  if (value === null) {
+    return spec.nullable === true;
+  }
+  switch (spec.type) {
+    case 'number':
+      return typeof value === 'number';
+    case 'string':
+      return typeof value === 'string';
+    case 'date':
+      return typeof value === 'string' && DATE_PATTERN.test(value);
+    case 'time':
+      return typeof value === 'string' && TIME_PATTERN.test(value);
+    case 'datetime':
+      return typeof value === 'string' && DATETIME_PATTERN.test(value);
+  }
+}
+
+/**
+ * Сверяет колонки и значения блока ISS со схемой
+ * @param blockName - имя блока ISS
+ * @param columns - колонки блока
+ * @param rows - строки блока
+ * @param schema - схема блока
+ * @returns отчёт о расхождении или null, если расхождений нет
+ */
+export function validateBlock<T>(
+  blockName: string,
+  columns: string[],
+  rows: unknown[][],
+  schema: Schema<T>
+): SchemaDrift | null {
+  const specs = schema as Record<string, { type: ColumnType; nullable?: boolean }>;
+  const missingColumns = Object.keys(specs).filter(column => !columns.includes(column));
+  const unexpectedColumns = columns.filter(column => !(column in specs));
+  const typeMismatches: ColumnTypeMismatch[] = [];
+
+  columns.forEach((column, index) => {
+    const spec = specs[column];
+    if (!spec) {
+      return;
+    }
+    let mismatch: ColumnTypeMismatch | undefined;
+    for (const row of rows) {
+      const value = coerceValue(spec, row[index]);
+      if (matches(spec, value)) {
+        continue;
+      }
+      if (mismatch) {
+        mismatch.rows++;
+      } else {
+        mismatch = {
+          column,
+          expected: spec.type,
+          actual: value === null ? 'null' : typeof value,
+          value,
+          rows: 1
+        };
+      }
+    }
+    if (mismatch) {
+      typeMismatches.push(mismatch);
+    }
+  });
+
+  if (missingColumns.length === 0 && unexpectedColumns.length === 0 && typeMismatches.length === 0) {
+    return null;
+  }
+  return { block: blockName, missingColumns, unexpectedColumns, typeMismatches };
+}
+
+/**
+ * Схема ценной бумаги (блок securities)
+ */
+export const SECURITY_SCHEMA: Schema<Security> = {
+  SECID: { type: 'string' },
+  BOARDID: { type: 'string' },
+  SHORTNAME: { type: 'string' },
+  PREVPRICE: { type: 'number', nullable: true },
+  LOTSIZE: { type: 'number' },
+  FACEVALUE: { type: 'number', nullable: true },
+  STATUS: { type: 'string' },
+  BOARDNAME: { type: 'string' },
+  DECIMALS: { type: 'number' },
+  SECNAME: { type: 'string' },
+  REMARKS: { type: 'string', nullable: true },
+  MARKETCODE: { type: 'string' },
+  INSTRID: { type: 'string' },
+  SECTORID: { type: 'string', nullable: true },
+  MINSTEP: { type: 'number' },
+  PREVWAPRICE: { type: 'number', nullable: true },
+  FACEUNIT: { type: 'string' },
+  PREVDATE: { type: 'date' },
+  ISSUESIZE: { type: 'number', nullable: true },
+  ISIN: { type: 'string', nullable: true },
+  LATNAME: { type: 'string', nullable: true },
+  REGNUMBER: { type: 'string', nullable: true },
+  PREVLEGALCLOSEPRICE: { type: 'number', nullable: true },
+  CURRENCYID: { type: 'string' },
+  SECTYPE: { type: 'string' },
+  LISTLEVEL: { type: 'number', nullable: true },
+  SETTLEDATE: { type: 'date' }
+};
+
+/**
+ * Схема облигации (блок securities рынка bonds)
+ */
+export const BONDS_SECURITY_SCHEMA: Schema<BondsSecurity> = {
+  ...SECURITY_SCHEMA,
+  COUPONVALUE: { type: 'number', nullable: true },
+  NEXTCOUPON: { type: 'date', nullable: true },
+  ACCRUEDINT: { type: 'number', nullable: true },
+  MATDATE: { type: 'date', nullable: true },
+  COUPONPERIOD: { type: 'number', nullable: true },
+  COUPONPERCENT: { type: 'number', nullable: true },
+  OFFERDATE: { type: 'date', nullable: true },
+  YIELDATPREVWAPRICE: { type: 'number', nullable: true },
+  BUYBACKPRICE: { type: 'number', nullable: true },
+  BUYBACKDATE: { type: 'date', nullable: true },
+  FACEVALUEONSETTLEDATE: { type: 'number', nullable: true },
+  LOTVALUE: { type: 'number', nullable: true },
+  ISSUESIZEPLACED: { type: 'number', nullable: true }
+};
+
+/**
+ * Схема фьючерса (блок securities рынка forts)
+ */
+export const FUTURES_SECURITY_SCHEMA: Schema<FuturesSecurity> = {
+  SECID: { type: 'string' },
+  BOARDID: { type: 'string' },
+  SHORTNAME: { type: 'string' },
+  SECNAME: { type: 'string' },
+  LATNAME: { type: 'string', nullable: true },
+  SECTYPE: { type: 'string' },
+  ASSETCODE: { type: 'string' },
+  PREVSETTLEPRICE: { type: 'number', nullable: true },
+  PREVPRICE: { type: 'number', nullable: true },
+  DECIMALS: { type: 'number' },
+  MINSTEP: { type: 'number' },
+  STEPPRICE: { type: 'number', nullable: true },
+  LASTTRADEDATE: { type: 'date' },
+  LASTDELDATE: { type: 'date' },
+  PREVOPENPOSITION: { type: 'number', nullable: true },
+  LOTVOLUME: { type: 'number' },
+  INITIALMARGIN: { type: 'number', nullable: true },
+  HIGHLIMIT: { type: 'number', nullable: true },
+  LOWLIMIT: { type: 'number', nullable: true },
+  LASTSETTLEPRICE: { type: 'number', nullable: true }
+};
+
+/**
+ * Схема валютного инструмента (блок securities рынка selt)
+ */
+export const CURRENCY_SECURITY_SCHEMA: Schema<CurrencySecurity> = {
+  SECID: { type: 'string' },
+  BOARDID: { type: 'string' },
+  SHORTNAME: { type: 'string' },
+  SECNAME: { type: 'string' },
+  LATNAME: { type: 'string', nullable: true },
+  LOTSIZE: { type: 'number' },
+  DECIMALS: { type: 'number' },
+  MINSTEP: { type: 'number' },
+  FACEVALUE: { type: 'number', nullable: true },
+  FACEUNIT: { type: 'string' },
+  CURRENCYID: { type: 'string' },
+  PREVPRICE: { type: 'number', nullable: true },
+  PREVWAPRICE: { type: 'number', nullable: true },
+  PREVDATE: { type: 'date' },
+  SETTLEDATE: { type: 'date' },
+  STATUS: { type: 'string' },
+  MARKETCODE: { type: 'string' },
+  REMARKS: { type: 'string', nullable: true }
+};
+
+/**
+ * Схема индекса (блок securities рынка index)
+ */
+export const INDEX_SECURITY_SCHEMA: Schema<IndexSecurity> = {
+  SECID: { type: 'string' },
+  BOARDID: { type: 'string' },
+  NAME: { type: 'string' },
+  SHORTNAME: { type: 'string' },
+  DECIMALS: { type: 'number' },
+  ANNUALHIGH: { type: 'number', nullable: true },
+  ANNUALLOW: { type: 'number', nullable: true },
+  CURRENCYID: { type: 'string', nullable: true },
+  CALCMODE: { type: 'string', nullable: true }
+};
+
+/**
+ * Схема результата поиска ценных бумаг (блок securities в /securities.json)
+ */
+export const SECURITY_SEARCH_RESULT_SCHEMA: Schema<SecuritySearchResult> = {
+  id: { type: 'number' },
+  secid: { type: 'string' },
+  shortname: { type: 'string' },
+  regnumber: { type: 'string', nullable: true },
+  name: { type: 'string' },
+  isin: { type: 'string', nullable: true },
+  is_traded: { type: 'number' },
+  emitent_id: { type: 'number', nullable: true },
+  emitent_title: { type: 'string', nullable: true },
+  emitent_inn: { type: 'string', nullable: true },
+  type: { type: 'string' },
+  group: { type: 'string' },
+  primary_boardid: { type: 'string', nullable: true },
+  marketprice_boardid: { type: 'string', nullable: true }
+};
+
+/**
+ * Схема поля описания ценной бумаги (блок description)
+ */
+export const SECURITY_DESCRIPTION_FIELD_SCHEMA: Schema<SecurityDescriptionField> = {
+  name: { type: 'string' },
+  title: { type: 'string' },
+  value: { type: 'string', nullable: true },
+  type: { type: 'string' },
+  sort_order: { type: 'number' },
+  is_hidden: { type: 'number' },
+  precision: { type: 'number', nullable: true }
+};
+
+/**
+ * Схема режима торгов из описания ценной бумаги (блок boards)
+ */
+export const SECURITY_BOARD_SCHEMA: Schema<SecurityBoard> = {
+  secid: { type: 'string' },
+  boardid: { type: 'string' },
+  title: { type: 'string' },
+  board_group_id: { type: 'number' },
+  market_id: { type: 'number' },
+  market: { type: 'string' },
+  engine_id: { type: 'number' },
+  engine: { type: 'string' },
+  is_traded: { type: 'number' },
+  decimals: { type: 'number', nullable: true },
+  history_from: { type: 'date', nullable: true },
+  history_till: { type: 'date', nullable: true },
+  listed_from: { type: 'date', nullable: true },
+  listed_till: { type: 'date', nullable: true },
+  is_primary: { type: 'number' },
+  currencyid: { type: 'string', nullable: true }
+};
+
+/**
+ * Схема рыночных данных (блок marketdata)
+ */
+export const MARKET_DATA_SCHEMA: Schema<MarketData> = {
+  SECID: { type: 'string' },
+  BOARDID: { type: 'string' },
+  BID: { type: 'number', nullable: true },
+  BIDDEPTH: { type: 'number', nullable: true },
+  OFFER: { type: 'number', nullable: true },
+  OFFERDEPTH: { type: 'number', nullable: true },
+  SPREAD: { type: 'number', nullable: true },
+  BIDDEPTHT: { type: 'number', nullable: true },
+  OFFERDEPTHT: { type: 'number', nullable: true },
+  OPEN: { type: 'number', nullable: true },
+  LOW: { type: 'number', nullable: true },
+  HIGH: { type: 'number', nullable: true },
+  LAST: { type: 'number', nullable: true },
+  LASTCHANGE: { type: 'number', nullable: true },
+  LASTCHANGEPRCNT: { type: 'number', nullable: true },
+  QTY: { type: 'number', nullable: true },
+  VALUE: { type: 'number', nullable: true },
+  VALUE_USD: { type: 'number', nullable: true },
+  WAPRICE: { type: 'number', nullable: true },
+  LASTCNGTOLASTWAPRICE: { type: 'number', nullable: true },
+  WAPTOPREVWAPRICEPRCNT: { type: 'number', nullable: true },
+  WAPTOPREVWAPRICE: { type: 'number', nullable: true },
+  CLOSEPRICE: { type: 'number', nullable: true },
+  MARKETPRICETODAY: { type: 'number', nullable: true },
+  MARKETPRICE: { type: 'number', nullable: true },
+  LASTTOPREVPRICE: { type: 'number', nullable: true },
+  NUMTRADES: { type: 'number', nullable: true },
+  VOLTODAY: { type: 'number', nullable: true },
+  VALTODAY: { type: 'number', nullable: true },
+  VALTODAY_USD: { type: 'number', nullable: true },
+  ETFSETTLEPRICE: { type: 'number', nullable: true },
+  TRADINGSTATUS: { type: 'string', nullable: true },
+  UPDATETIME: { type: 'time' },
+  LASTBID: { type: 'number', nullable: true },
+  LASTOFFER: { type: 'number', nullable: true },
+  LCLOSEPRICE: { type: 'number', nullable: true },
+  LCURRENTPRICE: { type: 'number', nullable: true },
+  MARKETPRICE2: { type: 'number', nullable: true },
+  NUMBIDS: { type: 'number', nullable: true },
+  NUMOFFERS: { type: 'number', nullable: true },
+  CHANGE: { type: 'number', nullable: true },
+  TIME: { type: 'time', nullable: true },
+  HIGHBID: { type: 'number', nullable: true },
+  LOWOFFER: { type: 'number', nullable: true },
+  PRICEMINUSPREVWAPRICE: { type: 'number', nullable: true },
+  OPENPERIODPRICE: { type: 'number', nullable: true },
+  SEQNUM: { type: 'number' },
+  SYSTIME: { type: 'datetime' },
+  CLOSINGAUCTIONPRICE: { type: 'number', nullable: true },
+  CLOSINGAUCTIONVOLUME: { type: 'number', nullable: true },
+  ISSUECAPITALIZATION: { type: 'number', nullable: true },
+  ISSUECAPITALIZATION_UPDATETIME: { type: 'time', nullable: true },
+  ETFSETTLECURRENCY: { type: 'string', nullable: true },
+  VALTODAY_RUR: { type: 'number', nullable: true },
+  TRADINGSESSION: { type: 'string', nullable: true }
+};
+
+/**
+ * Схема полей рыночных данных, общих для всех рынков
+ */
+export const BASE_MARKET_DATA_SCHEMA: Schema<BaseMarketData> = {
+  SECID: { type: 'string' },
+  BOARDID: { type: 'string' },
+  BID: { type: 'number', nullable: true },
+  BIDDEPTH: { type: 'number', nullable: true },
+  OFFER: { type: 'number', nullable: true },
+  OFFERDEPTH: { type: 'number', nullable: true },
+  SPREAD: { type: 'number', nullable: true },
+  BIDDEPTHT: { type: 'number', nullable: true },
+  OFFERDEPTHT: { type: 'number', nullable: true },
+  NUMBIDS: { type: 'number', nullable: true },
+  NUMOFFERS: { type: 'number', nullable: true },
+  OPEN: { type: 'number', nullable: true },
+  LOW: { type: 'number', nullable: true },
+  HIGH: { type: 'number', nullable: true },
+  LAST: { type: 'number', nullable: true },
+  LASTCHANGE: { type: 'number', nullable: true },
+  LASTCHANGEPRCNT: { type: 'number', nullable: true },
+  LASTTOPREVPRICE: { type: 'number', nullable: true },
+  OPENPERIODPRICE: { type: 'number', nullable: true },
+  NUMTRADES: { type: 'number', nullable: true },
+  VOLTODAY: { type: 'number', nullable: true },
+  VALTODAY: { type: 'number', nullable: true },
+  VALTODAY_USD: { type: 'number', nullable: true },
+  TIME: { type: 'time', nullable: true },
+  UPDATETIME: { type: 'time' },
+  SEQNUM: { type: 'number' },
+  SYSTIME: { type: 'datetime' }
+};
+
+/**
+ * Схема рыночных данных облигаций
+ */
+export const BONDS_MARKET_DATA_SCHEMA: Schema<BondsMarketData> = {
+  ...BASE_MARKET_DATA_SCHEMA,
+  QTY: { type: 'number', nullable: true },
+  VALUE: { type: 'number', nullable: true },
+  WAPRICE: { type: 'number', nullable: true },
+  CLOSEPRICE: { type: 'number', nullable: true },
+  MARKETPRICE: { type: 'number', nullable: true },
+  MARKETPRICETODAY: { type: 'number', nullable: true },
+  LCURRENTPRICE: { type: 'number', nullable: true },
+  ADMITTEDQUOTE: { type: 'number', nullable: true },
+  TRADINGSTATUS: { type: 'string', nullable: true },
+  TRADINGSESSION: { type: 'string', nullable: true },
+  YIELD: { type: 'number', nullable: true },
+  YIELDATWAPRICE: { type: 'number', nullable: true },
+  YIELDTOPREVYIELD: { type: 'number', nullable: true },
+  CLOSEYIELD: { type: 'number', nullable: true },
+  YIELDTOOFFER: { type: 'number', nullable: true },
+  DURATION: { type: 'number', nullable: true }
+};
+
+/**
+ * Схема рыночных данных фьючерсов
+ */
+export const FUTURES_MARKET_DATA_SCHEMA: Schema<FuturesMarketData> = {
+  ...BASE_MARKET_DATA_SCHEMA,
+  QUANTITY: { type: 'number', nullable: true },
+  SETTLEPRICE: { type: 'number', nullable: true },
+  SETTLETOPREVSETTLE: { type: 'number', nullable: true },
+  SETTLETOPREVSETTLEPRC: { type: 'number', nullable: true },
+  OPENPOSITION: { type: 'number', nullable: true },
+  OICHANGE: { type: 'number', nullable: true },
+  TRADEDATE: { type: 'date', nullable: true },
+  SWAPRATE: { type: 'number', nullable: true }
+};
+
+/**
+ * Схема рыночных данных валютного рынка
+ */
+export const CURRENCY_MARKET_DATA_SCHEMA: Schema<CurrencyMarketData> = {
+  ...BASE_MARKET_DATA_SCHEMA,
+  QTY: { type: 'number', nullable: true },
+  VALUE: { type: 'number', nullable: true },
+  WAPRICE: { type: 'number', nullable: true },
+  CLOSEPRICE: { type: 'number', nullable: true },
+  MARKETPRICE: { type: 'number', nullable: true },
+  MARKETPRICETODAY: { type: 'number', nullable: true },
+  PRICEMINUSPREVWAPRICE: { type: 'number', nullable: true },
+  CHANGE: { type: 'number', nullable: true },
+  TRADINGSTATUS: { type: 'string', nullable: true }
+};
+
+/**
+ * Схема рыночных данных индекса
+ */
+export const INDEX_MARKET_DATA_SCHEMA: Schema<IndexMarketData> = {
+  SECID: { type: 'string' },
+  BOARDID: { type: 'string' },
+  LASTVALUE: { type: 'number', nullable: true },
+  OPENVALUE: { type: 'number', nullable: true },
+  CURRENTVALUE: { type: 'number', nullable: true },
+  LASTCHANGE: { type: 'number', nullable: true },
+  LASTCHANGETOOPENPRC: { type: 'number', nullable: true },
+  LASTCHANGETOOPEN: { type: 'number', nullable: true },
+  LASTCHANGEPRC: { type: 'number', nullable: true },
+  MONTHCHANGEPRC: { type: 'number', nullable: true },
+  YEARCHANGEPRC: { type: 'number', nullable: true },
+  HIGH: { type: 'number', nullable: true },
+  LOW: { type: 'number', nullable: true },
+  VALTODAY: { type: 'number', nullable: true },
+  VALTODAY_USD: { type: 'number', nullable: true },
+  VOLTODAY: { type: 'number', nullable: true },
+  CAPITALIZATION: { type: 'number', nullable: true },
+  CAPITALIZATION_USD: { type: 'number', nullable: true },
+  TRADEDATE: { type: 'date', nullable: true },
+  TRADINGSESSION: { type: 'string', nullable: true },
+  TIME: { type: 'time', nullable: true },
+  UPDATETIME: { type: 'time', nullable: true },
+  SEQNUM: { type: 'number' },
+  SYSTIME: { type: 'datetime' }
+};
+
+/**
+ * Схема купона облигации (блок coupons)
+ */
+export const BOND_COUPON_SCHEMA: Schema<BondCoupon> = {
+  isin: { type: 'string' },
+  name: { type: 'string', nullable: true },
+  issuevalue: { type: 'number', nullable: true },
+  coupondate: { type: 'date' },
+  recorddate: { type: 'date', nullable: true },
+  startdate: { type: 'date' },
+  initialfacevalue: { type: 'number' },
+  facevalue: { type: 'number' },
+  faceunit: { type: 'string' },
+  value: { type: 'number', nullable: true },
+  valueprc: { type: 'number', nullable: true },
+  value_rub: { type: 'number', nullable: true },
+  secid: { type: 'string' },
+  primary_boardid: { type: 'string' }
+};
+
+/**
+ * Схема амортизации облигации (блок amortizations)
+ */
+export const BOND_AMORTIZATION_SCHEMA: Schema<BondAmortization> = {
+  isin: { type: 'string' },
+  name: { type: 'string', nullable: true },
+  issuevalue: { type: 'number', nullable: true },
+  amortdate: { type: 'date' },
+  facevalue: { type: 'number' },
+  initialfacevalue: { type: 'number' },
+  faceunit: { type: 'string' },
+  valueprc: { type: 'number', nullable: true },
+  value: { type: 'number', nullable: true },
+  value_rub: { type: 'number', nullable: true },
+  data_source: { type: 'string', nullable: true },
+  secid: { type: 'string' },
+  primary_boardid: { type: 'string' }
+};
+
+/**
+ * Схема оферты по облигации (блок offers)
+ */
+export const BOND_OFFER_SCHEMA: Schema<BondOffer> = {
+  isin: { type: 'string' },
+  name: { type: 'string', nullable: true },
+  issuevalue: { type: 'number', nullable: true },
+  offerdate: { type: 'date' },
+  offerdatestart: { type: 'date', nullable: true },
+  offerdateend: { type: 'date', nullable: true },
+  facevalue: { type: 'number', nullable: true },
+  faceunit: { type: 'string', nullable: true },
+  price: { type: 'number', nullable: true },
+  value: { type: 'number', nullable: true },
+  agent: { type: 'string', nullable: true },
+  offertype: { type: 'string', nullable: true },
+  secid: { type: 'string' },
+  primary_boardid: { type: 'string' }
+};
+
+/**
+ * Схема индекса из списка статистики индексов (блок indices)
+ */
+export const INDEX_INFO_SCHEMA: Schema<IndexInfo> = {
+  indexid: { type: 'string' },
+  shortname: { type: 'string' },
+  from: { type: 'date', nullable: true },
+  till: { type: 'date', nullable: true }
+};
+
+/**
+ * Схема бумаги в составе индекса (блок analytics)
+ */
+export const INDEX_CONSTITUENT_SCHEMA: Schema<IndexConstituent> = {
+  indexid: { type: 'string' },
+  tradedate: { type: 'date' },
+  ticker: { type: 'string' },
+  shortnames: { type: 'string' },
+  secids: { type: 'string' },
+  weight: { type: 'number' },
+  tradingsession: { type: 'number', nullable: true },
+  trade_session_date: { type: 'date', nullable: true }
+};
+
+/**
+ * Схема фиксинга валютной пары (блок history)
+ */
+export const CURRENCY_FIXING_SCHEMA: Schema<CurrencyFixing> = {
+  tradedate: { type: 'date' },
+  tradetime: { type: 'time', nullable: true },
+  secid: { type: 'string' },
+  rate: { type: 'number' }
+};
+
+/**
+ * Схема индикативного курса (блок securities)
+ */
+export const INDICATIVE_RATE_SCHEMA: Schema<IndicativeRate> = {
+  tradedate: { type: 'date' },
+  tradetime: { type: 'time' },
+  secid: { type: 'string' },
+  rate: { type: 'number' },
+  clearing: { type: 'string', nullable: true }
+};
+
+/**
+ * Схема торговой сессии (блок sessions)
+ */
+export const TRADING_SESSION_SCHEMA: Schema<TradingSession> = {
+  BOARDID: { type: 'string' },
+  BOARD_TITLE: { type: 'string', nullable: true },
+  IS_PRIMARY: { type: 'number', nullable: true }
+};
+
+/**
+ * Схема дня недельного расписания торговой системы (блок timetable)
+ */
+export const ENGINE_TIMETABLE_SCHEMA: Schema<EngineTimetableDay> = {
+  week_day: { type: 'number' },
+  is_work_day: { type: 'number' },
+  start_time: { type: 'time', nullable: true },
+  stop_time: { type: 'time', nullable: true }
+};
+
+/**
+ * Схема расписания торговой системы на дату (блок dailytable)
+ */
+export const ENGINE_DAILY_TABLE_SCHEMA: Schema<EngineDailyTableDay> = {
+  date: { type: 'date' },
+  is_work_day: { type: 'number' },
+  start_time: { type: 'time', nullable: true },
+  stop_time: { type: 'time', nullable: true }
+};
+
+/**
+ * Схема свечи (блок candles)
+ */
+export const CANDLE_SCHEMA: Schema<Candle> = {
+  open: { type: 'number' },
+  close: { type: 'number' },
+  high: { type: 'number' },
+  low: { type: 'number' },
+  value: { type: 'number' },
+  volume: { type: 'number' },
+  begin: { type: 'datetime' },
+  end: { type: 'datetime' }
+};
+
+/**
+ * Схема итогов торгов (блок history)
+ */
+export const HISTORY_ROW_SCHEMA: Schema<HistoryRow> = {
+  BOARDID: { type: 'string' },
+  TRADEDATE: { type: 'date' },
+  SHORTNAME: { type: 'string' },
+  SECID: { type: 'string' },
+  NUMTRADES: { type: 'number' },
+  VALUE: { type: 'number' },
+  OPEN: { type: 'number', nullable: true },
+  LOW: { type: 'number', nullable: true },
+  HIGH: { type: 'number', nullable: true },
+  LEGALCLOSEPRICE: { type: 'number', nullable: true },
+  WAPRICE: { type: 'number', nullable: true },
+  CLOSE: { type: 'number', nullable: true },
+  VOLUME: { type: 'number' },
+  MARKETPRICE2: { type: 'number', nullable: true },
+  MARKETPRICE3: { type: 'number', nullable: true },
+  ADMITTEDQUOTE: { type: 'number', nullable: true },
+  MP2VALTRD: { type: 'number', nullable: true },
+  MARKETPRICE3TRADESVALUE: { type: 'number', nullable: true },
+  ADMITTEDVALUE: { type: 'number', nullable: true },
+  WAVAL: { type: 'number', nullable: true },
+  TRADINGSESSION: { type: 'number' },
+  CURRENCYID: { type: 'string' },
+  TRENDCLSPR: { type: 'number', nullable: true }
+};
+
+/**
+ * Схема сделки (блок trades)
+ */
+export const TRADE_SCHEMA: Schema<Trade> = {
+  TRADENO: { type: 'number' },
+  TRADETIME: { type: 'time' },
+  BOARDID: { type: 'string' },
+  SECID: { type: 'string' },
+  PRICE: { type: 'number' },
+  QUANTITY: { type: 'number' },
+  VALUE: { type: 'number' },
+  BUYSELL: { type: 'string' },
+  SYSTIME: { type: 'datetime' }
+};
+
+/**
+ * Схема строки стакана (блок orderbook)
+ */
+export const ORDER_BOOK_ROW_SCHEMA: Schema<OrderBookRow> = {
+  SECID: { type: 'string' },
+  BOARDID: { type: 'string' },
+  BUYSELL: { type: 'string' },
+  PRICE: { type: 'number' },
+  QUANTITY: { type: 'number' },
+  SEQNUM: { type: 'number' },
+  UPDATETIME: { type: 'time' },
+  DECIMALS: { type: 'number' }
+};
+
+/**
+ * Схема торговой системы (блок engines справочника)
+ */
+export const ISS_ENGINE_SCHEMA: Schema<IssEngine> = {
+  id: { type: 'number' },
+  name: { type: 'string' },
+  title: { type: 'string' }
+};
+
+/**
+ * Схема рынка (блок markets справочника)
+ */
+export const ISS_MARKET_SCHEMA: Schema<IssMarket> = {
+  id: { type: 'number' },
+  trade_engine_id: { type: 'number' },
+  trade_engine_name: { type: 'string' },
+  trade_engine_title: { type: 'string' },
+  market_name: { type: 'string' },
+  market_title: { type: 'string' },
+  market_id: { type: 'number' },
+  marketplace: { type: 'string', nullable: true }
+};
+
+/**
+ * Схема режима торгов (блок boards справочника)
+ */
+export const ISS_BOARD_SCHEMA: Schema<IssBoard> = {
+  id: { type: 'number' },
+  board_group_id: { type: 'number' },
+  engine_id: { type: 'number' },
+  market_id: { type: 'number' },
+  boardid: { type: 'string' },
+  board_title: { type: 'string' },
+  is_traded: { type: 'number' },
+  has_candles: { type: 'number' },
+  is_primary: { type: 'number' }
+};
+
+/**
+ * Схема группы режимов торгов (блок boardgroups справочника)
+ */
+export const ISS_BOARD_GROUP_SCHEMA: Schema<IssBoardGroup> = {
+  id: { type: 'number' },
+  trade_engine_id: { type: 'number' },
+  trade_engine_name: { type: 'string' },
+  trade_engine_title: { type: 'string' },
+  market_id: { type: 'number' },
+  market_name: { type: 'string' },
+  name: { type: 'string' },
+  title: { type: 'string' },
+  is_default: { type: 'number' },
+  board_group_id: { type: 'number' },
+  is_traded: { type: 'number' }
+};
+
+/**
+ * Схема типа ценной бумаги (блок securitytypes справочника)
+ */
+export const ISS_SECURITY_TYPE_SCHEMA: Schema<IssSecurityType> = {
+  id: { type: 'number' },
+  trade_engine_id: { type: 'number' },
+  trade_engine_name: { type: 'string' },
+  trade_engine_title: { type: 'string' },
+  security_type_name: { type: 'string' },
+  security_type_title: { type: 'string' },
+  security_group_name: { type: 'string' }
+};
+
+/**
+ * Схема группы ценных бумаг (блок securitygroups справочника)
+ */
+export const ISS_SECURITY_GROUP_SCHEMA: Schema<IssSecurityGroup> = {
+  id: { type: 'number' },
+  name: { type: 'string' },
+  title: { type: 'string' },
+  is_hidden: { type: 'number' }
+};
@@ -0,0 +1,625 @@
+import { EventEmitter } from 'events';
+import { WebSocket } from 'undici';
+import { MarketData, Trade, OrderBookRow } from './types';
+import { Schema, ColumnType, coerceValue, MARKET_DATA_SCHEMA, TRADE_SCHEMA, ORDER_BOOK_ROW_SCHEMA } from './schema';
+import { MoexError, MoexNetworkError, MoexParseError } from './errors';
+
+/**
+ * Адрес потока данных ISS (STOMP поверх WebSocket) по умолчанию
+ */
+export const DEFAULT_STREAM_URL = 'wss://iss.moex.com/infocx/v3/websocket';
+
+/**
+ * Интервалы heart-beat, которые клиент предлагает серверу по умолчанию, мс
+ */
+export const DEFAULT_STREAM_HEARTBEAT = { outgoing: 10000, incoming: 10000 };
+
+/**
+ * Пауза перед первым переподключением и максимальная пауза по умолчанию, мс
+ */
+export const DEFAULT_RECONNECT_DELAY = 1000;
+export const DEFAULT_MAX_RECONNECT_DELAY = 30000;
+
+/**
+ * Префикс адресов потока для фондового рынка
+ */
+const STOCK_DESTINATION_PREFIX = 'MXSE';
+
+/**
+ * Состояние WebSocket, в котором можно отправлять данные
+ */
+const WEB_SOCKET_OPEN = 1;
+
+/**
+ * Минимальный набор возможностей WebSocket, который использует MoexStream
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  onopen: ((event: any) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onclose: ((event: { code: number; reason: string }) => void) | null;
+  onerror: ((event: any) => void) | null;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+/**
+ * Создаёт WebSocket; позволяет подменить транспорт (прокси, тесты).
+ * Двоичные кадры должны приходить строкой, ArrayBuffer или Buffer (binaryType = 'arraybuffer')
+ */
+export type WebSocketFactory = (url: string, protocols: string[]) => WebSocketLike;
+
+/**
+ * Учётные данные MOEX Passport для потока
+ */
+export interface StreamCredentials {
+  login: string;
+  passcode: string;
+  /** Домен авторизации (по умолчанию passport) */
+  domain?: string;
+}
+
+/**
+ * Настройки клиента потока данных
+ */
+export interface MoexStreamOptions {
+  /** Адрес WebSocket (по умолчанию DEFAULT_STREAM_URL) */
+  url?: string;
+  /** Учётные данные; без них доступны только открытые данные */
+  credentials?: StreamCredentials;
+  /** Предлагаемые интервалы heart-beat, мс (0 — не использовать) */
+  heartbeat?: { outgoing?: number; incoming?: number };
+  /** Переподключаться при обрыве установленного соединения (по умолчанию true) */
+  reconnect?: boolean;
+  /** Пауза перед первым переподключением, мс; каждая следующая вдвое больше */
+  reconnectDelay?: number;
+  /** Максимальная пауза между переподключениями, мс */
+  maxReconnectDelay?: number;
+  /** Фабрика WebSocket (по умолчанию WebSocket из undici) */
+  webSocket?: WebSocketFactory;
+}
+
+/**
+ * Параметры подписки на поток по инструментам
+ */
+export interface StreamSubscribeOptions {
+  /** Режим торгов (по умолчанию TQBR) */
+  board?: string;
+  /** Префикс адреса потока торговой системы (по умолчанию MXSE — фондовый рынок) */
+  prefix?: string;
+}
+
+/**
+ * Подписка на адрес потока
+ */
+export interface StreamSubscription {
+  /** Идентификатор подписки STOMP */
+  readonly id: string;
+  /** Отменяет подписку */
+  unsubscribe(): void;
+}
+
+/**
+ * События клиента потока
+ */
+export interface MoexStreamEvents {
+  /** Сервер подтвердил подключение (в том числе после переподключения) */
+  connected: [];
+  /** Соединение потеряно */
+  disconnected: [];
+  /** Ошибка соединения, кадр ERROR или неразборчивое сообщение */
+  error: [MoexError];
+  /** Поток закрыт окончательно */
+  close: [];
+}
+
+/**
+ * Кадр STOMP
+ */
+interface StompFrame {
+  command: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Активная подписка: адрес, селектор и обработчик строк
+ */
+interface ActiveSubscription {
+  destination: string;
+  selector?: string;
+  onMessage: (body: string) => void;
+}
+
+/**
+ * Экранирует значение заголовка STOMP 1.2
+ */
+function escapeHeader(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\r/g, '\\r').replace(/\n/g, '\\n').replace(/:/g, '\\c');
+}
+
+/**
+ * Восстанавливает значение заголовка STOMP 1.2
+ */
+function unescapeHeader(value: string): string {
+  return value.replace(/\\([\\rnc])/g, (_, code: string) =>
+    code === 'n' ? '\n' : code === 'r' ? '\r' : code === 'c' ? ':' : '\\');
+}
+
+/**
+ * Собирает кадр STOMP. Заголовки кадра CONNECT по стандарту не экранируются
+ * @param command - команда
+ * @param headers - заголовки
+ * @param body - тело кадра
+ */
+export function encodeStompFrame(command: string, headers: Record<string, string>, body: string = ''): string {
+  const escape = command === 'CONNECT' ? (value: string) => value : escapeHeader;
+  const lines = Object.entries(headers).map(([name, value]) => `${escape(name)}:${escape(value)}`);
+  return `${command}\n${lines.map(line => `${line}\n`).join('')}\n${body}\0`;
+}
+
+/**
+ * Разбирает кадр STOMP без завершающего нулевого символа
+ * @param text - текст кадра
+ * @returns кадр или null для пустого кадра (heart-beat)
+ */
+export function decodeStompFrame(text: string): StompFrame | null {
+  const frame = text.replace(/^(?:\r?\n)+/, '');
+  if (frame === '') {
+    return null;
+  }
+  const headerEnd = frame.search(/\r?\n\r?\n/);
+  const head = headerEnd === -1 ? frame : frame.slice(0, headerEnd);
+  const body = headerEnd === -1 ? '' : frame.slice(headerEnd).replace(/^\r?\n\r?\n/, '');
+  const [command, ...lines] = head.split(/\r?\n/);
+  const headers: Record<string, string> = {};
+  for (const line of lines) {
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      continue;
+    }
+    const name = unescapeHeader(line.slice(0, separator));
+    // По стандарту при повторе заголовка действует первое значение
+    if (!(name in headers)) {
+      headers[name] = unescapeHeader(line.slice(separator + 1));
+    }
+  }
+  return { command, headers, body };
+}
+
+/**
+ * Превращает тело сообщения потока ({ columns, data }) в объекты, приводя значения по схеме
+ * @param body - тело кадра MESSAGE
+ * @param schema - схема строк
+ */
+function parseRows<T>(body: string, schema: Schema<T>): T[] {
+  const message = JSON.parse(body);
+  if (!message || !Array.isArray(message.columns) || !Array.isArray(message.data)) {
+    throw new Error('Message has no columns or data');
+  }
+  const specs = schema as Record<string, { type: ColumnType }>;
+  return message.data.map((row: unknown[]) => {
+    const item: any = {};
+    message.columns.forEach((column: string, index: number) => {
+      const spec = specs[column];
+      item[column] = spec ? coerceValue(spec, row[index]) : row[index];
+    });
+    return item as T;
+  });
+}
+
+/**
+ * Текст сообщения WebSocket: текстовые кадры приходят строкой, двоичные — буфером
+ */
+function messageText(data: unknown): string {
+  if (typeof data === 'string') {
+    return data;
+  }
+  if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+    return (data instanceof ArrayBuffer ? Buffer.from(data) : Buffer.from(data.buffer, data.byteOffset, data.byteLength)).toString('utf8');
+  }
+  return String(data);
+}
+
+/**
+ * Клиент потока данных ISS по протоколу STOMP поверх WebSocket.
+ * Поддерживает heart-beat, учётные данные и переподключение с восстановлением подписок.
+ * Подписываться можно до подключения: подписки отправляются, как только сервер подтвердит CONNECT.
+ * Ошибки передаются в событие error, если у него есть обработчик
+ */
+export class MoexStream extends EventEmitter<MoexStreamEvents> {
+  private readonly url: string;
+  private readonly credentials: StreamCredentials | undefined;
+  private readonly heartbeat: { outgoing: number; incoming: number };
+  private readonly reconnect: boolean;
+  private readonly reconnectDelay: number;
+  private readonly maxReconnectDelay: number;
+  private readonly createWebSocket: WebSocketFactory;
+  private readonly subscriptions = new Map<string, ActiveSubscription>();
+  private pendingConnects: Array<{ resolve: () => void; reject: (error: MoexError) => void }> = [];
+  private socket: WebSocketLike | undefined;
+  private buffer = '';
+  private nextId = 0;
+  private attempt = 0;
+  private connectedFlag = false;
+  private established = false;
+  private closed = false;
+  private reconnectTimer: NodeJS.Timeout | undefined;
+  private heartbeatTimers: NodeJS.Timeout[] = [];
+  private lastReceived = 0;
+
+  constructor(options: MoexStreamOptions = {}) {
+    super();
+    this.url = options.url ?? DEFAULT_STREAM_URL;
+    this.credentials = options.credentials;
+    this.heartbeat = {
+      outgoing: options.heartbeat?.outgoing ?? DEFAULT_STREAM_HEARTBEAT.outgoing,
+      incoming: options.heartbeat?.incoming ?? DEFAULT_STREAM_HEARTBEAT.incoming
+    };
+    this.reconnect = options.reconnect ?? true;
+    this.reconnectDelay = options.reconnectDelay ?? DEFAULT_RECONNECT_DELAY;
+    this.maxReconnectDelay = options.maxReconnectDelay ?? DEFAULT_MAX_RECONNECT_DELAY;
+    this.createWebSocket = options.webSocket ?? ((url, protocols) => {
+      const socket = new WebSocket(url, protocols);
+      // По умолчанию двоичные кадры приходят как Blob, который читается только асинхронно
+      socket.binaryType = 'arraybuffer';
+      return socket as unknown as WebSocketLike;
+    });
+  }
+
+  /**
+   * Сервер подтвердил подключение, и соединение не потеряно
+   */
+  get connected(): boolean {
+    return this.connectedFlag;
+  }
+
+  /**
+   * Подключается к потоку. Переподключение действует только для установленного соединения:
+   * если первая попытка не удалась, поток не переподключается, а connect() можно вызвать снова
+   * @returns Promise, который выполняется после подтверждения подключения сервером
+   * и отклоняется при неудачной попытке подключения или закрытии потока
+   */
+  connect(): Promise<void> {
+    if (this.closed) {
+      return Promise.reject(new MoexNetworkError('Stream is closed', { url: this.url }));
+    }
+    if (this.connectedFlag) {
+      return Promise.resolve();
+    }
+    const result = new Promise<void>((resolve, reject) => {
+      this.pendingConnects.push({ resolve, reject });
+    });
+    if (!this.socket && !this.reconnectTimer) {
+      this.open();
+    }
+    return result;
+  }
+
+  /**
+   * Подписывается на адрес потока
+   * @param destination - адрес, например 'MXSE.securities'
+   * @param selector - селектор сообщений, например 'TICKER="MXSE.TQBR.SBER"'
+   * @param schema - схема строк сообщений
+   * @param listener - получает строки каждого сообщения
+   * @returns подписка
+   */
+  subscribe<T>(
+    destination: string,
+    selector: string | undefined,
+    schema: Schema<T>,
+    listener: (rows: T[]) => void
+  ): StreamSubscription {
+    const id = `sub-${this.nextId++}`;
+    const subscription: ActiveSubscription = {
+      destination,
+      selector,
+      onMessage: body => {
+        let rows: T[];
+        try {
+          rows = parseRows(body, schema);
+        } catch (error) {
+          this.reportError(new MoexParseError(`Failed to parse stream message for ${destination}: ${(error as Error).message}`, {
+            url: this.url,
+            cause: error
+          }));
+          return;
+        }
+        listener(rows);
+      }
+    };
+    this.subscriptions.set(id, subscription);
+    if (this.connectedFlag) {
+      this.sendSubscribe(id, subscription);
+    }
+
+    return {
+      id,
+      unsubscribe: () => {
+        if (this.subscriptions.delete(id) && this.connectedFlag) {
+          this.send(encodeStompFrame('UNSUBSCRIBE', { id }));
+        }
+      }
+    };
+  }
+
+  /**
+   * Подписывается на рыночные данные инструментов
+   * @param secids - коды ценных бумаг
+   * @param listener - получает обновлённые строки рыночных данных
+   * @param options - режим торгов и префикс торговой системы
+   * @returns подписка
+   */
+  subscribeMarketData(secids: string[], listener: (rows: MarketData[]) => void, options: StreamSubscribeOptions = {}): StreamSubscription {
+    const prefix = options.prefix ?? STOCK_DESTINATION_PREFIX;
+    return this.subscribe(`${prefix}.securities`, this.tickerSelector(secids, options), MARKET_DATA_SCHEMA, listener);
+  }
+
+  /**
+   * Подписывается на сделки по инструментам
+   * @param secids - коды ценных бумаг
+   * @param listener - получает новые сделки
+   * @param options - режим торгов и префикс торговой системы
+   * @returns подписка
+   */
+  subscribeTrades(secids: string[], listener: (rows: Trade[]) => void, options: StreamSubscribeOptions = {}): StreamSubscription {
+    const prefix = options.prefix ?? STOCK_DESTINATION_PREFIX;
+    return this.subscribe(`${prefix}.trades`, this.tickerSelector(secids, options), TRADE_SCHEMA, listener);
+  }
+
+  /**
+   * Подписывается на стаканы инструментов (требуются учётные данные с доступом к стаканам)
+   * @param secids - коды ценных бумаг
+   * @param listener - получает строки стакана
+   * @param options - режим торгов и префикс торговой системы
+   * @returns подписка
+   */
+  subscribeOrderBook(secids: string[], listener: (rows: OrderBookRow[]) => void, options: StreamSubscribeOptions = {}): StreamSubscription {
+    const prefix = options.prefix ?? STOCK_DESTINATION_PREFIX;
+    return this.subscribe(`${prefix}.orderbooks`, this.tickerSelector(secids, options), ORDER_BOOK_ROW_SCHEMA, listener);
+  }
+
+  /**
+   * Закрывает поток без переподключения
+   */
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = undefined;
+    const socket = this.socket;
+    if (socket && this.connectedFlag) {
+      this.send(encodeStompFrame('DISCONNECT', {}));
+    }
+    this.dropConnection();
+    socket?.close(1000, 'Client closed');
+    this.settleConnects(new MoexNetworkError('Stream closed before connecting', { url: this.url }));
+    this.emit('close');
+  }
+
+  /**
+   * Селектор по тикерам в формате потока ISS: TICKER in ("MXSE.TQBR.SBER",...)
+   */
+  private tickerSelector(secids: string[], options: StreamSubscribeOptions): string {
+    const prefix = options.prefix ?? STOCK_DESTINATION_PREFIX;
+    const board = options.board ?? 'TQBR';
+    return `TICKER in (${secids.map(secid => `"${prefix}.${board}.${secid}"`).join(',')})`;
+  }
+
+  /**
+   * Открывает WebSocket и отправляет CONNECT после его открытия
+   */
+  private open(): void {
+    const socket = this.createWebSocket(this.url, ['v12.stomp']);
+    this.socket = socket;
+    this.buffer = '';
+
+    socket.onopen = () => {
+      if (socket !== this.socket) {
+        return;
+      }
+      const headers: Record<string, string> = {
+        'accept-version': '1.2',
+        host: new URL(this.url).hostname,
+        'heart-beat': `${this.heartbeat.outgoing},${this.heartbeat.incoming}`
+      };
+      if (this.credentials) {
+        headers.login = this.credentials.login;
+        headers.passcode = this.credentials.passcode;
+        headers.domain = this.credentials.domain ?? 'passport';
+      }
+      this.send(encodeStompFrame('CONNECT', headers));
+    };
+    socket.onmessage = event => {
+      if (socket === this.socket) {
+        this.receive(messageText(event.data));
+      }
+    };
+    socket.onerror = event => {
+      if (socket === this.socket) {
+        this.reportError(new MoexNetworkError('WebSocket error', { url: this.url, cause: event?.error ?? event }));
+      }
+    };
+    socket.onclose = () => {
+      if (socket === this.socket) {
+        this.handleDisconnect();
+      }
+    };
+  }
+
+  /**
+   * Накапливает данные WebSocket и разбирает завершённые кадры
+   * @param data - очередная порция данных
+   */
+  private receive(data: string): void {
+    this.lastReceived = Date.now();
+    this.buffer += data;
+    let end = this.buffer.indexOf('\0');
+    while (end !== -1) {
+      const frame = decodeStompFrame(this.buffer.slice(0, end));
+      this.buffer = this.buffer.slice(end + 1);
+      if (frame) {
+        try {
+          this.handleFrame(frame);
+        } catch (error) {
+          // Исключение обработчика подписчика не должно обрывать разбор следующих кадров
+          this.reportError(new MoexError(`Stream listener failed: ${(error as Error).message}`, { url: this.url, cause: error }));
+        }
+      }
+      end = this.buffer.indexOf('\0');
+    }
+  }
+
+  /**
+   * Обрабатывает кадр сервера
+   * @param frame - кадр STOMP
+   */
+  private handleFrame(frame: StompFrame): void {
+    switch (frame.command) {
+      case 'CONNECTED':
+        this.connectedFlag = true;
+        this.established = true;
+        this.attempt = 0;
+        this.startHeartbeat(frame.headers['heart-beat']);
+        for (const [id, subscription] of this.subscriptions) {
+          this.sendSubscribe(id, subscription);
+        }
+        this.settleConnects();
+        this.emit('connected');
+        break;
+      case 'MESSAGE': {
+        const subscription = this.subscriptions.get(frame.headers.subscription);
+        subscription?.onMessage(frame.body);
+        break;
+      }
+      case 'ERROR': {
+        const error = new MoexError(`Stream error: ${frame.headers.message ?? frame.body}`, { url: this.url });
+        this.reportError(error);
+        // После ERROR сервер закрывает соединение; не ждём этого и переподключаемся сами
+        this.socket?.close();
+        this.handleDisconnect(error);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Отправляет SUBSCRIBE для подписки
+   */
+  private sendSubscribe(id: string, subscription: ActiveSubscription): void {
+    const headers: Record<string, string> = { id, destination: subscription.destination };
+    if (subscription.selector) {
+      headers.selector = subscription.selector;
+    }
+    this.send(encodeStompFrame('SUBSCRIBE', headers));
+  }
+
+  /**
+   * Запускает отправку heart-beat и проверку входящих по согласованным с сервером интервалам
+   * @param header - заголовок heart-beat из кадра CONNECTED
+   */
+  private startHeartbeat(header: string | undefined): void {
+    const [serverOutgoing, serverIncoming] = (header ?? '0,0').split(',').map(Number);
+    const outgoing = this.heartbeat.outgoing && serverIncoming ? Math.max(this.heartbeat.outgoing, serverIncoming) : 0;
+    const incoming = this.heartbeat.incoming && serverOutgoing ? Math.max(this.heartbeat.incoming, serverOutgoing) : 0;
+
+    if (outgoing > 0) {
+      this.heartbeatTimers.push(setInterval(() => this.send('\n'), outgoing));
+    }
+    if (incoming > 0) {
+      this.lastReceived = Date.now();
+      this.heartbeatTimers.push(setInterval(() => {
+        // Сервер молчит дольше двух интервалов — считаем соединение потерянным
+        if (Date.now() - this.lastReceived > incoming * 2) {
+          this.reportError(new MoexNetworkError('Stream heart-beat timeout', { url: this.url }));
+          this.socket?.close();
+          this.handleDisconnect();
+        }
+      }, incoming));
+    }
+  }
+
+  /**
+   * Отправляет данные, если WebSocket открыт
+   */
+  private send(data: string): void {
+    if (this.socket && this.socket.readyState === WEB_SOCKET_OPEN) {
+      this.socket.send(data);
+    }
+  }
+
+  /**
+   * Сбрасывает состояние соединения и останавливает heart-beat
+   */
+  private dropConnection(): void {
+    for (const timer of this.heartbeatTimers) {
+      clearInterval(timer);
+    }
+    this.heartbeatTimers = [];
+    this.socket = undefined;
+    this.connectedFlag = false;
+  }
+
+  /**
+   * Выполняет или отклоняет ожидающие вызовы connect()
+   * @param error - ошибка подключения (без неё вызовы выполняются)
+   */
+  private settleConnects(error?: MoexError): void {
+    const pending = this.pendingConnects;
+    this.pendingConnects = [];
+    for (const { resolve, reject } of pending) {
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    }
+  }
+
+  /**
+   * Обрабатывает потерю соединения: планирует переподключение или закрывает поток
+   * @param reason - причина, если соединение закрыто из-за кадра ERROR
+   */
+  private handleDisconnect(reason?: MoexError): void {
+    if (!this.socket) {
+      return;
+    }
+    const wasConnected = this.connectedFlag;
+    this.dropConnection();
+    if (wasConnected) {
+      this.emit('disconnected');
+    }
+    if (this.closed) {
+      return;
+    }
+    if (!wasConnected) {
+      this.settleConnects(reason ?? new MoexNetworkError('Failed to connect to stream', { url: this.url }));
+    }
+    if (!this.reconnect) {
+      this.closed = true;
+      this.emit('close');
+      return;
+    }
+    if (!this.established) {
+      // Первое подключение не удалось: connect() уже отклонён, повторить можно новым вызовом
+      return;
+    }
+    const delay = Math.min(this.reconnectDelay * 2 ** this.attempt, this.maxReconnectDelay);
+    this.attempt++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.open();
+    }, delay);
+  }
+
+  /**
+   * Передаёт ошибку в событие error, если у него есть обработчик
+   */
+  private reportError(error: MoexError): void {
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error);
+    }
+  }
+}
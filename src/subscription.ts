@@ -0,0 +1,237 @@
+import { EventEmitter } from 'events';
+import { MarketData, MarketDataBatch, MarketDataChanges, MarketDataUpdate } from './types';
+
+/**
+ * Настройки опроса подписки на рыночные данные
+ */
+export interface MarketDataSubscriptionOptions {
+  /** Пауза между опросами во время торгов, мс */
+  intervalMs: number;
+  /** Максимальная пауза между опросами вне торгов и после ошибок, мс */
+  maxIntervalMs: number;
+  /** Сигнал для остановки подписки */
+  signal?: AbortSignal;
+  /** Проверяет по календарю, идут ли сейчас торги; без проверки рынок считается открытым */
+  isOpen?: () => Promise<boolean>;
+}
+
+/**
+ * События подписки на рыночные данные
+ */
+export interface MarketDataSubscriptionEvents {
+  /** Изменились рыночные данные инструмента */
+  update: [MarketDataUpdate];
+  /** Опрос завершился ошибкой; подписка продолжает опрос с увеличенной паузой */
+  error: [unknown];
+  /** Подписка остановлена */
+  end: [];
+}
+
+/**
+ * Сравнивает рыночные данные и возвращает изменившиеся поля
+ * @param previous - предыдущие данные (null — все поля считаются изменившимися)
+ * @param current - новые данные
+ */
+function diffMarketData(previous: MarketData | null, current: MarketData): MarketDataChanges {
+  const changes: Record<string, { previous: unknown; current: unknown }> = {};
+  for (const field of Object.keys(current) as Array<keyof MarketData>) {
+    const before = previous ? previous[field] ?? null : null;
+    if (!previous || before !== current[field]) {
+      changes[field] = { previous: before, current: current[field] };
+    }
+  }
+  return changes as MarketDataChanges;
+}
+
+/**
+ * Подписка на рыночные данные через опрос ISS.
+ * Выдаёт только инструменты, у которых изменились SEQNUM или UPDATETIME, вместе с изменившимися полями.
+ * Вне торговых часов по календарю торговой системы пауза между опросами удваивается до maxIntervalMs.
+ * Обновления можно получать через события update или через for await;
+ * выход из цикла for await останавливает подписку.
+ * Ошибки опроса передаются в событие error, а без обработчика останавливают подписку
+ */
+export class MarketDataSubscription extends EventEmitter<MarketDataSubscriptionEvents> implements AsyncIterable<MarketDataUpdate> {
+  private readonly poll: () => Promise<MarketDataBatch>;
+  private readonly intervalMs: number;
+  private readonly maxIntervalMs: number;
+  private readonly isOpen: () => Promise<boolean>;
+  private readonly signal?: AbortSignal;
+  private readonly onAbort = () => this.stop();
+  private readonly controller = new AbortController();
+  private readonly snapshot = new Map<string, MarketData>();
+
+  constructor(poll: () => Promise<MarketDataBatch>, options: MarketDataSubscriptionOptions) {
+    super();
+    this.poll = poll;
+    this.intervalMs = options.intervalMs;
+    this.maxIntervalMs = Math.max(options.maxIntervalMs, options.intervalMs);
+    this.isOpen = options.isOpen ?? (() => Promise.resolve(true));
+
+    const { signal } = options;
+    if (signal?.aborted) {
+      this.controller.abort();
+    } else if (signal) {
+      this.signal = signal;
+      signal.addEventListener('abort', this.onAbort, { once: true });
+    }
+    void this.run();
+  }
+
+  /**
+   * Подписка остановлена
+   */
+  get stopped(): boolean {
+    return this.controller.signal.aborted;
+  }
+
+  /**
+   * Останавливает опрос; текущий запрос дорабатывает, но его результат не выдаётся
+   */
+  stop(): void {
+    this.signal?.removeEventListener('abort', this.onAbort);
+    this.controller.abort();
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<MarketDataUpdate> {
+    const queue: MarketDataUpdate[] = [];
+    let waiting: { resolve: (result: IteratorResult<MarketDataUpdate>) => void; reject: (error: unknown) => void } | undefined;
+    let failure: { error: unknown } | undefined;
+    let done = false;
+
+    const cleanup = () => {
+      done = true;
+      this.off('update', onUpdate);
+      this.off('error', onError);
+      this.off('end', onEnd);
+    };
+    const onUpdate = (update: MarketDataUpdate) => {
+      if (waiting) {
+        waiting.resolve({ value: update, done: false });
+        waiting = undefined;
+      } else {
+        queue.push(update);
+      }
+    };
+    const onError = (error: unknown) => {
+      // Итератор не может продолжить после ошибки, поэтому завершает подписку
+      cleanup();
+      this.stop();
+      if (waiting) {
+        waiting.reject(error);
+        waiting = undefined;
+      } else {
+        failure = { error };
+      }
+    };
+    const onEnd = () => {
+      cleanup();
+      if (waiting) {
+        waiting.resolve({ value: undefined, done: true });
+        waiting = undefined;
+      }
+    };
+
+    if (this.stopped) {
+      done = true;
+    } else {
+      this.on('update', onUpdate);
+      this.on('error', onError);
+      this.on('end', onEnd);
+    }
+
+    return {
+      next: () => {
+        if (queue.length > 0) {
+          return Promise.resolve({ value: queue.shift()!, done: false });
+        }
+        if (failure) {
+          const { error } = failure;
+          failure = undefined;
+          return Promise.reject(error);
+        }
+        if (done) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise((resolve, reject) => {
+          waiting = { resolve, reject };
+        });
+      },
+      return: () => {
+        cleanup();
+        this.stop();
+        return Promise.resolve({ value: undefined, done: true });
+      }
+    };
+  }
+
+  /**
+   * Цикл опроса: запрашивает данные, выдаёт изменения и ждёт до следующего опроса
+   */
+  private async run(): Promise<void> {
+    let delay = this.intervalMs;
+    while (!this.stopped) {
+      try {
+        const batch = await this.poll();
+        if (this.stopped) {
+          break;
+        }
+        for (const row of batch.data.values()) {
+          this.handleRow(row);
+        }
+        // Если календарь недоступен, рынок считается открытым
+        const open = await this.isOpen().catch(() => true);
+        delay = open ? this.intervalMs : Math.min(delay * 2, this.maxIntervalMs);
+      } catch (error) {
+        if (this.stopped) {
+          break;
+        }
+        if (this.listenerCount('error') === 0) {
+          // Без обработчика ошибку некому сообщить: останавливаемся, а не роняем процесс
+          this.stop();
+          break;
+        }
+        this.emit('error', error);
+        delay = Math.min(delay * 2, this.maxIntervalMs);
+      }
+      await this.wait(delay);
+    }
+    this.emit('end');
+  }
+
+  /**
+   * Сравнивает строку с предыдущей и выдаёт обновление, если изменились SEQNUM или UPDATETIME
+   * @param row - новые рыночные данные инструмента
+   */
+  private handleRow(row: MarketData): void {
+    const previous = this.snapshot.get(row.SECID) ?? null;
+    if (previous && previous.SEQNUM === row.SEQNUM && previous.UPDATETIME === row.UPDATETIME) {
+      return;
+    }
+    this.snapshot.set(row.SECID, row);
+    this.emit('update', { secid: row.SECID, data: row, previous, changes: diffMarketData(previous, row) });
+  }
+
+  /**
+   * Ждёт до следующего опроса; остановка подписки прерывает ожидание
+   * @param ms - пауза, мс
+   */
+  private wait(ms: number): Promise<void> {
+    const signal = this.controller.signal;
+    return new Promise(resolve => {
+      if (signal.aborted) {
+        resolve();
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
@@ -45,7 +45,153 @@ export enum Market {
   /** Рынок госзакупок (Public Sector Database) */
   PSDB = 'psdb',
   /** Смешанный режим торгов */
-  MIXED = 'mixed'
+  MIXED = 'mixed',
+  /** Срочный рынок: фьючерсы и опционы (Fortex & Options Russian Trading System) */
+  FORTS = 'forts',
+  /** Индексы Московской Биржи */
+  INDEX = 'index'
+}
+
+/**
+ * Enum для основных режимов торгов MOEX
+ */
+export enum Board {
+  /** Т+: Акции и ДР */
+  TQBR = 'TQBR',
+  /** Т+: ETF */
+  TQTF = 'TQTF',
+  /** Т+: Паи */
+  TQIF = 'TQIF',
+  /** Т+: Акции ПИР */
+  TQPI = 'TQPI',
+  /** Т+: Облигации */
+  TQCB = 'TQCB',
+  /** Т+: Гособлигации */
+  TQOB = 'TQOB',
+  /** Неполные лоты (акции) */
+  SMAL = 'SMAL',
+  /** Поставка по срочным контрактам (акции) */
+  SPEQ = 'SPEQ',
+  /** Валютный рынок: системные сделки */
+  CETS = 'CETS',
+  /** Срочный рынок: фьючерсы */
+  RFUD = 'RFUD',
+  /** Срочный рынок: опционы */
+  ROPD = 'ROPD',
+  /** Индексы фондового рынка */
+  SNDX = 'SNDX'
+}
+
+/**
+ * Enum для интервалов свечей ISS
+ */
+export enum Interval {
+  /** 1 минута */
+  MINUTE_1 = 1,
+  /** 10 минут */
+  MINUTE_10 = 10,
+  /** 1 час */
+  HOUR_1 = 60,
+  /** 1 день */
+  DAY = 24,
+  /** 1 неделя */
+  WEEK = 7,
+  /** 1 месяц */
+  MONTH = 31,
+  /** 1 квартал */
+  QUARTER = 4
+}
+
+/**
+ * Торговая система из справочника ISS
+ */
+export interface IssEngine {
+  id: number;
+  name: string;
+  title: string;
+}
+
+/**
+ * Рынок из справочника ISS
+ */
+export interface IssMarket {
+  id: number;
+  trade_engine_id: number;
+  trade_engine_name: string;
+  trade_engine_title: string;
+  market_name: string;
+  market_title: string;
+  market_id: number;
+  marketplace: string | null;
+}
+
+/**
+ * Режим торгов из справочника ISS
+ */
+export interface IssBoard {
+  id: number;
+  board_group_id: number;
+  engine_id: number;
+  market_id: number;
+  boardid: string;
+  board_title: string;
+  /** 1, если в режиме идут торги */
+  is_traded: number;
+  has_candles: number;
+  /** 1 для основного режима группы */
+  is_primary: number;
+}
+
+/**
+ * Группа режимов торгов из справочника ISS
+ */
+export interface IssBoardGroup {
+  id: number;
+  trade_engine_id: number;
+  trade_engine_name: string;
+  trade_engine_title: string;
+  market_id: number;
+  market_name: string;
+  name: string;
+  title: string;
+  is_default: number;
+  board_group_id: number;
+  is_traded: number;
+}
+
+/**
+ * Тип ценной бумаги из справочника ISS
+ */
+export interface IssSecurityType {
+  id: number;
+  trade_engine_id: number;
+  trade_engine_name: string;
+  trade_engine_title: string;
+  security_type_name: string;
+  security_type_title: string;
+  security_group_name: string;
+}
+
+/**
+ * Группа ценных бумаг из справочника ISS
+ */
+export interface IssSecurityGroup {
+  id: number;
+  name: string;
+  title: string;
+  is_hidden: number;
+}
+
+/**
+ * Справочник ISS (/index.json): торговые системы, рынки, режимы торгов и классификаторы бумаг
+ */
+export interface IssIndex {
+  engines: IssEngine[];
+  markets: IssMarket[];
+  boards: IssBoard[];
+  boardgroups: IssBoardGroup[];
+  securitytypes: IssSecurityType[];
+  securitygroups: IssSecurityGroup[];
 }
 
 /**
@@ -55,89 +201,904 @@ export interface Security {
   SECID: string;
   BOARDID: string;
   SHORTNAME: string;
-  PREVPRICE: number;
+  PREVPRICE: number | null;
   LOTSIZE: number;
-  FACEVALUE: number;
+  FACEVALUE: number | null;
   STATUS: string;
   BOARDNAME: string;
   DECIMALS: number;
   SECNAME: string;
-  REMARKS: string;
+  REMARKS: string | null;
   MARKETCODE: string;
   INSTRID: string;
-  SECTORID: string;
+  SECTORID: string | null;
   MINSTEP: number;
-  PREVWAPRICE: number;
+  PREVWAPRICE: number | null;
   FACEUNIT: string;
   PREVDATE: string;
-  ISSUESIZE: number;
-  ISIN: string;
-  LATNAME: string;
-  REGNUMBER: string;
-  PREVLEGALCLOSEPRICE: number;
+  ISSUESIZE: number | null;
+  ISIN: string | null;
+  LATNAME: string | null;
+  REGNUMBER: string | null;
+  PREVLEGALCLOSEPRICE: number | null;
   CURRENCYID: string;
   SECTYPE: string;
-  LISTLEVEL: number;
+  LISTLEVEL: number | null;
+  SETTLEDATE: string;
+}
+
+/**
+ * Облигация (рынок bonds): к общим полям добавлены купон, НКД и даты погашения и оферты
+ */
+export interface BondsSecurity extends Security {
+  /** Размер купона в валюте номинала */
+  COUPONVALUE: number | null;
+  /** Дата ближайшего купона */
+  NEXTCOUPON: string | null;
+  /** Накопленный купонный доход в валюте номинала */
+  ACCRUEDINT: number | null;
+  /** Дата погашения */
+  MATDATE: string | null;
+  /** Длительность купонного периода, дней */
+  COUPONPERIOD: number | null;
+  /** Ставка купона, % годовых */
+  COUPONPERCENT: number | null;
+  /** Дата оферты */
+  OFFERDATE: string | null;
+  /** Доходность по средневзвешенной цене предыдущего дня, % */
+  YIELDATPREVWAPRICE: number | null;
+  BUYBACKPRICE: number | null;
+  BUYBACKDATE: string | null;
+  /** Номинал на дату расчётов */
+  FACEVALUEONSETTLEDATE: number | null;
+  LOTVALUE: number | null;
+  ISSUESIZEPLACED: number | null;
+}
+
+/**
+ * Фьючерс (торговая система futures, рынок forts)
+ */
+export interface FuturesSecurity {
+  SECID: string;
+  BOARDID: string;
+  SHORTNAME: string;
+  SECNAME: string;
+  LATNAME: string | null;
+  SECTYPE: string;
+  /** Код базового актива */
+  ASSETCODE: string;
+  PREVSETTLEPRICE: number | null;
+  PREVPRICE: number | null;
+  DECIMALS: number;
+  MINSTEP: number;
+  /** Стоимость шага цены */
+  STEPPRICE: number | null;
+  /** Последний день торгов */
+  LASTTRADEDATE: string;
+  /** Дата исполнения */
+  LASTDELDATE: string;
+  PREVOPENPOSITION: number | null;
+  /** Количество базового актива в контракте */
+  LOTVOLUME: number;
+  /** Гарантийное обеспечение */
+  INITIALMARGIN: number | null;
+  HIGHLIMIT: number | null;
+  LOWLIMIT: number | null;
+  LASTSETTLEPRICE: number | null;
+}
+
+/**
+ * Валютный инструмент (торговая система currency, рынок selt)
+ */
+export interface CurrencySecurity {
+  SECID: string;
+  BOARDID: string;
+  SHORTNAME: string;
+  SECNAME: string;
+  LATNAME: string | null;
+  LOTSIZE: number;
+  DECIMALS: number;
+  MINSTEP: number;
+  FACEVALUE: number | null;
+  FACEUNIT: string;
+  CURRENCYID: string;
+  PREVPRICE: number | null;
+  PREVWAPRICE: number | null;
+  PREVDATE: string;
   SETTLEDATE: string;
+  STATUS: string;
+  MARKETCODE: string;
+  REMARKS: string | null;
+}
+
+/**
+ * Индекс (рынок index): у индексов нет цены, лота и номинала, только значение и его годовой диапазон
+ */
+export interface IndexSecurity {
+  SECID: string;
+  BOARDID: string;
+  NAME: string;
+  SHORTNAME: string;
+  DECIMALS: number;
+  /** Максимальное значение индекса за год */
+  ANNUALHIGH: number | null;
+  /** Минимальное значение индекса за год */
+  ANNUALLOW: number | null;
+  CURRENCYID: string | null;
+  /** Способ расчёта индекса */
+  CALCMODE: string | null;
 }
 
 /**
- * Интерфейс для рыночных данных
+ * Ценная бумага любого рынка
+ */
+export type AnySecurity = Security | BondsSecurity | FuturesSecurity | CurrencySecurity | IndexSecurity;
+
+/**
+ * true, если тип — объединение нескольких значений, например весь Engine или Market
+ */
+type IsUnion<T, U = T> = T extends unknown ? ([U] extends [T] ? false : true) : never;
+
+/**
+ * Тип ценной бумаги для торговой системы и рынка; для рынков без отдельного типа — Security.
+ * Если торговая система или рынок известны только во время выполнения — AnySecurity
+ */
+export type SecurityFor<E extends Engine, M extends Market> =
+  [M] extends [Market.BONDS] ? BondsSecurity
+    : true extends IsUnion<E> | IsUnion<M> ? AnySecurity
+      : [E, M] extends [Engine.FUTURES, Market.FORTS] ? FuturesSecurity
+        : [E, M] extends [Engine.CURRENCY, Market.SELT] ? CurrencySecurity
+          : [E, M] extends [Engine.STOCK, Market.INDEX] ? IndexSecurity
+            : Security;
+
+/**
+ * Рыночные данные рынка акций
  */
 export interface MarketData {
   SECID: string;
   BOARDID: string;
-  BID: number;
-  BIDDEPTH: number;
-  OFFER: number;
-  OFFERDEPTH: number;
-  SPREAD: number;
-  BIDDEPTHT: number;
-  OFFERDEPTHT: number;
-  OPEN: number;
-  LOW: number;
-  HIGH: number;
-  LAST: number;
-  LASTCHANGE: number;
-  LASTCHANGEPRCNT: number;
-  QTY: number;
-  VALUE: number;
-  VALUE_USD: number;
-  WAPRICE: number;
-  LASTCNGTOLASTWAPRICE: number;
-  WAPTOPREVWAPRICEPRCNT: number;
-  WAPTOPREVWAPRICE: number;
-  CLOSEPRICE: number;
-  MARKETPRICETODAY: number;
-  MARKETPRICE: number;
-  LASTTOPREVPRICE: number;
-  NUMTRADES: number;
-  VOLTODAY: number;
-  VALTODAY: number;
-  VALTODAY_USD: number;
-  ETFSETTLEPRICE: number;
-  TRADINGSTATUS: string;
+  BID: number | null;
+  BIDDEPTH: number | null;
+  OFFER: number | null;
+  OFFERDEPTH: number | null;
+  SPREAD: number | null;
+  BIDDEPTHT: number | null;
+  OFFERDEPTHT: number | null;
+  OPEN: number | null;
+  LOW: number | null;
+  HIGH: number | null;
+  LAST: number | null;
+  LASTCHANGE: number | null;
+  LASTCHANGEPRCNT: number | null;
+  QTY: number | null;
+  VALUE: number | null;
+  VALUE_USD: number | null;
+  WAPRICE: number | null;
+  LASTCNGTOLASTWAPRICE: number | null;
+  WAPTOPREVWAPRICEPRCNT: number | null;
+  WAPTOPREVWAPRICE: number | null;
+  CLOSEPRICE: number | null;
+  MARKETPRICETODAY: number | null;
+  MARKETPRICE: number | null;
+  LASTTOPREVPRICE: number | null;
+  NUMTRADES: number | null;
+  VOLTODAY: number | null;
+  VALTODAY: number | null;
+  VALTODAY_USD: number | null;
+  ETFSETTLEPRICE: number | null;
+  TRADINGSTATUS: string | null;
   UPDATETIME: string;
-  LASTBID: number;
-  LASTOFFER: number;
-  LCLOSEPRICE: number;
-  LCURRENTPRICE: number;
-  MARKETPRICE2: number;
-  NUMBIDS: number;
-  NUMOFFERS: number;
-  CHANGE: number;
-  TIME: string;
-  HIGHBID: number;
-  LOWOFFER: number;
-  PRICEMINUSPREVWAPRICE: number;
-  OPENPERIODPRICE: number;
+  LASTBID: number | null;
+  LASTOFFER: number | null;
+  LCLOSEPRICE: number | null;
+  LCURRENTPRICE: number | null;
+  MARKETPRICE2: number | null;
+  NUMBIDS: number | null;
+  NUMOFFERS: number | null;
+  CHANGE: number | null;
+  TIME: string | null;
+  HIGHBID: number | null;
+  LOWOFFER: number | null;
+  PRICEMINUSPREVWAPRICE: number | null;
+  OPENPERIODPRICE: number | null;
   SEQNUM: number;
   SYSTIME: string;
-  CLOSINGAUCTIONPRICE: number;
-  CLOSINGAUCTIONVOLUME: number;
-  ISSUECAPITALIZATION: number;
-  ISSUECAPITALIZATION_UPDATETIME: string;
-  ETFSETTLECURRENCY: string;
-  VALTODAY_RUR: number;
-  TRADINGSESSION: string;
+  CLOSINGAUCTIONPRICE: number | null;
+  CLOSINGAUCTIONVOLUME: number | null;
+  ISSUECAPITALIZATION: number | null;
+  ISSUECAPITALIZATION_UPDATETIME: string | null;
+  ETFSETTLECURRENCY: string | null;
+  VALTODAY_RUR: number | null;
+  TRADINGSESSION: string | null;
 }
+
+/**
+ * Рыночные данные рынка акций (то же, что MarketData)
+ */
+export type SharesMarketData = MarketData;
+
+/**
+ * Поля рыночных данных, общие для всех рынков
+ */
+export interface BaseMarketData {
+  SECID: string;
+  BOARDID: string;
+  BID: number | null;
+  BIDDEPTH: number | null;
+  OFFER: number | null;
+  OFFERDEPTH: number | null;
+  SPREAD: number | null;
+  BIDDEPTHT: number | null;
+  OFFERDEPTHT: number | null;
+  NUMBIDS: number | null;
+  NUMOFFERS: number | null;
+  OPEN: number | null;
+  LOW: number | null;
+  HIGH: number | null;
+  LAST: number | null;
+  LASTCHANGE: number | null;
+  LASTCHANGEPRCNT: number | null;
+  LASTTOPREVPRICE: number | null;
+  OPENPERIODPRICE: number | null;
+  NUMTRADES: number | null;
+  VOLTODAY: number | null;
+  VALTODAY: number | null;
+  VALTODAY_USD: number | null;
+  TIME: string | null;
+  UPDATETIME: string;
+  SEQNUM: number;
+  SYSTIME: string;
+}
+
+/**
+ * Рыночные данные облигаций: цена в % от номинала, доходность и дюрация
+ */
+export interface BondsMarketData extends BaseMarketData {
+  QTY: number | null;
+  VALUE: number | null;
+  WAPRICE: number | null;
+  CLOSEPRICE: number | null;
+  MARKETPRICE: number | null;
+  MARKETPRICETODAY: number | null;
+  LCURRENTPRICE: number | null;
+  ADMITTEDQUOTE: number | null;
+  TRADINGSTATUS: string | null;
+  TRADINGSESSION: string | null;
+  /** Доходность по последней сделке, % */
+  YIELD: number | null;
+  /** Доходность по средневзвешенной цене, % */
+  YIELDATWAPRICE: number | null;
+  YIELDTOPREVYIELD: number | null;
+  CLOSEYIELD: number | null;
+  /** Доходность к оферте, % */
+  YIELDTOOFFER: number | null;
+  /** Дюрация, дней */
+  DURATION: number | null;
+}
+
+/**
+ * Рыночные данные фьючерсов: расчётная цена и открытый интерес
+ */
+export interface FuturesMarketData extends BaseMarketData {
+  QUANTITY: number | null;
+  /** Расчётная цена */
+  SETTLEPRICE: number | null;
+  SETTLETOPREVSETTLE: number | null;
+  SETTLETOPREVSETTLEPRC: number | null;
+  /** Открытые позиции, контрактов */
+  OPENPOSITION: number | null;
+  OICHANGE: number | null;
+  TRADEDATE: string | null;
+  SWAPRATE: number | null;
+}
+
+/**
+ * Рыночные данные валютного рынка
+ */
+export interface CurrencyMarketData extends BaseMarketData {
+  QTY: number | null;
+  VALUE: number | null;
+  WAPRICE: number | null;
+  CLOSEPRICE: number | null;
+  MARKETPRICE: number | null;
+  MARKETPRICETODAY: number | null;
+  PRICEMINUSPREVWAPRICE: number | null;
+  CHANGE: number | null;
+  TRADINGSTATUS: string | null;
+}
+
+/**
+ * Рыночные данные индекса: значение, изменения и капитализация
+ */
+export interface IndexMarketData {
+  SECID: string;
+  BOARDID: string;
+  /** Значение индекса на закрытие предыдущего дня */
+  LASTVALUE: number | null;
+  OPENVALUE: number | null;
+  /** Текущее значение индекса */
+  CURRENTVALUE: number | null;
+  LASTCHANGE: number | null;
+  LASTCHANGETOOPENPRC: number | null;
+  LASTCHANGETOOPEN: number | null;
+  LASTCHANGEPRC: number | null;
+  MONTHCHANGEPRC: number | null;
+  YEARCHANGEPRC: number | null;
+  HIGH: number | null;
+  LOW: number | null;
+  VALTODAY: number | null;
+  VALTODAY_USD: number | null;
+  VOLTODAY: number | null;
+  CAPITALIZATION: number | null;
+  CAPITALIZATION_USD: number | null;
+  TRADEDATE: string | null;
+  TRADINGSESSION: string | null;
+  TIME: string | null;
+  UPDATETIME: string | null;
+  SEQNUM: number;
+  SYSTIME: string;
+}
+
+/**
+ * Рыночные данные ценной бумаги любого рынка (значения индексов — IndexMarketData)
+ */
+export type AnyMarketData = MarketData | BondsMarketData | FuturesMarketData | CurrencyMarketData | IndexMarketData;
+
+/**
+ * Тип рыночных данных для торговой системы и рынка; для рынков без отдельного типа — MarketData.
+ * Если торговая система или рынок известны только во время выполнения — AnyMarketData
+ */
+export type MarketDataFor<E extends Engine, M extends Market> =
+  [M] extends [Market.BONDS] ? BondsMarketData
+    : true extends IsUnion<E> | IsUnion<M> ? AnyMarketData
+      : [E, M] extends [Engine.FUTURES, Market.FORTS] ? FuturesMarketData
+        : [E, M] extends [Engine.CURRENCY, Market.SELT] ? CurrencyMarketData
+          : [E, M] extends [Engine.STOCK, Market.INDEX] ? IndexMarketData
+            : MarketData;
+
+/**
+ * Ценная бумага вместе с рыночными данными того же режима торгов
+ */
+export type SecurityWithMarketData<S = Security, D = MarketData> =
+  S & { marketdata: D | null };
+
+/**
+ * Рыночные данные по списку тикеров
+ */
+export interface MarketDataBatch<T = MarketData> {
+  /** Рыночные данные по SECID */
+  data: Map<string, T>;
+  /** Тикеры, которых не оказалось в ответе ISS, в порядке запроса */
+  missing: string[];
+}
+
+/**
+ * Изменившиеся поля рыночных данных: прежнее и новое значение
+ */
+export type MarketDataChanges = {
+  [K in keyof MarketData]?: { previous: MarketData[K] | null; current: MarketData[K] };
+};
+
+/**
+ * Обновление рыночных данных по одному инструменту в подписке
+ */
+export interface MarketDataUpdate {
+  secid: string;
+  /** Новые рыночные данные */
+  data: MarketData;
+  /** Предыдущие рыночные данные; null для первого обновления */
+  previous: MarketData | null;
+  /** Поля, отличающиеся от предыдущих данных (в первом обновлении — все поля) */
+  changes: MarketDataChanges;
+}
+
+/**
+ * Поле описания ценной бумаги в формате ISS (блок description)
+ */
+export interface SecurityDescriptionField {
+  /** Код поля, например ISIN или MATDATE */
+  name: string;
+  title: string;
+  value: string | null;
+  /** Тип значения: string, number, date, boolean */
+  type: string;
+  sort_order: number;
+  is_hidden: number;
+  precision: number | null;
+}
+
+/**
+ * Описание ценной бумаги. Набор полей зависит от типа бумаги:
+ * поля, которых нет в описании, равны null
+ */
+export interface SecurityDescription {
+  SECID: string;
+  NAME: string | null;
+  SHORTNAME: string | null;
+  ISIN: string | null;
+  REGNUMBER: string | null;
+  LATNAME: string | null;
+  /** Код типа бумаги, например common_share или ofz_bond */
+  TYPE: string | null;
+  TYPENAME: string | null;
+  /** Код группы бумаг, например stock_shares или stock_bonds */
+  GROUP: string | null;
+  GROUPNAME: string | null;
+  EMITTER_ID: number | null;
+  ISSUEDATE: string | null;
+  ISSUESIZE: number | null;
+  FACEVALUE: number | null;
+  FACEUNIT: string | null;
+  LISTLEVEL: number | null;
+  /** Дата погашения */
+  MATDATE: string | null;
+  /** Ставка купона, % годовых */
+  COUPONPERCENT: number | null;
+  COUPONVALUE: number | null;
+  /** Число купонов в год */
+  COUPONFREQUENCY: number | null;
+  /** Дата ближайшего купона */
+  COUPONDATE: string | null;
+  /** Все поля описания по коду, включая не перечисленные выше */
+  fields: Record<string, string | number | null>;
+}
+
+/**
+ * Описание ценной бумаги и режимы торгов, в которых она обращается
+ */
+export interface SecurityInfo {
+  description: SecurityDescription;
+  boards: SecurityBoard[];
+}
+
+/**
+ * Ценная бумага из результатов поиска
+ */
+export interface SecuritySearchResult {
+  id: number;
+  secid: string;
+  shortname: string;
+  regnumber: string | null;
+  name: string;
+  isin: string | null;
+  /** 1, если бумага торгуется */
+  is_traded: number;
+  emitent_id: number | null;
+  emitent_title: string | null;
+  emitent_inn: string | null;
+  /** Код типа бумаги, например common_share */
+  type: string;
+  /** Код группы бумаг, например stock_shares */
+  group: string;
+  primary_boardid: string | null;
+  marketprice_boardid: string | null;
+}
+
+/**
+ * Режим торгов ценной бумаги из её описания (блок boards)
+ */
+export interface SecurityBoard {
+  secid: string;
+  boardid: string;
+  title: string;
+  board_group_id: number;
+  market_id: number;
+  market: string;
+  engine_id: number;
+  engine: string;
+  /** 1, если бумага торгуется в режиме */
+  is_traded: number;
+  decimals: number | null;
+  history_from: string | null;
+  history_till: string | null;
+  listed_from: string | null;
+  listed_till: string | null;
+  /** 1 для основного режима торгов бумаги */
+  is_primary: number;
+  currencyid: string | null;
+}
+
+/**
+ * Купон облигации (блок coupons)
+ */
+export interface BondCoupon {
+  isin: string;
+  name: string | null;
+  issuevalue: number | null;
+  /** Дата выплаты купона */
+  coupondate: string;
+  /** Дата фиксации списка держателей */
+  recorddate: string | null;
+  /** Дата начала купонного периода */
+  startdate: string;
+  initialfacevalue: number;
+  /** Непогашенный номинал в купонном периоде */
+  facevalue: number;
+  faceunit: string;
+  /** Размер купона в валюте номинала; null, если ещё не определён */
+  value: number | null;
+  /** Ставка купона, % годовых */
+  valueprc: number | null;
+  value_rub: number | null;
+  secid: string;
+  primary_boardid: string;
+}
+
+/**
+ * Погашение части номинала облигации (блок amortizations)
+ */
+export interface BondAmortization {
+  isin: string;
+  name: string | null;
+  issuevalue: number | null;
+  /** Дата погашения части номинала */
+  amortdate: string;
+  facevalue: number;
+  initialfacevalue: number;
+  faceunit: string;
+  /** Погашаемая часть номинала, % от начального */
+  valueprc: number | null;
+  /** Погашаемая сумма в валюте номинала */
+  value: number | null;
+  value_rub: number | null;
+  data_source: string | null;
+  secid: string;
+  primary_boardid: string;
+}
+
+/**
+ * Оферта по облигации (блок offers)
+ */
+export interface BondOffer {
+  isin: string;
+  name: string | null;
+  issuevalue: number | null;
+  /** Дата исполнения оферты */
+  offerdate: string;
+  /** Начало приёма заявок */
+  offerdatestart: string | null;
+  /** Окончание приёма заявок */
+  offerdateend: string | null;
+  facevalue: number | null;
+  faceunit: string | null;
+  /** Цена исполнения, % от номинала */
+  price: number | null;
+  value: number | null;
+  agent: string | null;
+  /** Тип оферты, например «Оферта (Put)» */
+  offertype: string | null;
+  secid: string;
+  primary_boardid: string;
+}
+
+/**
+ * График платежей по облигации: купоны, амортизации и оферты
+ */
+export interface Bondization {
+  coupons: BondCoupon[];
+  amortizations: BondAmortization[];
+  offers: BondOffer[];
+}
+
+/**
+ * Официальный курс ЦБ РФ (блок cbrf статистики валютного рынка)
+ */
+export interface CbrRate {
+  /** Код валюты, например 'USD' */
+  currency: string;
+  /** Курс, рублей за единицу валюты */
+  rate: number;
+  /** Изменение к предыдущему курсу, % */
+  changePercent: number | null;
+  /** Дата, на которую установлен курс */
+  tradeDate: string | null;
+}
+
+/**
+ * Индекс из списка статистики индексов (блок indices)
+ */
+export interface IndexInfo {
+  /** Код индекса, например 'IMOEX' */
+  indexid: string;
+  shortname: string;
+  /** Первая дата, за которую есть состав индекса */
+  from: string | null;
+  /** Последняя дата, за которую есть состав индекса */
+  till: string | null;
+}
+
+/**
+ * Бумага в составе индекса с весом (блок analytics)
+ */
+export interface IndexConstituent {
+  indexid: string;
+  tradedate: string;
+  /** Тикер бумаги */
+  ticker: string;
+  shortnames: string;
+  /** Код бумаги в торговой системе; для нескольких выпусков одного эмитента — через запятую */
+  secids: string;
+  /** Вес бумаги в индексе, % */
+  weight: number;
+  tradingsession: number | null;
+  trade_session_date: string | null;
+}
+
+/**
+ * Фиксинг Московской Биржи по валютной паре
+ */
+export interface CurrencyFixing {
+  tradedate: string;
+  tradetime: string | null;
+  /** Код фиксинга, например 'USDFIXME' */
+  secid: string;
+  /** Значение фиксинга, рублей за единицу валюты */
+  rate: number;
+}
+
+/**
+ * Индикативный курс срочного рынка
+ */
+export interface IndicativeRate {
+  tradedate: string;
+  tradetime: string;
+  /** Валютная пара, например 'USD/RUB' */
+  secid: string;
+  rate: number;
+  /** Клиринг, по итогам которого рассчитан курс: 'pk' — промежуточный, 'vk' — вечерний */
+  clearing: string | null;
+}
+
+/**
+ * Интерфейс для свечи (OHLCV)
+ */
+export interface Candle {
+  open: number;
+  close: number;
+  high: number;
+  low: number;
+  value: number;
+  volume: number;
+  /** Начало свечи, 'YYYY-MM-DD HH:MM:SS' по московскому времени */
+  begin: string;
+  /** Конец свечи, 'YYYY-MM-DD HH:MM:SS' по московскому времени */
+  end: string;
+}
+
+/**
+ * Интерфейс для итогов торгов за день (история)
+ */
+export interface HistoryRow {
+  BOARDID: string;
+  TRADEDATE: string;
+  SHORTNAME: string;
+  SECID: string;
+  NUMTRADES: number;
+  VALUE: number;
+  OPEN: number | null;
+  LOW: number | null;
+  HIGH: number | null;
+  LEGALCLOSEPRICE: number | null;
+  WAPRICE: number | null;
+  CLOSE: number | null;
+  VOLUME: number;
+  MARKETPRICE2: number | null;
+  MARKETPRICE3: number | null;
+  ADMITTEDQUOTE: number | null;
+  MP2VALTRD: number | null;
+  MARKETPRICE3TRADESVALUE: number | null;
+  ADMITTEDVALUE: number | null;
+  WAVAL: number | null;
+  TRADINGSESSION: number;
+  CURRENCYID: string;
+  TRENDCLSPR: number | null;
+}
+
+/**
+ * Интерфейс для сделки из ленты сделок
+ */
+export interface Trade {
+  TRADENO: number;
+  TRADETIME: string;
+  BOARDID: string;
+  SECID: string;
+  PRICE: number;
+  QUANTITY: number;
+  VALUE: number;
+  /** Направление сделки: 'B' — покупка, 'S' — продажа */
+  BUYSELL: 'B' | 'S';
+  SYSTIME: string;
+}
+
+/**
+ * Интерфейс для строки стакана в формате ISS
+ */
+export interface OrderBookRow {
+  SECID: string;
+  BOARDID: string;
+  /** Сторона заявки: 'B' — покупка, 'S' — продажа */
+  BUYSELL: 'B' | 'S';
+  PRICE: number;
+  QUANTITY: number;
+  SEQNUM: number;
+  UPDATETIME: string;
+  DECIMALS: number;
+}
+
+/**
+ * Уровень стакана
+ */
+export interface OrderBookLevel {
+  price: number;
+  /** Количество в лотах */
+  quantity: number;
+}
+
+/**
+ * Уровень стакана с накопленным объёмом от лучшей цены
+ */
+export interface CumulativeOrderBookLevel extends OrderBookLevel {
+  /** Накопленное количество в лотах */
+  cumulativeQuantity: number;
+  /** Накопленная сумма price * quantity */
+  cumulativeValue: number;
+}
+
+/**
+ * Стакан заявок по ценной бумаге
+ */
+export interface OrderBook {
+  secid: string;
+  boardid: string | null;
+  /** false, если ISS не отдал стакан (например, нет подписки на данные) */
+  available: boolean;
+  /** Заявки на покупку, от лучшей (самой высокой) цены */
+  bids: OrderBookLevel[];
+  /** Заявки на продажу, от лучшей (самой низкой) цены */
+  asks: OrderBookLevel[];
+  bestBid: number | null;
+  bestAsk: number | null;
+  /** Середина между лучшими ценами */
+  mid: number | null;
+  /** Спред в цене */
+  spread: number | null;
+  /** Спред в базисных пунктах от середины */
+  spreadBps: number | null;
+  seqnum: number | null;
+  updateTime: string | null;
+}
+
+/**
+ * Торговая сессия рынка (блок sessions).
+ * Набор колонок ISS зависит от рынка: кроме общих полей доступны остальные колонки ответа
+ */
+export interface TradingSession {
+  /** Режим торгов */
+  BOARDID: string;
+  /** Название режима торгов */
+  BOARD_TITLE: string | null;
+  /** 1 — основной режим торгов */
+  IS_PRIMARY: number | null;
+}
+
+/**
+ * День недельного расписания торговой системы (блок timetable)
+ */
+export interface EngineTimetableDay {
+  /** День недели: 1 — понедельник, 7 — воскресенье */
+  week_day: number;
+  /** 1 — торговый день */
+  is_work_day: number;
+  /** Начало торгов по московскому времени 'HH:MM:SS' */
+  start_time: string | null;
+  /** Окончание торгов по московскому времени 'HH:MM:SS' */
+  stop_time: string | null;
+}
+
+/**
+ * Расписание торговой системы на конкретную дату, отличающееся от недельного (блок dailytable)
+ */
+export interface EngineDailyTableDay {
+  /** Дата 'YYYY-MM-DD' */
+  date: string;
+  /** 1 — торговый день */
+  is_work_day: number;
+  start_time: string | null;
+  stop_time: string | null;
+}
+
+/**
+ * Расписание торговой системы или рынка
+ */
+export interface EngineSchedule {
+  timetable: EngineTimetableDay[];
+  dailytable: EngineDailyTableDay[];
+}
+
+/**
+ * День календаря ISS, отличающийся от обычной рабочей недели:
+ * праздник в будни или рабочая суббота (блок off_days)
+ */
+export interface CalendarDay {
+  /** Дата 'YYYY-MM-DD' */
+  tradedate: string;
+  /** Идут ли в этот день торги в торговой системе */
+  isTraded: boolean;
+}
+
+/**
+ * Точное десятичное значение цены в виде строки с DECIMALS знаками после точки, например '270.50'
+ */
+export type Decimal = string;
+
+/**
+ * Поля дат, которые в нормализованном виде становятся Date на полночь по московскому времени
+ */
+export type NormalizedDateField =
+  | 'PREVDATE'
+  | 'SETTLEDATE'
+  | 'NEXTCOUPON'
+  | 'MATDATE'
+  | 'OFFERDATE'
+  | 'BUYBACKDATE'
+  | 'LASTTRADEDATE'
+  | 'LASTDELDATE'
+  | 'TRADEDATE';
+
+/**
+ * Поля времени, которые в нормализованном виде объединяются с датой торгов в Date
+ */
+export type NormalizedTimestampField = 'SYSTIME' | 'TIME' | 'UPDATETIME' | 'ISSUECAPITALIZATION_UPDATETIME';
+
+/**
+ * Поля цен, которые в нормализованном виде становятся Decimal с точностью DECIMALS
+ */
+export type NormalizedPriceField =
+  | 'PREVPRICE'
+  | 'PREVWAPRICE'
+  | 'PREVLEGALCLOSEPRICE'
+  | 'PREVSETTLEPRICE'
+  | 'LASTSETTLEPRICE'
+  | 'HIGHLIMIT'
+  | 'LOWLIMIT'
+  | 'MINSTEP'
+  | 'BID'
+  | 'OFFER'
+  | 'SPREAD'
+  | 'OPEN'
+  | 'LOW'
+  | 'HIGH'
+  | 'LAST'
+  | 'LASTCHANGE'
+  | 'WAPRICE'
+  | 'CLOSEPRICE'
+  | 'MARKETPRICE'
+  | 'MARKETPRICETODAY'
+  | 'MARKETPRICE2'
+  | 'LCURRENTPRICE'
+  | 'LCLOSEPRICE'
+  | 'ADMITTEDQUOTE'
+  | 'LASTBID'
+  | 'LASTOFFER'
+  | 'HIGHBID'
+  | 'LOWOFFER'
+  | 'OPENPERIODPRICE'
+  | 'CHANGE'
+  | 'PRICEMINUSPREVWAPRICE'
+  | 'LASTCNGTOLASTWAPRICE'
+  | 'WAPTOPREVWAPRICE'
+  | 'CLOSINGAUCTIONPRICE'
+  | 'SETTLEPRICE'
+  | 'SETTLETOPREVSETTLE';
+
+/**
+ * Нормализованная строка ISS: даты и время — Date по московскому времени, цены — Decimal.
+ * Остальные поля не меняются, допустимость null сохраняется
+ */
+export type Normalized<T> = {
+  [K in keyof T]: K extends NormalizedDateField | NormalizedTimestampField
+    ? Date | Extract<T[K], null>
+    : K extends NormalizedPriceField
+      ? Decimal | Extract<T[K], null>
+      : T[K];
+};
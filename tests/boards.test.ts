@@ -0,0 +1,132 @@
+// Tests for board-level endpoints and primary board resolution (injected transport, no network)
+import { MoexClient, FetchLike } from '../src/moex-client';
+import { Board, Engine, Market } from '../src/types';
+import { ok, mockClient } from './helpers';
+
+const BOARD_COLUMNS = [
+  'secid', 'boardid', 'title', 'board_group_id', 'market_id', 'market', 'engine_id', 'engine', 'is_traded',
+  'decimals', 'history_from', 'history_till', 'listed_from', 'listed_till', 'is_primary', 'currencyid'
+];
+
+const boardsResponse = (rows: Array<[string, string, string, number]>) => ok({
+  description: {
+    columns: ['name', 'title', 'value', 'type', 'sort_order', 'is_hidden', 'precision'],
+    data: [['SECID', 'Код ценной бумаги', 'SBER', 'string', 1, 0, null]]
+  },
+  boards: {
+    columns: BOARD_COLUMNS,
+    data: rows.map(([boardid, engine, market, isPrimary]) => [
+      'SBER', boardid, `${boardid} title`, 57, 1, market, 1, engine, 1,
+      2, '2013-03-25', '2024-01-10', '1997-06-18', '2024-01-10', isPrimary, 'RUB'
+    ])
+  }
+});
+
+const marketDataResponse = (boardid: string, last: number) => ok({
+  marketdata: {
+    columns: ['SECID', 'BOARDID', 'LAST'],
+    data: [['SBER', boardid, last]]
+  }
+});
+
+describe('board-level endpoints', () => {
+  let mockFetch: jest.MockedFunction<FetchLike>;
+  let client: MoexClient;
+
+  beforeEach(() => {
+    ({ client, fetch: mockFetch } = mockClient());
+  });
+
+  describe('getBoardMarketData', () => {
+    it('should request market data for the given board', async () => {
+      mockFetch.mockResolvedValueOnce(marketDataResponse('TQBR', 270));
+
+      const result = await client.getBoardMarketData('SBER', Board.TQBR);
+
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        'https://iss.moex.com/iss/engines/stock/markets/shares/boards/TQBR/securities/SBER.json?iss.meta=off&iss.only=marketdata'
+      );
+      expect(result).toEqual({ SECID: 'SBER', BOARDID: 'TQBR', LAST: 270 });
+    });
+
+    it('should return null when the security is not traded on the board', async () => {
+      mockFetch.mockResolvedValueOnce(ok({ marketdata: { columns: ['SECID'], data: [] } }));
+
+      await expect(client.getBoardMarketData('SBER', Board.TQOB, Engine.STOCK, Market.BONDS)).resolves.toBeNull();
+    });
+  });
+
+  describe('getBoardSecurities', () => {
+    it('should page through securities of the board', async () => {
+      mockFetch
+        .mockResolvedValueOnce(ok({ securities: { columns: ['SECID', 'BOARDID'], data: [['A', 'TQTF'], ['B', 'TQTF']] } }))
+        .mockResolvedValueOnce(ok({ securities: { columns: ['SECID', 'BOARDID'], data: [['C', 'TQTF']] } }));
+
+      const result = await client.getBoardSecurities(Board.TQTF, Engine.STOCK, Market.SHARES, { pageSize: 2 });
+
+      expect(mockFetch.mock.calls[0][0]).toContain('/engines/stock/markets/shares/boards/TQTF/securities.json?iss.meta=off&iss.only=securities&securities.columns=');
+      expect(mockFetch.mock.calls[1][0]).toContain('&start=2&limit=2');
+      expect(result.map(s => s.SECID)).toEqual(['A', 'B', 'C']);
+    });
+  });
+
+  describe('resolvePrimaryBoard', () => {
+    it('should return the board flagged as primary', async () => {
+      mockFetch.mockResolvedValueOnce(boardsResponse([
+        ['SMAL', 'stock', 'shares', 0],
+        ['TQBR', 'stock', 'shares', 1],
+        ['SPEQ', 'stock', 'shares', 0]
+      ]));
+
+      const board = await client.resolvePrimaryBoard('SBER');
+
+      expect(mockFetch.mock.calls[0][0]).toBe('https://iss.moex.com/iss/securities/SBER.json?iss.meta=off&iss.only=description,boards');
+      expect(board).toMatchObject({ secid: 'SBER', boardid: 'TQBR', engine: 'stock', market: 'shares', is_primary: 1 });
+    });
+
+    it('should return null when no board is flagged as primary', async () => {
+      mockFetch.mockResolvedValueOnce(boardsResponse([['SMAL', 'stock', 'shares', 0]]));
+
+      await expect(client.resolvePrimaryBoard('SBER')).resolves.toBeNull();
+    });
+  });
+
+  describe('getSecurityBoards', () => {
+    it('should request only the boards block', async () => {
+      mockFetch.mockResolvedValueOnce(boardsResponse([['TQBR', 'stock', 'shares', 1]]));
+
+      const boards = await client.getSecurityBoards('SBER');
+
+      expect(mockFetch.mock.calls[0][0]).toBe('https://iss.moex.com/iss/securities/SBER.json?iss.meta=off&iss.only=boards');
+      expect(boards.map(b => b.boardid)).toEqual(['TQBR']);
+    });
+
+    it('should encode the security code in the path', async () => {
+      mockFetch.mockResolvedValueOnce(boardsResponse([]));
+
+      await client.getSecurityBoards('RU000A/0JX0J2');
+
+      expect(mockFetch.mock.calls[0][0]).toBe('https://iss.moex.com/iss/securities/RU000A%2F0JX0J2.json?iss.meta=off&iss.only=boards');
+    });
+  });
+
+  describe('getPrimaryMarketData', () => {
+    it('should fetch market data on the primary board', async () => {
+      mockFetch
+        .mockResolvedValueOnce(boardsResponse([['SMAL', 'stock', 'shares', 0], ['TQBR', 'stock', 'shares', 1]]))
+        .mockResolvedValueOnce(marketDataResponse('TQBR', 270));
+
+      const result = await client.getPrimaryMarketData('SBER');
+
+      expect(mockFetch.mock.calls[1][0]).toContain('/engines/stock/markets/shares/boards/TQBR/securities/SBER.json');
+      expect(result?.BOARDID).toBe('TQBR');
+    });
+
+    it('should return null without requesting market data when there is no primary board', async () => {
+      mockFetch.mockResolvedValueOnce(boardsResponse([]));
+
+      await expect(client.getPrimaryMarketData('SBER')).resolves.toBeNull();
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+});
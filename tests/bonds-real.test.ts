@@ -0,0 +1,79 @@
+// Real API check of the bond calculator against ACCRUEDINT, YIELD and DURATION published by ISS
+// for an OFZ and a fixed-coupon corporate bond.
+// Tolerances: ACCRUEDINT — 0.01 (one kopeck), YIELD — 0.05 p.p., DURATION — 2 days.
+// Runs only with USE_REAL_API=true (npm run test:real)
+import { MoexClient } from '../src/moex-client';
+import { accruedInterest, bondRisk, yieldToMaturity } from '../src/bond-calculator';
+import { BondsMarketData, BondsSecurity, Bondization, Engine, Market } from '../src/types';
+
+const USE_REAL_API = process.env.USE_REAL_API === 'true';
+
+const ACCRUED_TOLERANCE = 0.01;
+const YIELD_TOLERANCE = 0.05;
+const DURATION_TOLERANCE_DAYS = 2;
+
+const OFZ = { secid: 'SU26238RMFS4', board: 'TQOB' };
+const CORPORATE_BOARD = 'TQCB';
+const MAX_CORPORATE_CANDIDATES = 20;
+
+interface IssBondValues {
+  security: BondsSecurity;
+  marketData: BondsMarketData | null;
+  bondization: Bondization;
+}
+
+(USE_REAL_API ? describe : describe.skip)('bond calculator against ISS (Real API)', () => {
+  const client = new MoexClient({ rateLimit: { maxConcurrent: 1, requestsPerSecond: 5 } });
+  let securities: BondsSecurity[];
+
+  beforeAll(async () => {
+    securities = await client.getAllSecurities(Engine.STOCK, Market.BONDS);
+  }, 60000);
+
+  const load = async (security: BondsSecurity): Promise<IssBondValues> => ({
+    security,
+    marketData: await client.getBoardMarketData(security.SECID, security.BOARDID, Engine.STOCK, Market.BONDS),
+    bondization: await client.getBondization(security.SECID)
+  });
+
+  const check = ({ security, marketData, bondization }: IssBondValues) => {
+    const settlement = security.SETTLEDATE;
+
+    expect(Math.abs(accruedInterest(bondization, settlement) - security.ACCRUEDINT!)).toBeLessThanOrEqual(ACCRUED_TOLERANCE);
+
+    // YIELD and DURATION are published for the last trade only: before the first trade they are not checked
+    if (!marketData || marketData.LAST === null || marketData.YIELD === null || marketData.DURATION === null) {
+      return;
+    }
+    const yieldPercent = yieldToMaturity(bondization, marketData.LAST, settlement);
+    const { macaulayDuration } = bondRisk(bondization, marketData.YIELD, settlement);
+
+    expect(Math.abs(yieldPercent - marketData.YIELD)).toBeLessThanOrEqual(YIELD_TOLERANCE);
+    expect(Math.abs(macaulayDuration * 365 - marketData.DURATION)).toBeLessThanOrEqual(DURATION_TOLERANCE_DAYS);
+  };
+
+  it(`should match ISS for OFZ ${OFZ.secid}`, async () => {
+    const security = securities.find(item => item.SECID === OFZ.secid && item.BOARDID === OFZ.board);
+    expect(security).toBeDefined();
+
+    check(await load(security!));
+  }, 30000);
+
+  it('should match ISS for a fixed-coupon corporate bond', async () => {
+    // Floating coupons and offers make ISS values depend on assumptions, so only fixed bullet bonds are taken
+    const candidates = securities
+      .filter(item => item.BOARDID === CORPORATE_BOARD && item.FACEUNIT === 'SUR')
+      .filter(item => item.COUPONPERCENT !== null && item.ACCRUEDINT !== null && item.OFFERDATE === null)
+      .slice(0, MAX_CORPORATE_CANDIDATES);
+
+    for (const security of candidates) {
+      const values = await load(security);
+      const fixed = values.bondization.coupons.every(coupon => coupon.value !== null);
+      if (fixed && values.bondization.amortizations.length === 1 && values.marketData?.YIELD != null) {
+        check(values);
+        return;
+      }
+    }
+    throw new Error(`No traded fixed-coupon bond among the first ${candidates.length} candidates on ${CORPORATE_BOARD}`);
+  }, 120000);
+});
@@ -0,0 +1,197 @@
+// Tests for getBondization and the bond calculator (injected transport, no network).
+// Reference values are analytic (textbook par bond, zero-coupon bond, MOEX accrued interest formula)
+import { MoexClient, FetchLike } from '../src/moex-client';
+import {
+  accruedInterest,
+  bondCashFlows,
+  bondRisk,
+  outstandingFace,
+  priceFromYield,
+  yieldToMaturity
+} from '../src/bond-calculator';
+import { BondAmortization, BondCoupon, Bondization } from '../src/types';
+import { ok, mockClient } from './helpers';
+
+const coupon = (startdate: string, coupondate: string, value: number | null, facevalue = 1000): BondCoupon => ({
+  isin: 'RU000A0TEST0',
+  name: 'Test bond',
+  issuevalue: 1000000,
+  coupondate,
+  recorddate: null,
+  startdate,
+  initialfacevalue: 1000,
+  facevalue,
+  faceunit: 'RUB',
+  value,
+  valueprc: null,
+  value_rub: value,
+  secid: 'TEST',
+  primary_boardid: 'TQCB'
+});
+
+const amortization = (amortdate: string, value: number): BondAmortization => ({
+  isin: 'RU000A0TEST0',
+  name: 'Test bond',
+  issuevalue: 1000000,
+  amortdate,
+  facevalue: 1000,
+  initialfacevalue: 1000,
+  faceunit: 'RUB',
+  valueprc: value / 10,
+  value,
+  value_rub: value,
+  data_source: 'maturity',
+  secid: 'TEST',
+  primary_boardid: 'TQCB'
+});
+
+// Three annual 10% coupons over 365-day periods, redeemed at par
+const parBond: Bondization = {
+  coupons: [
+    coupon('2021-01-01', '2022-01-01', 100),
+    coupon('2022-01-01', '2023-01-01', 100),
+    coupon('2023-01-01', '2024-01-01', 100)
+  ],
+  amortizations: [amortization('2024-01-01', 1000)],
+  offers: []
+};
+
+describe('bond calculator', () => {
+  describe('accruedInterest', () => {
+    // OFZ 26238: 35.40 RUB semi-annual coupon over a 182-day period
+    const ofz: Bondization = {
+      coupons: [coupon('2023-11-22', '2024-05-22', 35.4), coupon('2024-05-22', '2024-11-20', 35.4)],
+      amortizations: [amortization('2024-11-20', 1000)],
+      offers: []
+    };
+
+    it('should accrue the coupon pro rata to elapsed days', () => {
+      expect(accruedInterest(ofz, '2024-02-21')).toBe(17.7);
+      expect(accruedInterest(ofz, '2024-01-10')).toBe(9.53);
+    });
+
+    it('should be zero on the coupon start date and outside coupon periods', () => {
+      expect(accruedInterest(ofz, '2024-05-22')).toBe(0);
+      expect(accruedInterest(ofz, '2025-01-01')).toBe(0);
+    });
+
+    it('should take Date settlement in Moscow time', () => {
+      expect(accruedInterest(ofz, new Date('2024-02-20T21:30:00Z'))).toBe(17.7);
+    });
+  });
+
+  describe('bondCashFlows', () => {
+    it('should combine coupons and amortizations after settlement', () => {
+      expect(bondCashFlows(parBond, '2022-06-01')).toEqual([
+        { date: '2023-01-01', coupon: 100, principal: 0, amount: 100 },
+        { date: '2024-01-01', coupon: 100, principal: 1000, amount: 1100 }
+      ]);
+    });
+
+    it('should repeat the last known coupon for undeclared floating coupons', () => {
+      const floater: Bondization = { ...parBond, coupons: [parBond.coupons[0], coupon('2022-01-01', '2023-01-01', null)] };
+
+      expect(bondCashFlows(floater, '2021-06-01').map(flow => flow.coupon)).toEqual([100, 100, 0]);
+    });
+
+    it('should redeem the outstanding face on the redemption date', () => {
+      expect(bondCashFlows(parBond, '2021-06-01', { redemptionDate: '2023-01-01' })).toEqual([
+        { date: '2022-01-01', coupon: 100, principal: 0, amount: 100 },
+        { date: '2023-01-01', coupon: 100, principal: 1000, amount: 1100 }
+      ]);
+    });
+
+    it('should track outstanding face of an amortizing bond', () => {
+      const amortizing: Bondization = {
+        coupons: [coupon('2021-01-01', '2022-01-01', 100), coupon('2022-01-01', '2023-01-01', 50, 500)],
+        amortizations: [amortization('2022-01-01', 500), amortization('2023-01-01', 500)],
+        offers: []
+      };
+
+      expect(outstandingFace(amortizing, '2021-06-01')).toBe(1000);
+      expect(outstandingFace(amortizing, '2022-06-01')).toBe(500);
+      expect(bondCashFlows(amortizing, '2021-06-01').map(flow => flow.amount)).toEqual([600, 550]);
+    });
+  });
+
+  describe('yield and price', () => {
+    it('should price a par bond at 100 when yield equals the coupon rate', () => {
+      expect(priceFromYield(parBond, 10, '2021-01-01')).toBeCloseTo(100, 10);
+      expect(yieldToMaturity(parBond, 100, '2021-01-01')).toBeCloseTo(10, 8);
+    });
+
+    it('should round-trip price and yield between coupon dates', () => {
+      const price = priceFromYield(parBond, 12.5, '2022-03-15');
+
+      expect(price).toBeLessThan(100);
+      expect(yieldToMaturity(parBond, price, '2022-03-15')).toBeCloseTo(12.5, 8);
+    });
+
+    it('should discount a zero-coupon bond by effective annual yield', () => {
+      const zero: Bondization = { coupons: [], amortizations: [amortization('2024-01-01', 1000)], offers: [] };
+
+      // 1000 / 1.08^2 over two 365-day years
+      expect(priceFromYield(zero, 8, '2022-01-01')).toBeCloseTo(85.7338820302, 8);
+    });
+
+    it('should throw when there are no cash flows left', () => {
+      expect(() => yieldToMaturity(parBond, 100, '2024-06-01')).toThrow('No bond cash flows after settlement date');
+    });
+  });
+
+  describe('bondRisk', () => {
+    it('should match textbook duration and convexity of a 3-year 10% par bond', () => {
+      const risk = bondRisk(parBond, 10, '2021-01-01');
+
+      expect(risk.macaulayDuration).toBeCloseTo(2.735537, 6);
+      expect(risk.modifiedDuration).toBeCloseTo(2.735537 / 1.1, 6);
+      expect(risk.convexity).toBeCloseTo(8.756232, 6);
+    });
+
+    it('should equal time to maturity for a zero-coupon bond', () => {
+      const zero: Bondization = { coupons: [], amortizations: [amortization('2024-01-01', 1000)], offers: [] };
+      const risk = bondRisk(zero, 8, '2022-01-01');
+
+      expect(risk.macaulayDuration).toBeCloseTo(2, 10);
+      expect(risk.convexity).toBeCloseTo(2 * 3 / (1.08 * 1.08), 10);
+    });
+  });
+});
+
+describe('getBondization', () => {
+  let mockFetch: jest.MockedFunction<FetchLike>;
+  let client: MoexClient;
+
+  beforeEach(() => {
+    ({ client, fetch: mockFetch } = mockClient());
+  });
+
+  it('should request all schedule blocks and map them', async () => {
+    mockFetch.mockResolvedValueOnce(ok({
+      coupons: {
+        columns: ['isin', 'coupondate', 'startdate', 'facevalue', 'value', 'valueprc'],
+        data: [['RU000A1038V6', '2024-05-22', '2023-11-22', 1000, 35.4, 7.1]]
+      },
+      amortizations: {
+        columns: ['isin', 'amortdate', 'facevalue', 'value'],
+        data: [['RU000A1038V6', '2041-05-15', 1000, 1000]]
+      },
+      offers: { columns: ['isin', 'offerdate'], data: [] }
+    }));
+
+    const result = await client.getBondization('SU26238RMFS4');
+
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      'https://iss.moex.com/iss/securities/SU26238RMFS4/bondization.json?iss.meta=off&iss.only=coupons,amortizations,offers&limit=unlimited'
+    );
+    expect(result.coupons[0]).toMatchObject({ coupondate: '2024-05-22', value: 35.4, valueprc: 7.1 });
+    expect(result.amortizations[0].amortdate).toBe('2041-05-15');
+    expect(result.offers).toEqual([]);
+  });
+
+  it('should return empty schedules for non-bonds', async () => {
+    mockFetch.mockResolvedValueOnce(ok({}));
+
+    await expect(client.getBondization('SBER')).resolves.toEqual({ coupons: [], amortizations: [], offers: [] });
+  });
+});
@@ -0,0 +1,187 @@
+// Tests for cache stores and MoexClient response caching (injected transport, no network)
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MemoryCacheStore, FileCacheStore, CacheEntry } from '../src/cache';
+import { MoexClient, FetchLike } from '../src/moex-client';
+import { ok } from './helpers';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const entry = (value: unknown): CacheEntry => ({ value, storedAt: 0, expiresAt: 1 });
+
+const sessionsResponse = (boardid: string) => ok({ sessions: { columns: ['BOARDID'], data: [[boardid]] } });
+
+describe('MemoryCacheStore', () => {
+  it('should store and delete entries', async () => {
+    const store = new MemoryCacheStore();
+
+    await store.set('a', entry(1));
+    expect(await store.get('a')).toEqual(entry(1));
+
+    await store.delete('a');
+    expect(await store.get('a')).toBeUndefined();
+  });
+
+  it('should evict least recently used entry', async () => {
+    const store = new MemoryCacheStore({ maxEntries: 2 });
+
+    await store.set('a', entry(1));
+    await store.set('b', entry(2));
+    await store.get('a');
+    await store.set('c', entry(3));
+
+    expect(await store.get('a')).toBeDefined();
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.get('c')).toBeDefined();
+  });
+});
+
+describe('FileCacheStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'iss-moex-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should persist entries across store instances', async () => {
+    await new FileCacheStore({ directory }).set('https://iss/x.json?a=1', entry({ rows: [1, 2] }));
+
+    const store = new FileCacheStore({ directory });
+    expect(await store.get('https://iss/x.json?a=1')).toEqual(entry({ rows: [1, 2] }));
+    expect(await store.get('https://iss/other.json')).toBeUndefined();
+  });
+
+  it('should keep concurrent writes of one key whole', async () => {
+    const store = new FileCacheStore({ directory });
+    const rows = (n: number) => Array.from({ length: 5000 }, () => n);
+
+    await Promise.all([1, 2, 3, 4, 5].map(n => store.set('same', entry(rows(n)))));
+
+    const stored = (await store.get('same'))!.value as number[];
+    expect(stored).toHaveLength(5000);
+    expect(new Set(stored).size).toBe(1);
+    expect(await fs.readdir(directory)).toHaveLength(1);
+  });
+
+  it('should delete and clear entries', async () => {
+    const store = new FileCacheStore({ directory });
+    await store.set('a', entry(1));
+    await store.set('b', entry(2));
+
+    await store.delete('a');
+    expect(await store.get('a')).toBeUndefined();
+
+    await store.clear();
+    expect(await store.get('b')).toBeUndefined();
+    expect(await fs.readdir(directory)).toEqual([]);
+  });
+});
+
+describe('MoexClient cache', () => {
+  let mockFetch: jest.MockedFunction<FetchLike>;
+
+  beforeEach(() => {
+    mockFetch = jest.fn();
+  });
+
+  it('should not cache without configured store', async () => {
+    mockFetch.mockResolvedValue(sessionsResponse('TQBR'));
+    const client = new MoexClient({ fetch: mockFetch, validateRoutes: false });
+
+    await client.getTradingSessions();
+    await client.getTradingSessions();
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should serve reference data from cache', async () => {
+    mockFetch.mockResolvedValueOnce(sessionsResponse('TQBR'));
+    const client = new MoexClient({ fetch: mockFetch, validateRoutes: false, cache: { store: new MemoryCacheStore() } });
+
+    const first = await client.getTradingSessions();
+    const second = await client.getTradingSessions();
+
+    expect(second).toEqual(first);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should bypass cache per call and store the fresh response', async () => {
+    mockFetch
+      .mockResolvedValueOnce(sessionsResponse('TQBR'))
+      .mockResolvedValueOnce(sessionsResponse('TQTF'));
+    const client = new MoexClient({ fetch: mockFetch, validateRoutes: false, cache: { store: new MemoryCacheStore() } });
+
+    await client.getTradingSessions();
+    const fresh = await client.getTradingSessions(undefined, undefined, { cache: false });
+    const cached = await client.getTradingSessions();
+
+    expect(fresh).toEqual([{ BOARDID: 'TQTF' }]);
+    expect(cached).toEqual([{ BOARDID: 'TQTF' }]);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should apply per-category TTL overrides', async () => {
+    mockFetch
+      .mockResolvedValueOnce(sessionsResponse('TQBR'))
+      .mockResolvedValueOnce(sessionsResponse('TQTF'));
+    const client = new MoexClient({
+      fetch: mockFetch,
+      validateRoutes: false,
+      cache: { store: new MemoryCacheStore(), ttl: { reference: 20 } }
+    });
+
+    await client.getTradingSessions();
+    await delay(30);
+    const result = await client.getTradingSessions();
+
+    expect(result).toEqual([{ BOARDID: 'TQTF' }]);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should never cache trades by default', async () => {
+    const trades = { ok: true, status: 200, json: async () => ({ trades: { columns: ['TRADENO'], data: [[1]] } }) };
+    mockFetch.mockResolvedValue(trades);
+    const client = new MoexClient({ fetch: mockFetch, validateRoutes: false, cache: { store: new MemoryCacheStore() } });
+
+    await client.getTrades('SBER');
+    await client.getTrades('SBER');
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should serve stale entry and revalidate in background', async () => {
+    mockFetch
+      .mockResolvedValueOnce(sessionsResponse('TQBR'))
+      .mockResolvedValueOnce(sessionsResponse('TQTF'));
+    const client = new MoexClient({
+      fetch: mockFetch,
+      validateRoutes: false,
+      cache: { store: new MemoryCacheStore(), ttl: { reference: 100 }, staleWhileRevalidate: 60000 }
+    });
+
+    await client.getTradingSessions();
+    await delay(150);
+    const stale = await client.getTradingSessions();
+    await delay(5);
+    const revalidated = await client.getTradingSessions();
+
+    expect(stale).toEqual([{ BOARDID: 'TQBR' }]);
+    expect(revalidated).toEqual([{ BOARDID: 'TQTF' }]);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not cache failed responses', async () => {
+    mockFetch
+      .mockResolvedValueOnce({ ok: false, status: 500, json: async () => ({}) })
+      .mockResolvedValueOnce(sessionsResponse('TQBR'));
+    const client = new MoexClient({ fetch: mockFetch, validateRoutes: false, cache: { store: new MemoryCacheStore() } });
+
+    await expect(client.getTradingSessions()).rejects.toThrow('HTTP error! status: 500');
+    expect(await client.getTradingSessions()).toEqual([{ BOARDID: 'TQBR' }]);
+  });
+});
@@ -0,0 +1,188 @@
+// Tests for the trading calendar and market hours in Moscow time (injected transport, no network)
+import { MoexClient, FetchLike } from '../src/moex-client';
+import { TradingCalendar, moscowDate, moscowTime } from '../src/calendar';
+import { EngineSchedule, Engine, Market } from '../src/types';
+import { ok, mockClient } from './helpers';
+
+const TIMETABLE = [1, 2, 3, 4, 5, 6, 7].map(day => [day, day <= 5 ? 1 : 0, '06:50:00', '23:50:00']);
+
+const engineResponse = (dailytable: unknown[][] = [], timetable: unknown[][] = TIMETABLE) => ok({
+  timetable: { columns: ['week_day', 'is_work_day', 'start_time', 'stop_time'], data: timetable },
+  dailytable: { columns: ['date', 'is_work_day', 'start_time', 'stop_time'], data: dailytable }
+});
+
+// Bonds trade the main session only
+const BONDS_TIMETABLE = [1, 2, 3, 4, 5, 6, 7].map(day => [day, day <= 5 ? 1 : 0, '09:50:00', '18:50:00']);
+
+const calendarResponse = ok({
+  off_days: {
+    columns: ['tradedate', 'stock_workday', 'futures_workday', 'currency_workday'],
+    data: [
+      ['2024-03-08', 0, 0, 0],
+      ['2024-04-27', 1, 0, 1]
+    ]
+  }
+});
+
+const schedule: EngineSchedule = {
+  timetable: TIMETABLE.map(([week_day, is_work_day, start_time, stop_time]) => ({
+    week_day: week_day as number,
+    is_work_day: is_work_day as number,
+    start_time: start_time as string,
+    stop_time: stop_time as string
+  })),
+  dailytable: [{ date: '2024-12-31', is_work_day: 1, start_time: '10:00:00', stop_time: '14:00:00' }]
+};
+
+describe('TradingCalendar', () => {
+  const calendar = new TradingCalendar(schedule, [
+    { tradedate: '2024-03-08', isTraded: false },
+    { tradedate: '2024-04-27', isTraded: true }
+  ]);
+
+  it('should use the weekly timetable, calendar exceptions and the daily table', () => {
+    expect(calendar.isTradingDay('2024-03-15')).toBe(true);
+    expect(calendar.isTradingDay('2024-03-16')).toBe(false);
+    expect(calendar.isTradingDay('2024-03-08')).toBe(false);
+    expect(calendar.isTradingDay('2024-04-27')).toBe(true);
+    expect(calendar.tradingHours('2024-12-31')).toEqual({ start: '10:00:00', stop: '14:00:00' });
+    expect(calendar.tradingHours('2024-04-27')).toEqual({ start: '06:50:00', stop: '23:50:00' });
+    expect(calendar.tradingHours('2024-03-16')).toBeNull();
+  });
+
+  it('should check market hours in Moscow time', () => {
+    expect(calendar.isOpen(new Date('2024-03-15T03:49:59Z'))).toBe(false);
+    expect(calendar.isOpen(new Date('2024-03-15T03:50:00Z'))).toBe(true);
+    expect(calendar.isOpen(new Date('2024-03-15T20:49:59Z'))).toBe(true);
+    // 00:30 on Saturday in Moscow, still Friday in UTC
+    expect(calendar.isOpen(new Date('2024-03-15T21:30:00Z'))).toBe(false);
+    expect(calendar.isOpen(new Date('2024-12-31T11:30:00Z'))).toBe(false);
+  });
+
+  it('should not depend on the host time zone', () => {
+    const tz = process.env.TZ;
+    process.env.TZ = 'America/New_York';
+    try {
+      const moment = new Date('2024-03-15T21:30:00Z');
+      expect(moscowDate(moment)).toBe('2024-03-16');
+      expect(moscowTime(moment)).toBe('00:30:00');
+      expect(calendar.isTradingDay(moment)).toBe(false);
+    } finally {
+      process.env.TZ = tz;
+    }
+  });
+
+  it('should find the next and previous trading days across holidays and weekends', () => {
+    expect(calendar.nextTradingDay('2024-03-07')).toBe('2024-03-11');
+    expect(calendar.previousTradingDay('2024-03-11')).toBe('2024-03-07');
+    expect(calendar.nextTradingDay('2024-04-26')).toBe('2024-04-27');
+  });
+
+  it('should list trading days of a period including its bounds', () => {
+    expect(calendar.tradingDaysBetween('2024-03-04', '2024-03-10')).toEqual([
+      '2024-03-04', '2024-03-05', '2024-03-06', '2024-03-07'
+    ]);
+    expect(calendar.tradingDaysBetween('2024-03-10', '2024-03-04')).toEqual([]);
+  });
+});
+
+describe('calendar requests', () => {
+  let mockFetch: jest.MockedFunction<FetchLike>;
+  let client: MoexClient;
+
+  beforeEach(() => {
+    ({ client, fetch: mockFetch } = mockClient());
+    mockFetch.mockImplementation(async url => url.includes('/calendars.json') ? calendarResponse : engineResponse());
+  });
+
+  it('should request the engine timetable and the ISS calendar', async () => {
+    await expect(client.isTradingDay('2024-03-08')).resolves.toBe(false);
+
+    const urls = mockFetch.mock.calls.map(call => call[0]);
+    expect(urls).toEqual([
+      'https://iss.moex.com/iss/engines/stock.json?iss.meta=off&iss.only=timetable,dailytable',
+      'https://iss.moex.com/iss/calendars.json?iss.meta=off&iss.only=off_days&from=2024-03-08&till=2024-03-08'
+    ]);
+  });
+
+  it('should load the engine timetable once', async () => {
+    await client.isTradingDay('2024-03-08');
+    await client.isTradingDay('2024-03-11');
+
+    const engineCalls = mockFetch.mock.calls.filter(call => call[0].includes('/engines/stock.json'));
+    expect(engineCalls).toHaveLength(1);
+  });
+
+  it('should read the calendar column of the engine', async () => {
+    await expect(client.isTradingDay('2024-04-27', Engine.FUTURES)).resolves.toBe(false);
+    await expect(client.isTradingDay('2024-04-27', Engine.CURRENCY)).resolves.toBe(true);
+  });
+
+  it('should search the next trading day in the following month', async () => {
+    await expect(client.nextTradingDay('2024-03-07')).resolves.toBe('2024-03-11');
+
+    expect(mockFetch.mock.calls[1][0]).toContain('&from=2024-03-08&till=2024-04-07');
+  });
+
+  it('should check whether the market is open now', async () => {
+    await expect(client.isMarketOpen(new Date('2024-03-15T07:00:00Z'))).resolves.toBe(true);
+    await expect(client.isMarketOpen(new Date('2024-03-08T07:00:00Z'))).resolves.toBe(false);
+  });
+
+  it('should check market hours by the schedule of the market', async () => {
+    mockFetch.mockImplementation(async url => {
+      if (url.includes('/calendars.json')) {
+        return calendarResponse;
+      }
+      return url.includes('/markets/bonds.json') ? engineResponse([], BONDS_TIMETABLE) : engineResponse();
+    });
+    // 20:00 in Moscow: the evening session of the engine, bonds are closed
+    const evening = new Date('2024-03-15T17:00:00Z');
+
+    await expect(client.isMarketOpen(evening, Engine.STOCK)).resolves.toBe(true);
+    await expect(client.isMarketOpen(evening, Engine.STOCK, Market.BONDS)).resolves.toBe(false);
+    await expect(client.isMarketOpen(new Date('2024-03-15T07:00:00Z'), Engine.STOCK, Market.BONDS)).resolves.toBe(true);
+
+    const urls = mockFetch.mock.calls.map(call => call[0]);
+    expect(urls).toContain('https://iss.moex.com/iss/engines/stock/markets/bonds.json?iss.meta=off&iss.only=timetable,dailytable');
+    expect(urls.filter(url => url.includes('/markets/bonds.json'))).toHaveLength(1);
+  });
+
+  it('should fall back to the engine schedule when the market has none', async () => {
+    mockFetch.mockImplementation(async url => {
+      if (url.includes('/calendars.json')) {
+        return calendarResponse;
+      }
+      return url.includes('/markets/') ? ok({}) : engineResponse();
+    });
+
+    await expect(client.isMarketOpen(new Date('2024-03-15T17:00:00Z'), Engine.STOCK, Market.SHARES)).resolves.toBe(true);
+
+    const urls = mockFetch.mock.calls.map(call => call[0]);
+    expect(urls).toContain('https://iss.moex.com/iss/engines/stock/markets/shares.json?iss.meta=off&iss.only=timetable,dailytable');
+    expect(urls).toContain('https://iss.moex.com/iss/engines/stock.json?iss.meta=off&iss.only=timetable,dailytable');
+  });
+
+  it('should return trading days between two dates', async () => {
+    await expect(client.tradingDaysBetween('2024-03-07', '2024-03-11')).resolves.toEqual(['2024-03-07', '2024-03-11']);
+  });
+
+  it('should return typed trading sessions', async () => {
+    mockFetch.mockResolvedValueOnce(ok({
+      sessions: { columns: ['BOARDID', 'BOARD_TITLE', 'IS_PRIMARY'], data: [['TQBR', 'Т+: Акции и ДР', 1]] }
+    }));
+
+    const [session] = await client.getTradingSessions();
+
+    expect(session.BOARDID).toBe('TQBR');
+    expect(session.IS_PRIMARY).toBe(1);
+  });
+
+  it('should coerce trading sessions by the schema', async () => {
+    mockFetch.mockResolvedValueOnce(ok({
+      sessions: { columns: ['BOARDID', 'BOARD_TITLE', 'IS_PRIMARY'], data: [['TQTF', null, '0']] }
+    }));
+
+    await expect(client.getTradingSessions()).resolves.toEqual([{ BOARDID: 'TQTF', BOARD_TITLE: null, IS_PRIMARY: 0 }]);
+  });
+});
@@ -0,0 +1,181 @@
+// Tests for the iss-moex command-line tool (injected transport, no network)
+import { FetchLike } from '../src/moex-client';
+import { setDefaultClient } from '../src/moex-api';
+import { runCli, formatRows, EXIT_CODES } from '../src/cli';
+import { ok, mockClient } from './helpers';
+
+const marketData = (...quotes: Array<[secid: string, last: number]>) => ok({
+  marketdata: {
+    columns: ['SECID', 'BOARDID', 'LAST', 'LASTTOPREVPRICE', 'VOLTODAY', 'VALTODAY', 'UPDATETIME'],
+    data: quotes.map(([secid, last]) => [secid, 'TQBR', last, 1.5, 1000, 270000, '18:45:09'])
+  }
+});
+
+const securities = (count: number, start = 0) => ok({
+  securities: {
+    columns: ['SECID', 'BOARDID', 'SHORTNAME'],
+    data: Array.from({ length: count }, (_, i) => [`SEC${start + i}`, 'TQOB', `Bond ${start + i}`])
+  }
+});
+
+describe('iss-moex CLI', () => {
+  let mockFetch: jest.MockedFunction<FetchLike>;
+  let stdout: string;
+  let stderr: string;
+
+  const run = (...args: string[]) => runCli(args, {
+    stdout: text => { stdout += text; },
+    stderr: text => { stderr += text; }
+  });
+
+  beforeEach(() => {
+    const mock = mockClient();
+    mockFetch = mock.fetch;
+    setDefaultClient(mock.client);
+    stdout = '';
+    stderr = '';
+  });
+
+  it('should print quotes as a table with default columns', async () => {
+    mockFetch.mockResolvedValueOnce(marketData(['SBER', 270.5], ['GAZP', 160.1]));
+
+    await expect(run('quote', 'SBER', 'GAZP')).resolves.toBe(EXIT_CODES.OK);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockFetch.mock.calls[0][0]).toContain('/engines/stock/markets/shares/securities.json?iss.meta=off&iss.only=marketdata&securities=SBER,GAZP');
+
+    expect(stdout).toBe([
+      'SECID  BOARDID   LAST  LASTTOPREVPRICE  VOLTODAY  VALTODAY  UPDATETIME',
+      '-----  -------  -----  ---------------  --------  --------  ----------',
+      'SBER   TQBR     270.5              1.5      1000    270000  18:45:09',
+      'GAZP   TQBR     160.1              1.5      1000    270000  18:45:09',
+      ''
+    ].join('\n'));
+  });
+
+  it('should report missing quotes with the not-found exit code', async () => {
+    mockFetch.mockResolvedValueOnce(marketData(['SBER', 270.5]));
+
+    await expect(run('quote', 'SBER', 'NOPE', '--format', 'ndjson', '--columns', 'SECID,LAST'))
+      .resolves.toBe(EXIT_CODES.NOT_FOUND);
+
+    expect(stdout).toBe('{"SECID":"SBER","LAST":270.5}\n');
+    expect(stderr).toBe('No market data for NOPE\n');
+  });
+
+  it('should pass engine, market and limit to getAllSecurities', async () => {
+    mockFetch.mockResolvedValueOnce(ok({
+      securities: { columns: ['SECID', 'BOARDID', 'SHORTNAME'], data: [['SU26238RMFS4', 'TQOB', 'ОФЗ 26238']] }
+    }));
+
+    await expect(run('securities', '--market', 'bonds', '--limit', '5', '--format', 'json', '--columns', 'SECID,SHORTNAME'))
+      .resolves.toBe(EXIT_CODES.OK);
+
+    expect(mockFetch.mock.calls[0][0]).toContain('/engines/stock/markets/bonds/securities.json');
+    expect(mockFetch.mock.calls[0][0]).toContain('&start=0&limit=5');
+    expect(JSON.parse(stdout)).toEqual([{ SECID: 'SU26238RMFS4', SHORTNAME: 'ОФЗ 26238' }]);
+  });
+
+  it('should page securities up to the limit', async () => {
+    mockFetch
+      .mockResolvedValueOnce(securities(100))
+      .mockResolvedValueOnce(securities(20, 100));
+
+    await expect(run('securities', '--market', 'bonds', '--limit', '120', '--format', 'ndjson', '--columns', 'SECID'))
+      .resolves.toBe(EXIT_CODES.OK);
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(mockFetch.mock.calls[0][0]).toContain('&start=0&limit=100');
+    expect(mockFetch.mock.calls[1][0]).toContain('&start=100&limit=20');
+    expect(stdout.trim().split('\n')).toHaveLength(120);
+  });
+
+  it('should print trading sessions as CSV', async () => {
+    mockFetch.mockResolvedValueOnce(ok({
+      sessions: { columns: ['BOARDID', 'BOARD_TITLE', 'IS_PRIMARY'], data: [['TQBR', 'Т+: Акции, "ДР"', 1]] }
+    }));
+
+    await expect(run('sessions', '--format', 'csv')).resolves.toBe(EXIT_CODES.OK);
+
+    expect(stdout).toBe('BOARDID,BOARD_TITLE,IS_PRIMARY\nTQBR,"Т+: Акции, ""ДР""",1\n');
+  });
+
+  it('should request candles with interval and period', async () => {
+    mockFetch.mockResolvedValueOnce(ok({
+      candles: {
+        columns: ['open', 'close', 'high', 'low', 'value', 'volume', 'begin', 'end'],
+        data: [[270, 272, 275, 268, 1e9, 3700000, '2024-01-03 00:00:00', '2024-01-03 23:59:59']]
+      }
+    }));
+
+    await expect(run('candles', 'SBER', '--interval', '24', '--from', '2024-01-01', '--format', 'ndjson'))
+      .resolves.toBe(EXIT_CODES.OK);
+
+    expect(mockFetch.mock.calls[0][0]).toContain('/securities/SBER/candles.json');
+    expect(mockFetch.mock.calls[0][0]).toContain('interval=24');
+    expect(mockFetch.mock.calls[0][0]).toContain('from=2024-01-01');
+    expect(JSON.parse(stdout).close).toBe(272);
+  });
+
+  it('should search securities by a multi-word query', async () => {
+    mockFetch.mockResolvedValueOnce(ok({
+      securities: {
+        columns: ['secid', 'shortname', 'name', 'isin', 'type', 'primary_boardid'],
+        data: [['GAZP', 'ГАЗПРОМ ао', 'Газпром (ПАО) ао', 'RU0007661625', 'common_share', 'TQBR']]
+      }
+    }));
+
+    await expect(run('search', 'газпром', 'ао', '--format', 'json')).resolves.toBe(EXIT_CODES.OK);
+
+    expect(mockFetch.mock.calls[0][0]).toContain(`q=${encodeURIComponent('газпром ао')}`);
+    expect(JSON.parse(stdout)[0].secid).toBe('GAZP');
+  });
+
+  it('should map ISS errors to exit codes', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 404, json: async () => ({}) });
+    await expect(run('quote', 'SBER')).resolves.toBe(EXIT_CODES.NOT_FOUND);
+
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 429, json: async () => ({}) });
+    await expect(run('sessions')).resolves.toBe(EXIT_CODES.RATE_LIMIT);
+
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 500, json: async () => ({}) });
+    await expect(run('sessions')).resolves.toBe(EXIT_CODES.HTTP);
+
+    mockFetch.mockRejectedValueOnce(new TypeError('fetch failed'));
+    await expect(run('sessions')).resolves.toBe(EXIT_CODES.NETWORK);
+
+    expect(stderr).toContain('HTTP error! status: 500');
+  });
+
+  it('should reject invalid arguments with the usage exit code', async () => {
+    await expect(run()).resolves.toBe(EXIT_CODES.USAGE);
+    await expect(run('quote')).resolves.toBe(EXIT_CODES.USAGE);
+    await expect(run('sessions', '--format', 'xml')).resolves.toBe(EXIT_CODES.USAGE);
+    await expect(run('candles', 'SBER', '--interval', '5')).resolves.toBe(EXIT_CODES.USAGE);
+    await expect(run('candles', 'SBER', '--from', '15.03.2024')).resolves.toBe(EXIT_CODES.USAGE);
+    await expect(run('candles', 'SBER', '--till', '2024-02-30')).resolves.toBe(EXIT_CODES.USAGE);
+    await expect(run('securities', '--unknown')).resolves.toBe(EXIT_CODES.USAGE);
+    await expect(run('teleport')).resolves.toBe(EXIT_CODES.USAGE);
+
+    expect(stderr).toContain('Invalid --format "xml". Expected one of: table, json, csv, ndjson');
+    expect(stderr).toContain('Unknown command "teleport"');
+    expect(stderr).toContain('Invalid --from "15.03.2024". Expected a date YYYY-MM-DD');
+    expect(stderr).toContain('Invalid --till "2024-02-30". Expected a date YYYY-MM-DD');
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should print help', async () => {
+    await expect(run('--help')).resolves.toBe(EXIT_CODES.OK);
+
+    expect(stdout).toContain('Usage: iss-moex <command>');
+  });
+});
+
+describe('formatRows', () => {
+  it('should leave missing values empty and keep column order', () => {
+    const rows = [{ A: 1, B: null }, { B: 'x' }];
+
+    expect(formatRows(rows, ['B', 'A'], 'csv')).toBe('B,A\n,1\nx,');
+    expect(formatRows(rows, ['B', 'A'], 'ndjson')).toBe('{"B":null,"A":1}\n{"B":"x","A":null}');
+  });
+});
@@ -0,0 +1,193 @@
+// Tests for currency rates and conversion (injected transport, no network)
+import { MoexClient, FetchLike } from '../src/moex-client';
+import { MoexError } from '../src/errors';
+import { moscowDate } from '../src/calendar';
+import { ok, mockClient } from './helpers';
+
+const cbrResponse = (usd: number, eur: number) => ok({
+  cbrf: {
+    columns: [
+      'CBRF_USD_LAST', 'CBRF_USD_LASTCHANGEPRCNT', 'CBRF_USD_TRADEDATE',
+      'CBRF_EUR_LAST', 'CBRF_EUR_LASTCHANGEPRCNT', 'CBRF_EUR_TRADEDATE'
+    ],
+    data: [[usd, 0.52, '2024-03-15', eur, -0.1, '2024-03-15']]
+  }
+});
+
+const indicativeResponse = () => ok({
+  securities: {
+    columns: ['tradedate', 'tradetime', 'secid', 'rate', 'clearing'],
+    data: [
+      ['2024-03-15', '13:45:00', 'CNY/RUB', 12.7, 'pk'],
+      ['2024-03-15', '13:45:00', 'USD/RUB', 91.5, 'pk']
+    ]
+  }
+});
+
+const fixingResponse = (rate: number) => ok({
+  history: {
+    columns: ['tradedate', 'tradetime', 'secid', 'rate'],
+    data: [['2024-03-14', '13:30:00', 'CNYFIXME', rate]]
+  }
+});
+
+describe('currency rates', () => {
+  let mockFetch: jest.MockedFunction<FetchLike>;
+  let client: MoexClient;
+
+  beforeEach(() => {
+    ({ client, fetch: mockFetch } = mockClient());
+  });
+
+  describe('getCbrRates', () => {
+    it('should collect rates from the cbrf columns', async () => {
+      mockFetch.mockResolvedValueOnce(cbrResponse(91.8, 100.2));
+
+      const rates = await client.getCbrRates();
+
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        'https://iss.moex.com/iss/statistics/engines/currency/markets/selt/rates.json?iss.meta=off&iss.only=cbrf'
+      );
+      expect(rates).toEqual([
+        { currency: 'USD', rate: 91.8, changePercent: 0.52, tradeDate: '2024-03-15' },
+        { currency: 'EUR', rate: 100.2, changePercent: -0.1, tradeDate: '2024-03-15' }
+      ]);
+    });
+
+    it('should pass the date to ISS', async () => {
+      mockFetch.mockResolvedValueOnce(cbrResponse(91.8, 100.2));
+
+      await client.getCbrRates('2024-03-15');
+
+      expect(mockFetch.mock.calls[0][0]).toContain('&date=2024-03-15');
+    });
+
+    it('should return an empty array when the block is empty', async () => {
+      mockFetch.mockResolvedValueOnce(ok({ cbrf: { columns: ['CBRF_USD_LAST'], data: [] } }));
+
+      await expect(client.getCbrRates()).resolves.toEqual([]);
+    });
+  });
+
+  describe('getFixings', () => {
+    it('should map a currency pair to the fixing code', async () => {
+      mockFetch.mockResolvedValueOnce(fixingResponse(12.65));
+
+      const fixings = await client.getFixings('cny/rub', '2024-03-14', '2024-03-14');
+
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        'https://iss.moex.com/iss/statistics/engines/currency/markets/fixing/CNYFIXME.json' +
+        '?iss.meta=off&iss.only=history,history.cursor&from=2024-03-14&till=2024-03-14&start=0'
+      );
+      expect(fixings).toEqual([{ tradedate: '2024-03-14', tradetime: '13:30:00', secid: 'CNYFIXME', rate: 12.65 }]);
+    });
+
+    it('should accept a fixing code as is', async () => {
+      mockFetch.mockResolvedValueOnce(fixingResponse(12.65));
+
+      await client.getFixings('USDFIXME', '2024-03-01', new Date('2024-03-14T12:00:00Z'));
+
+      expect(mockFetch.mock.calls[0][0]).toContain('/fixing/USDFIXME.json');
+      expect(mockFetch.mock.calls[0][0]).toContain('&till=2024-03-14');
+    });
+
+    it('should reject cross pairs without RUB', async () => {
+      await expect(client.getFixings('EUR/USD', '2024-03-14', '2024-03-14'))
+        .rejects.toThrow('Invalid currency pair "EUR/USD": fixings are published only against RUB');
+      expect(mockFetch).not.toHaveBeenCalled();
+
+      mockFetch.mockResolvedValueOnce(fixingResponse(12.65));
+      await client.getFixings('CNY/SUR', '2024-03-14', '2024-03-14');
+      expect(mockFetch.mock.calls[0][0]).toContain('/fixing/CNYFIXME.json');
+    });
+  });
+
+  describe('getIndicativeRates', () => {
+    it('should return typed indicative rates', async () => {
+      mockFetch.mockResolvedValueOnce(indicativeResponse());
+
+      const rates = await client.getIndicativeRates();
+
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        'https://iss.moex.com/iss/statistics/engines/futures/markets/indicativerates/securities.json?iss.meta=off&iss.only=securities'
+      );
+      expect(rates[0]).toEqual({ tradedate: '2024-03-15', tradetime: '13:45:00', secid: 'CNY/RUB', rate: 12.7, clearing: 'pk' });
+    });
+  });
+
+  describe('convert', () => {
+    it('should return the amount unchanged for the same currency', async () => {
+      await expect(client.convert(100, 'SUR', 'rub')).resolves.toBe(100);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should convert to RUB with the CBR rate', async () => {
+      mockFetch.mockResolvedValueOnce(cbrResponse(90, 100));
+
+      await expect(client.convert(10, 'USD', 'SUR', '2024-03-15')).resolves.toBe(900);
+    });
+
+    it('should cross-convert through RUB with one CBR request', async () => {
+      mockFetch.mockResolvedValue(cbrResponse(90, 100));
+
+      await expect(client.convert(90, 'EUR', 'USD', '2024-03-15')).resolves.toBe(100);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cache rates per currency and day', async () => {
+      mockFetch.mockResolvedValue(cbrResponse(90, 100));
+
+      await client.convert(1, 'USD', 'RUB', '2024-03-15');
+      await client.convert(2, 'USD', 'RUB', '2024-03-15');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      await client.convert(1, 'USD', 'RUB', '2024-03-14');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should cache the latest rate apart from the rate for today', async () => {
+      const today = moscowDate(new Date());
+      mockFetch
+        .mockResolvedValueOnce(cbrResponse(92, 100))
+        .mockResolvedValueOnce(cbrResponse(90, 100));
+
+      await expect(client.convert(1, 'USD', 'RUB')).resolves.toBe(92);
+      await expect(client.convert(1, 'USD', 'RUB', today)).resolves.toBe(90);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[0][0]).not.toContain('date=');
+      expect(mockFetch.mock.calls[1][0]).toContain(`date=${today}`);
+    });
+
+    it('should fall back to indicative rates for the current rate', async () => {
+      mockFetch
+        .mockResolvedValueOnce(cbrResponse(90, 100))
+        .mockResolvedValueOnce(indicativeResponse());
+
+      await expect(client.convert(10, 'CNY', 'RUB')).resolves.toBeCloseTo(127);
+      expect(mockFetch.mock.calls[1][0]).toContain('/indicativerates/');
+    });
+
+    it('should fall back to the fixing for a past date', async () => {
+      mockFetch
+        .mockResolvedValueOnce(cbrResponse(90, 100))
+        .mockResolvedValueOnce(fixingResponse(12.5));
+
+      await expect(client.convert(10, 'CNY', 'RUB', '2024-03-14')).resolves.toBe(125);
+      expect(mockFetch.mock.calls[1][0]).toContain('/fixing/CNYFIXME.json');
+    });
+
+    it('should throw when no source has the rate and not remember the failure', async () => {
+      mockFetch
+        .mockResolvedValueOnce(cbrResponse(90, 100))
+        .mockResolvedValueOnce(indicativeResponse());
+
+      await expect(client.convert(1, 'XAU', 'RUB')).rejects.toThrow(new MoexError('No RUB rate for XAU'));
+
+      // The CBR table of the day is kept, only the missing rate is looked up again
+      mockFetch.mockResolvedValueOnce(indicativeResponse());
+      await expect(client.convert(1, 'XAU', 'RUB')).rejects.toThrow(MoexError);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+// Tests for typed errors raised by MoexClient (injected transport, no network)
+import { MoexClient, FetchLike } from '../src/moex-client';
+import {
+  MoexError,
+  MoexHttpError,
+  MoexNotFoundError,
+  MoexRateLimitError,
+  MoexNetworkError,
+  MoexParseError
+} from '../src/errors';
+import { mockClient } from './helpers';
+
+const errorResponse = (status: number, body: string = '', headers: Record<string, string> = {}) => ({
+  ok: false,
+  status,
+  headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+  json: async () => { throw new Error('not json'); },
+  text: async () => body
+});
+
+describe('MoexClient errors', () => {
+  let mockFetch: jest.MockedFunction<FetchLike>;
+  let client: MoexClient;
+
+  beforeEach(() => {
+    ({ client, fetch: mockFetch } = mockClient());
+  });
+
+  it('should raise MoexHttpError with status, url and body', async () => {
+    mockFetch.mockResolvedValueOnce(errorResponse(502, 'Bad Gateway'));
+
+    const error = await client.getSecurities().catch(e => e);
+
+    expect(error).toBeInstanceOf(MoexHttpError);
+    expect(error).toBeInstanceOf(MoexError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('MoexHttpError');
+    expect(error.status).toBe(502);
+    expect(error.body).toBe('Bad Gateway');
+    expect(error.url).toContain('/engines/stock/markets/shares/securities.json');
+    expect(error.message).toBe('Failed to fetch securities: HTTP error! status: 502');
+  });
+
+  it('should raise MoexNotFoundError for 404', async () => {
+    mockFetch.mockResolvedValueOnce(errorResponse(404));
+
+    const error = await client.getMarketData('SBER').catch(e => e);
+
+    expect(error).toBeInstanceOf(MoexNotFoundError);
+    expect(error).toBeInstanceOf(MoexHttpError);
+    expect(error.status).toBe(404);
+  });
+
+  it('should raise MoexRateLimitError with Retry-After in milliseconds', async () => {
+    mockFetch.mockResolvedValueOnce(errorResponse(429, 'Too Many Requests', { 'retry-after': '3' }));
+
+    const error = await client.getTradingSessions().catch(e => e);
+
+    expect(error).toBeInstanceOf(MoexRateLimitError);
+    expect(error.status).toBe(429);
+    expect(error.retryAfter).toBe(3000);
+  });
+
+  it('should accept responses without headers and body readers', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 429, json: async () => ({}) });
+
+    const error = await client.getTradingSessions().catch(e => e);
+
+    expect(error).toBeInstanceOf(MoexRateLimitError);
+    expect(error.retryAfter).toBeUndefined();
+    expect(error.body).toBeUndefined();
+  });
+
+  it('should raise MoexNetworkError preserving cause', async () => {
+    const cause = new Error('ECONNRESET');
+    mockFetch.mockRejectedValueOnce(cause);
+
+    const error = await client.getSecurities().catch(e => e);
+
+    expect(error).toBeInstanceOf(MoexNetworkError);
+    expect(error.cause).toBe(cause);
+    expect(error.message).toBe('Failed to fetch securities: ECONNRESET');
+  });
+
+  it('should raise MoexParseError when body is not JSON', async () => {
+    const cause = new SyntaxError('Unexpected token < in JSON');
+    mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => { throw cause; } });
+
+    const error = await client.getSecurities().catch(e => e);
+
+    expect(error).toBeInstanceOf(MoexParseError);
+    expect(error.cause).toBe(cause);
+    expect(error.url).toContain('securities.json');
+  });
+});
@@ -0,0 +1,102 @@
+// Tests for getCandles (injected transport, no network)
+import { MoexClient, FetchLike, ISS_CANDLES_PAGE_SIZE } from '../src/moex-client';
+import { Engine, Market, Interval } from '../src/types';
+import { ok, mockClient } from './helpers';
+
+const candlesResponse = (count: number, offset: number = 0) => ok({
+  candles: {
+    columns: ['open', 'close', 'high', 'low', 'value', 'volume', 'begin', 'end'],
+    data: Array.from({ length: count }, (_, i) => [
+      100 + offset + i, 101 + offset + i, 102 + offset + i, 99 + offset + i,
+      1000000, 10000, `day ${offset + i} begin`, `day ${offset + i} end`
+    ])
+  }
+});
+
+describe('getCandles', () => {
+  let mockFetch: jest.MockedFunction<FetchLike>;
+  let client: MoexClient;
+
+  beforeEach(() => {
+    ({ client, fetch: mockFetch } = mockClient());
+  });
+
+  it('should map candle rows to typed objects', async () => {
+    mockFetch.mockResolvedValueOnce(candlesResponse(2));
+
+    const result = await client.getCandles('SBER');
+
+    expect(result).toHaveLength(2);
+    expect(result[0]).toEqual({
+      open: 100,
+      close: 101,
+      high: 102,
+      low: 99,
+      value: 1000000,
+      volume: 10000,
+      begin: 'day 0 begin',
+      end: 'day 0 end'
+    });
+  });
+
+  it('should construct URL with interval and period', async () => {
+    mockFetch.mockResolvedValueOnce(candlesResponse(0));
+
+    await client.getCandles('SBER', {
+      interval: Interval.HOUR_1,
+      from: '2024-01-01',
+      till: '2024-01-31'
+    });
+
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      'https://iss.moex.com/iss/engines/stock/markets/shares/securities/SBER/candles.json?iss.meta=off&iss.only=candles&interval=60&from=2024-01-01&till=2024-01-31&start=0'
+    );
+  });
+
+  it('should use board path when board is given', async () => {
+    mockFetch.mockResolvedValueOnce(candlesResponse(0));
+
+    await client.getCandles('SU26238RMFS4', {
+      engine: Engine.STOCK,
+      market: Market.BONDS,
+      board: 'TQOB'
+    });
+
+    expect(mockFetch.mock.calls[0][0]).toContain(
+      '/engines/stock/markets/bonds/boards/TQOB/securities/SU26238RMFS4/candles.json'
+    );
+    expect(mockFetch.mock.calls[0][0]).toContain('interval=24');
+  });
+
+  it('should format Date arguments in Moscow time', async () => {
+    mockFetch.mockResolvedValueOnce(candlesResponse(0));
+
+    // 2024-03-01 00:30 MSK is still 2024-02-29 in UTC
+    await client.getCandles('SBER', { from: new Date('2024-02-29T21:30:00Z') });
+
+    expect(mockFetch.mock.calls[0][0]).toContain('from=2024-03-01');
+  });
+
+  it('should page over the 500-row ISS limit', async () => {
+    mockFetch
+      .mockResolvedValueOnce(candlesResponse(ISS_CANDLES_PAGE_SIZE, 0))
+      .mockResolvedValueOnce(candlesResponse(ISS_CANDLES_PAGE_SIZE, 500))
+      .mockResolvedValueOnce(candlesResponse(17, 1000));
+
+    const result = await client.getCandles('SBER', { interval: Interval.MINUTE_1 });
+
+    expect(result).toHaveLength(1017);
+    expect(result[1016].begin).toBe('day 1016 begin');
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(mockFetch.mock.calls[1][0]).toContain('start=500');
+    expect(mockFetch.mock.calls[2][0]).toContain('start=1000');
+  });
+
+  it('should return empty array when no candles', async () => {
+    mockFetch.mockResolvedValueOnce(ok({}));
+
+    const result = await client.getCandles('NONEXISTENT');
+
+    expect(result).toEqual([]);
+  });
+});
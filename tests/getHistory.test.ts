@@ -0,0 +1,95 @@
+// Tests for getHistory / getHistoryByDate (injected transport, no network)
+import { MoexClient, FetchLike } from '../src/moex-client';
+import { Engine, Market } from '../src/types';
+import { ok, mockClient } from './helpers';
+
+const historyResponse = (secids: string[], cursor?: [number, number, number]) => ok({
+  history: {
+    columns: ['BOARDID', 'TRADEDATE', 'SECID', 'LEGALCLOSEPRICE', 'WAPRICE', 'VOLUME', 'NUMTRADES'],
+    data: secids.map((secid, i) => ['TQBR', '2024-01-10', secid, 270 + i, 269.5 + i, 1000 * (i + 1), 10 + i])
+  },
+  ...(cursor && {
+    'history.cursor': {
+      columns: ['INDEX', 'TOTAL', 'PAGESIZE'],
+      data: [cursor]
+    }
+  })
+});
+
+describe('getHistory', () => {
+  let mockFetch: jest.MockedFunction<FetchLike>;
+  let client: MoexClient;
+
+  beforeEach(() => {
+    ({ client, fetch: mockFetch } = mockClient());
+  });
+
+  it('should map history rows to typed objects', async () => {
+    mockFetch.mockResolvedValueOnce(historyResponse(['SBER'], [0, 1, 100]));
+
+    const result = await client.getHistory('SBER');
+
+    expect(result).toEqual([{
+      BOARDID: 'TQBR',
+      TRADEDATE: '2024-01-10',
+      SECID: 'SBER',
+      LEGALCLOSEPRICE: 270,
+      WAPRICE: 269.5,
+      VOLUME: 1000,
+      NUMTRADES: 10
+    }]);
+  });
+
+  it('should construct URL with board and period', async () => {
+    mockFetch.mockResolvedValueOnce(historyResponse([]));
+
+    await client.getHistory('SBER', { board: 'TQBR', from: '2024-01-01', till: '2024-12-31' });
+
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      'https://iss.moex.com/iss/history/engines/stock/markets/shares/boards/TQBR/securities/SBER.json?iss.meta=off&iss.only=history,history.cursor&from=2024-01-01&till=2024-12-31&start=0'
+    );
+  });
+
+  it('should follow history.cursor until TOTAL', async () => {
+    mockFetch
+      .mockResolvedValueOnce(historyResponse(['A', 'B'], [0, 5, 2]))
+      .mockResolvedValueOnce(historyResponse(['C', 'D'], [2, 5, 2]))
+      .mockResolvedValueOnce(historyResponse(['E'], [4, 5, 2]));
+
+    const result = await client.getHistory('SBER');
+
+    expect(result.map(row => row.SECID)).toEqual(['A', 'B', 'C', 'D', 'E']);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(mockFetch.mock.calls[1][0]).toContain('start=2');
+    expect(mockFetch.mock.calls[2][0]).toContain('start=4');
+  });
+
+  it('should stop after first page when cursor is missing', async () => {
+    mockFetch.mockResolvedValueOnce(historyResponse(['A', 'B']));
+
+    const result = await client.getHistory('SBER');
+
+    expect(result).toHaveLength(2);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should request board-wide history by date', async () => {
+    mockFetch.mockResolvedValueOnce(historyResponse(['SBER', 'GAZP'], [0, 2, 100]));
+
+    const result = await client.getHistoryByDate('2024-01-10', Engine.STOCK, Market.SHARES, 'TQBR');
+
+    expect(result).toHaveLength(2);
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      'https://iss.moex.com/iss/history/engines/stock/markets/shares/boards/TQBR/securities.json?iss.meta=off&iss.only=history,history.cursor&date=2024-01-10&start=0'
+    );
+  });
+
+  it('should omit board from URL when not given', async () => {
+    mockFetch.mockResolvedValueOnce(historyResponse([]));
+
+    await client.getHistoryByDate(new Date('2024-01-10T12:00:00Z'), Engine.STOCK, Market.BONDS);
+
+    expect(mockFetch.mock.calls[0][0]).toContain('/history/engines/stock/markets/bonds/securities.json?');
+    expect(mockFetch.mock.calls[0][0]).toContain('date=2024-01-10');
+  });
+});
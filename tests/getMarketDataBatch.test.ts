@@ -0,0 +1,138 @@
+// Tests for getMarketDataBatch (injected transport, no network)
+import { MoexClient, FetchLike } from '../src/moex-client';
+import { Engine, Market } from '../src/types';
+import { ok, mockClient } from './helpers';
+
+const marketDataResponse = (rows: Array<[string, string, number]>) => ok({
+  marketdata: {
+    columns: ['SECID', 'BOARDID', 'LAST'],
+    data: rows
+  }
+});
+
+const requestedSecids = (url: string): string[] =>
+  new URL(url).searchParams.get('securities')!.split(',');
+
+describe('getMarketDataBatch', () => {
+  let mockFetch: jest.MockedFunction<FetchLike>;
+  let client: MoexClient;
+
+  beforeEach(() => {
+    ({ client, fetch: mockFetch } = mockClient());
+  });
+
+  it('should request market data with the securities filter', async () => {
+    mockFetch.mockResolvedValueOnce(marketDataResponse([['SBER', 'TQBR', 270], ['GAZP', 'TQBR', 160]]));
+
+    const result = await client.getMarketDataBatch(['SBER', 'GAZP'], Engine.STOCK, Market.SHARES, 'TQBR');
+
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      'https://iss.moex.com/iss/engines/stock/markets/shares/boards/TQBR/securities.json?iss.meta=off&iss.only=marketdata&securities=SBER,GAZP'
+    );
+    expect(result.data.get('SBER')?.LAST).toBe(270);
+    expect(result.data.get('GAZP')?.LAST).toBe(160);
+    expect(result.missing).toEqual([]);
+  });
+
+  it('should encode the board in the path', async () => {
+    mockFetch.mockResolvedValueOnce(marketDataResponse([]));
+
+    await client.getMarketDataBatch(['SBER'], Engine.STOCK, Market.SHARES, 'TQBR/../TQTF');
+
+    expect(mockFetch.mock.calls[0][0]).toContain('/markets/shares/boards/TQBR%2F..%2FTQTF/securities.json?');
+  });
+
+  it('should report tickers missing from the response', async () => {
+    mockFetch.mockResolvedValueOnce(marketDataResponse([['GAZP', 'TQBR', 160]]));
+
+    const result = await client.getMarketDataBatch(['SBER', 'GAZP', 'NOPE']);
+
+    expect([...result.data.keys()]).toEqual(['GAZP']);
+    expect(result.missing).toEqual(['SBER', 'NOPE']);
+  });
+
+  it('should keep the first row when a ticker trades on several boards', async () => {
+    mockFetch.mockResolvedValueOnce(marketDataResponse([['SBER', 'TQBR', 270], ['SBER', 'SMAL', 271]]));
+
+    const result = await client.getMarketDataBatch(['SBER']);
+
+    expect(result.data.get('SBER')?.BOARDID).toBe('TQBR');
+  });
+
+  it('should split long lists into chunks', async () => {
+    const secids = Array.from({ length: 250 }, (_, i) => `S${i}`);
+    mockFetch.mockImplementation(async url =>
+      marketDataResponse(requestedSecids(url).map(secid => [secid, 'TQBR', 1])));
+
+    const result = await client.getMarketDataBatch(secids);
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(mockFetch.mock.calls.map(([url]) => requestedSecids(url).length)).toEqual([100, 100, 50]);
+    expect(result.data.size).toBe(250);
+    expect(result.missing).toEqual([]);
+  });
+
+  it('should deduplicate tickers', async () => {
+    mockFetch.mockResolvedValueOnce(marketDataResponse([]));
+
+    const result = await client.getMarketDataBatch(['SBER', 'SBER']);
+
+    expect(requestedSecids(mockFetch.mock.calls[0][0])).toEqual(['SBER']);
+    expect(result.missing).toEqual(['SBER']);
+  });
+
+  it('should match tickers case-insensitively and keep the requested spelling', async () => {
+    mockFetch.mockResolvedValueOnce(marketDataResponse([['SBER', 'TQBR', 270], ['gazp', 'TQBR', 160]]));
+
+    const result = await client.getMarketDataBatch(['sber', 'SBER', 'GAZP']);
+
+    expect(requestedSecids(mockFetch.mock.calls[0][0])).toEqual(['sber', 'GAZP']);
+    expect(result.data.get('sber')?.LAST).toBe(270);
+    expect(result.data.get('GAZP')?.LAST).toBe(160);
+    expect(result.missing).toEqual([]);
+  });
+
+  it('should not make requests for an empty list', async () => {
+    const result = await client.getMarketDataBatch([]);
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(result.data.size).toBe(0);
+  });
+
+  it('should bound the number of concurrent requests', async () => {
+    let active = 0;
+    let maxActive = 0;
+    mockFetch.mockImplementation(async url => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      active--;
+      return marketDataResponse(requestedSecids(url).map(secid => [secid, 'TQBR', 1]));
+    });
+
+    const secids = Array.from({ length: 10 }, (_, i) => `S${i}`);
+    const result = await client.getMarketDataBatch(secids, Engine.STOCK, Market.SHARES, undefined, {
+      chunkSize: 1,
+      concurrency: 3
+    });
+
+    expect(mockFetch).toHaveBeenCalledTimes(10);
+    expect(maxActive).toBe(3);
+    expect(result.data.size).toBe(10);
+  });
+
+  it('should reject an invalid chunk size', async () => {
+    await expect(client.getMarketDataBatch(['SBER'], Engine.STOCK, Market.SHARES, undefined, { chunkSize: 0 }))
+      .rejects.toThrow('Invalid chunk size: 0');
+    await expect(client.getMarketDataBatch(['SBER'], Engine.STOCK, Market.SHARES, undefined, { chunkSize: NaN }))
+      .rejects.toThrow('Invalid chunk size: NaN');
+  });
+
+  it('should reject an invalid concurrency instead of hanging', async () => {
+    for (const concurrency of [0, -1, 2.5, NaN]) {
+      await expect(client.getMarketDataBatch(['SBER'], Engine.STOCK, Market.SHARES, undefined, { concurrency }))
+        .rejects.toThrow(`Invalid concurrency: ${concurrency}`);
+    }
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
@@ -1,12 +1,16 @@
 // Mock tests for getSecurities - all Engine/Market combinations
 jest.mock('undici');
 
-import { getSecurities, Engine, Market } from '../src/moex-api';
+import { getSecurities, setDefaultClient, Engine, Market } from '../src/moex-api';
+import { MoexClient } from '../src/moex-client';
 
 // Get mocked fetch
 const undici = require('undici') as { fetch: jest.MockedFunction<typeof fetch> };
 const mockFetch = undici.fetch;
 
+// Invalid combinations are answered by the mock, not rejected by route validation
+setDefaultClient(new MoexClient({ validateRoutes: false }));
+
 // Get all engine values
 const allEngines = Object.values(Engine);
 // Get all market values
@@ -41,10 +45,12 @@ describe('getSecurities - All Engine/Market Combinations (Mock)', () => {
 
             // Verify URL construction
             expect(mockFetch).toHaveBeenCalledWith(
-              expect.stringContaining(`/engines/${engine}/markets/${market}/securities.json`)
+              expect.stringContaining(`/engines/${engine}/markets/${market}/securities.json`),
+              expect.anything()
             );
             expect(mockFetch).toHaveBeenCalledWith(
-              expect.stringContaining('limit=10')
+              expect.stringContaining('limit=10'),
+              expect.anything()
             );
 
             // Verify result
@@ -103,7 +109,8 @@ describe('getSecurities - All Engine/Market Combinations (Mock)', () => {
           await getSecurities(Engine.STOCK, Market.SHARES, limit);
 
           expect(mockFetch).toHaveBeenCalledWith(
-            expect.stringContaining(`limit=${limit}`)
+            expect.stringContaining(`limit=${limit}`),
+            expect.anything()
           );
         });
       });
@@ -218,6 +225,6 @@ describe('Test Coverage Summary', () => {
     console.log(`Engines (${allEngines.length}):`, allEngines);
     console.log(`Markets (${allMarkets.length}):`, allMarkets);
     
-    expect(totalCombinations).toBe(78); // 6 engines * 13 markets
+    expect(totalCombinations).toBe(90); // 6 engines * 15 markets
   });
 });
@@ -1,52 +1,13 @@
 // Real API tests for getSecurities - all Engine/Market combinations
 import { getSecurities, Engine, Market } from '../src/moex-api';
-
-// Simple rate limiter for real API calls
-class SimpleRateLimiter {
-  private queue: Array<() => void> = [];
-  private running = 0;
-  private maxConcurrent: number;
-  private delay: number;
-
-  constructor(maxConcurrent: number, delay: number = 100) {
-    this.maxConcurrent = maxConcurrent;
-    this.delay = delay;
-  }
-
-  async limit<T>(fn: () => Promise<T>): Promise<T> {
-    return new Promise((resolve, reject) => {
-      this.queue.push(async () => {
-        try {
-          this.running++;
-          const result = await fn();
-          // Add delay between requests
-          await new Promise(r => setTimeout(r, this.delay));
-          resolve(result);
-        } catch (error) {
-          reject(error);
-        } finally {
-          this.running--;
-          this.processQueue();
-        }
-      });
-      this.processQueue();
-    });
-  }
-
-  private processQueue() {
-    if (this.running < this.maxConcurrent && this.queue.length > 0) {
-      const next = this.queue.shift();
-      if (next) next();
-    }
-  }
-}
+import { RateLimiter } from '../src/rate-limiter';
 
 // Initialize rate limiter
-const limit = new SimpleRateLimiter(1, 200); // 1 request at a time with 200ms delay
+const limit = new RateLimiter({ maxConcurrent: 1, requestsPerSecond: 5 }); // 1 request at a time, at most 5 per second
 
 // Helper function to wrap API calls with rate limiting
 const rateLimitedCall = <T>(apiCall: () => Promise<T>): Promise<T> => {
-  return limit.limit(() => apiCall());
+  return limit.schedule(() => apiCall());
 };
 
 // Get all engine values
@@ -89,10 +50,10 @@ describe('getSecurities - All Engine/Market Combinations (Real API)', () => {
               }
             } catch (error) {
               // Some combinations might return 404 or other errors
-              // This is expected for invalid engine/market combinations
+              // This is expected for invalid engine/market combinations; route validation rejects them before the request
               expect(error).toBeInstanceOf(Error);
               if (error instanceof Error) {
-                expect(error.message).toMatch(/Failed to fetch securities|HTTP error/);
+                expect(error.message).toMatch(/Failed to fetch securities|HTTP error|is not available|Unknown engine/);
                 
                 // Track invalid combination
                 invalidCombinations.push({ engine, market, error: error.message });
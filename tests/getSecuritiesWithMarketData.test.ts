@@ -0,0 +1,84 @@
+// Tests for getSecuritiesWithMarketData (injected transport, no network)
+import { MoexClient, FetchLike } from '../src/moex-client';
+import { Engine, Market } from '../src/types';
+import { ok, mockClient } from './helpers';
+
+const combinedResponse = (
+  securities: Array<[string, string]>,
+  marketdata: Array<[string, string, number]>
+) => ok({
+  securities: {
+    columns: ['SECID', 'BOARDID', 'SHORTNAME'],
+    data: securities.map(([secid, boardid]) => [secid, boardid, `${secid} short`])
+  },
+  marketdata: {
+    columns: ['SECID', 'BOARDID', 'LAST'],
+    data: marketdata
+  }
+});
+
+describe('getSecuritiesWithMarketData', () => {
+  let mockFetch: jest.MockedFunction<FetchLike>;
+  let client: MoexClient;
+
+  beforeEach(() => {
+    ({ client, fetch: mockFetch } = mockClient());
+  });
+
+  it('should request both blocks in a single call', async () => {
+    mockFetch.mockResolvedValueOnce(combinedResponse([], []));
+
+    await client.getSecuritiesWithMarketData(Engine.STOCK, Market.BONDS);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      'https://iss.moex.com/iss/engines/stock/markets/bonds/securities.json?iss.meta=off&iss.only=securities,marketdata&securities.columns=SECID,BOARDID,SHORTNAME,PREVPRICE,LOTSIZE,FACEVALUE,STATUS,BOARDNAME,DECIMALS,SECNAME,REMARKS,MARKETCODE,INSTRID,SECTORID,MINSTEP,PREVWAPRICE,FACEUNIT,PREVDATE,ISSUESIZE,ISIN,LATNAME,REGNUMBER,PREVLEGALCLOSEPRICE,CURRENCYID,SECTYPE,LISTLEVEL,SETTLEDATE,COUPONVALUE,NEXTCOUPON,ACCRUEDINT,MATDATE,COUPONPERIOD,COUPONPERCENT,OFFERDATE,YIELDATPREVWAPRICE,BUYBACKPRICE,BUYBACKDATE,FACEVALUEONSETTLEDATE,LOTVALUE,ISSUESIZEPLACED&start=0&limit=100'
+    );
+  });
+
+  it('should join market data by SECID and BOARDID', async () => {
+    mockFetch.mockResolvedValueOnce(combinedResponse(
+      [['SBER', 'TQBR'], ['SBER', 'SMAL'], ['GAZP', 'TQBR']],
+      [['GAZP', 'TQBR', 160], ['SBER', 'SMAL', 271], ['SBER', 'TQBR', 270]]
+    ));
+
+    const result = await client.getSecuritiesWithMarketData();
+
+    expect(result.map(s => [s.SECID, s.BOARDID, s.marketdata?.LAST])).toEqual([
+      ['SBER', 'TQBR', 270],
+      ['SBER', 'SMAL', 271],
+      ['GAZP', 'TQBR', 160]
+    ]);
+    expect(result[0].SHORTNAME).toBe('SBER short');
+  });
+
+  it('should set marketdata to null when the board has no market data row', async () => {
+    mockFetch.mockResolvedValueOnce(combinedResponse([['SBER', 'TQBR'], ['SBER', 'SPEQ']], [['SBER', 'TQBR', 270]]));
+
+    const result = await client.getSecuritiesWithMarketData();
+
+    expect(result[1].marketdata).toBeNull();
+  });
+
+  it('should page through securities and join each page separately', async () => {
+    mockFetch
+      .mockResolvedValueOnce(combinedResponse([['A', 'TQBR'], ['B', 'TQBR']], [['A', 'TQBR', 1], ['B', 'TQBR', 2]]))
+      .mockResolvedValueOnce(combinedResponse([['C', 'TQBR']], [['C', 'TQBR', 3]]));
+
+    const result = await client.getSecuritiesWithMarketData(Engine.STOCK, Market.SHARES, { pageSize: 2 });
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(mockFetch.mock.calls[1][0]).toContain('&start=2&limit=2');
+    expect(result.map(s => s.marketdata?.LAST)).toEqual([1, 2, 3]);
+  });
+
+  it('should stop at maxRows', async () => {
+    mockFetch.mockResolvedValueOnce(combinedResponse([['A', 'TQBR']], []));
+
+    const result = await client.getSecuritiesWithMarketData(Engine.STOCK, Market.SHARES, { maxRows: 1 });
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockFetch.mock.calls[0][0]).toContain('&start=0&limit=1');
+    expect(result).toHaveLength(1);
+  });
+});
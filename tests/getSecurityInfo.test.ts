@@ -0,0 +1,137 @@
+// Tests for getSecurityInfo (injected transport, no network)
+import { MoexClient, FetchLike } from '../src/moex-client';
+import { ok, mockClient } from './helpers';
+
+const DESCRIPTION_COLUMNS = ['name', 'title', 'value', 'type', 'sort_order', 'is_hidden', 'precision'];
+
+const bondInfoResponse = () => ok({
+  description: {
+    columns: DESCRIPTION_COLUMNS,
+    data: [
+      ['SECID', 'Код ценной бумаги', 'SU26238RMFS4', 'string', 1, 0, null],
+      ['NAME', 'Полное наименование', 'ОФЗ-ПД 26238 15/05/2041', 'string', 3, 0, null],
+      ['ISIN', 'ISIN код', 'RU000A1038V6', 'string', 5, 0, null],
+      ['ISSUEDATE', 'Дата начала торгов', '2021-06-16', 'date', 9, 0, null],
+      ['MATDATE', 'Дата погашения', '2041-05-15', 'date', 10, 0, null],
+      ['FACEVALUE', 'Номинальная стоимость', '1000', 'number', 11, 0, 2],
+      ['COUPONPERCENT', 'Ставка купона, %', '7.1', 'number', 12, 0, 2],
+      ['COUPONFREQUENCY', 'Периодичность выплаты купона в год', '2', 'number', 13, 0, 0],
+      ['COUPONDATE', 'Дата выплаты купона', '0000-00-00', 'date', 14, 0, null],
+      ['ISQUALIFIEDINVESTORS', 'Бумаги для квалифицированных инвесторов', '0', 'boolean', 20, 0, null],
+      ['TYPE', 'Тип бумаги', 'ofz_bond', 'string', 30, 1, null],
+      ['GROUP', 'Код типа инструмента', 'stock_bonds', 'string', 31, 1, null]
+    ]
+  },
+  boards: {
+    columns: ['secid', 'boardid', 'title', 'board_group_id', 'market_id', 'market', 'engine_id', 'engine', 'is_traded',
+      'decimals', 'history_from', 'history_till', 'listed_from', 'listed_till', 'is_primary', 'currencyid'],
+    data: [
+      ['SU26238RMFS4', 'TQOB', 'Т+: Гособлигации', 7, 2, 'bonds', 1, 'stock', 1, 3, '2021-06-16', '2024-01-10', '2021-06-16', '2024-01-10', 1, 'RUB'],
+      ['SU26238RMFS4', 'PSOB', 'Облигации - безадрес.', 61, 2, 'bonds', 1, 'stock', 0, 3, null, null, null, null, 0, 'RUB']
+    ]
+  }
+});
+
+const emptyInfoResponse = () => ok({
+  description: { columns: DESCRIPTION_COLUMNS, data: [] },
+  boards: { columns: ['secid'], data: [] }
+});
+
+describe('getSecurityInfo', () => {
+  let mockFetch: jest.MockedFunction<FetchLike>;
+  let client: MoexClient;
+
+  beforeEach(() => {
+    ({ client, fetch: mockFetch } = mockClient());
+  });
+
+  it('should request description and boards blocks', async () => {
+    mockFetch.mockResolvedValueOnce(bondInfoResponse());
+
+    await client.getSecurityInfo('SU26238RMFS4');
+
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      'https://iss.moex.com/iss/securities/SU26238RMFS4.json?iss.meta=off&iss.only=description,boards'
+    );
+  });
+
+  it('should build a typed description with coerced values', async () => {
+    mockFetch.mockResolvedValueOnce(bondInfoResponse());
+
+    const info = await client.getSecurityInfo('SU26238RMFS4');
+
+    expect(info!.description).toMatchObject({
+      SECID: 'SU26238RMFS4',
+      ISIN: 'RU000A1038V6',
+      TYPE: 'ofz_bond',
+      GROUP: 'stock_bonds',
+      MATDATE: '2041-05-15',
+      FACEVALUE: 1000,
+      COUPONPERCENT: 7.1,
+      COUPONFREQUENCY: 2,
+      COUPONDATE: null,
+      SHORTNAME: null,
+      EMITTER_ID: null
+    });
+    expect(info!.description.fields.ISQUALIFIEDINVESTORS).toBe(0);
+  });
+
+  it('should return the boards the security trades on', async () => {
+    mockFetch.mockResolvedValueOnce(bondInfoResponse());
+
+    const info = await client.getSecurityInfo('SU26238RMFS4');
+
+    expect(info!.boards.map(b => [b.boardid, b.engine, b.market, b.is_primary])).toEqual([
+      ['TQOB', 'stock', 'bonds', 1],
+      ['PSOB', 'stock', 'bonds', 0]
+    ]);
+  });
+
+  it('should fall back to an ISIN search when the code is not a SECID', async () => {
+    mockFetch
+      .mockResolvedValueOnce(emptyInfoResponse())
+      .mockResolvedValueOnce(ok({
+        securities: {
+          columns: ['secid', 'isin'],
+          data: [['SU26239RMFS2', 'RU000A1038V61'], ['SU26238RMFS4', 'RU000A1038V6']]
+        }
+      }))
+      .mockResolvedValueOnce(bondInfoResponse());
+
+    const info = await client.getSecurityInfo('ru000a1038v6');
+
+    expect(mockFetch.mock.calls[1][0]).toBe(
+      'https://iss.moex.com/iss/securities.json?iss.meta=off&iss.only=securities&q=ru000a1038v6&start=0&limit=100'
+    );
+    expect(mockFetch.mock.calls[2][0]).toContain('/securities/SU26238RMFS4.json');
+    expect(info!.description.SECID).toBe('SU26238RMFS4');
+  });
+
+  it('should return null for an unknown SECID without searching', async () => {
+    mockFetch.mockResolvedValueOnce(emptyInfoResponse());
+
+    await expect(client.getSecurityInfo('NOPE')).resolves.toBeNull();
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return null when the ISIN search finds no exact match', async () => {
+    mockFetch
+      .mockResolvedValueOnce(emptyInfoResponse())
+      .mockResolvedValueOnce(ok({ securities: { columns: ['secid', 'isin'], data: [] } }));
+
+    await expect(client.getSecurityInfo('RU0000000000')).resolves.toBeNull();
+  });
+
+  it('should route getPrimaryMarketData by ISIN to the primary board', async () => {
+    mockFetch
+      .mockResolvedValueOnce(bondInfoResponse())
+      .mockResolvedValueOnce(ok({ marketdata: { columns: ['SECID', 'BOARDID', 'LAST'], data: [['SU26238RMFS4', 'TQOB', 58.1]] } }));
+
+    const result = await client.getPrimaryMarketData('RU000A1038V6');
+
+    expect(mockFetch.mock.calls[1][0]).toBe(
+      'https://iss.moex.com/iss/engines/stock/markets/bonds/boards/TQOB/securities/SU26238RMFS4.json?iss.meta=off&iss.only=marketdata'
+    );
+    expect(result && 'LAST' in result ? result.LAST : undefined).toBe(58.1);
+  });
+});
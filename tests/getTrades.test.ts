@@ -0,0 +1,176 @@
+// Tests for getTrades / pollTrades (injected transport, no network)
+import { MoexClient, FetchLike, ISS_TRADES_PAGE_SIZE } from '../src/moex-client';
+import { Engine, Market, Trade } from '../src/types';
+import { MoexNotFoundError } from '../src/errors';
+import { ok, mockClient } from './helpers';
+
+const tradesResponse = (tradenos: number[]) => ok({
+  trades: {
+    columns: ['TRADENO', 'TRADETIME', 'BOARDID', 'SECID', 'PRICE', 'QUANTITY', 'VALUE', 'BUYSELL', 'SYSTIME'],
+    data: tradenos.map(no => [no, '10:00:01', 'TQBR', 'SBER', 270.5, 10, 27050, 'B', '2024-01-10 10:00:01'])
+  }
+});
+
+describe('getTrades', () => {
+  let mockFetch: jest.MockedFunction<FetchLike>;
+  let client: MoexClient;
+
+  beforeEach(() => {
+    ({ client, fetch: mockFetch } = mockClient());
+  });
+
+  it('should map trade rows to typed objects', async () => {
+    mockFetch.mockResolvedValueOnce(tradesResponse([101]));
+
+    const result = await client.getTrades('SBER');
+
+    expect(result).toEqual([{
+      TRADENO: 101,
+      TRADETIME: '10:00:01',
+      BOARDID: 'TQBR',
+      SECID: 'SBER',
+      PRICE: 270.5,
+      QUANTITY: 10,
+      VALUE: 27050,
+      BUYSELL: 'B',
+      SYSTIME: '2024-01-10 10:00:01'
+    }]);
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      'https://iss.moex.com/iss/engines/stock/markets/shares/securities/SBER/trades.json?iss.meta=off&iss.only=trades'
+    );
+  });
+
+  it('should pass cursor, order and limit', async () => {
+    mockFetch.mockResolvedValueOnce(tradesResponse([]));
+
+    await client.getTrades('Si', {
+      engine: Engine.FUTURES,
+      market: Market.SHARES,
+      board: 'RFUD',
+      fromTradeNo: 500,
+      reversed: true,
+      limit: 100000
+    });
+
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      `https://iss.moex.com/iss/engines/futures/markets/shares/boards/RFUD/securities/Si/trades.json?iss.meta=off&iss.only=trades&tradeno=500&reversed=1&limit=${ISS_TRADES_PAGE_SIZE}`
+    );
+  });
+
+  it('should return empty array when no trades', async () => {
+    mockFetch.mockResolvedValueOnce(ok({}));
+
+    expect(await client.getTrades('SBER')).toEqual([]);
+  });
+});
+
+describe('pollTrades', () => {
+  let mockFetch: jest.MockedFunction<FetchLike>;
+  let client: MoexClient;
+
+  beforeEach(() => {
+    ({ client, fetch: mockFetch } = mockClient());
+  });
+
+  it('should yield only trades newer than the last seen TRADENO', async () => {
+    mockFetch
+      .mockResolvedValueOnce(tradesResponse([1, 2, 3]))
+      // ISS returns the cursor trade itself again
+      .mockResolvedValueOnce(tradesResponse([3, 4, 5]))
+      .mockResolvedValueOnce(tradesResponse([5]))
+      .mockResolvedValueOnce(tradesResponse([5, 6]));
+
+    const controller = new AbortController();
+    const seen: number[] = [];
+    for await (const trade of client.pollTrades('SBER', { intervalMs: 1, signal: controller.signal })) {
+      seen.push(trade.TRADENO);
+      if (trade.TRADENO === 6) controller.abort();
+    }
+
+    expect(seen).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(mockFetch.mock.calls[0][0]).not.toContain('tradeno=');
+    expect(mockFetch.mock.calls[1][0]).toContain('tradeno=3');
+    expect(mockFetch.mock.calls[3][0]).toContain('tradeno=5');
+  });
+
+  it('should start from fromTradeNo inclusively', async () => {
+    mockFetch.mockResolvedValueOnce(tradesResponse([99, 100, 101]));
+
+    const controller = new AbortController();
+    const seen: number[] = [];
+    for await (const trade of client.pollTrades('SBER', { fromTradeNo: 100, intervalMs: 1, signal: controller.signal })) {
+      seen.push(trade.TRADENO);
+      if (trade.TRADENO === 101) controller.abort();
+    }
+
+    expect(seen).toEqual([100, 101]);
+    expect(mockFetch.mock.calls[0][0]).toContain('tradeno=99');
+  });
+
+  it('should fetch next page immediately when page is full', async () => {
+    const fullPage = Array.from({ length: ISS_TRADES_PAGE_SIZE }, (_, i) => i + 1);
+    mockFetch
+      .mockResolvedValueOnce(tradesResponse(fullPage))
+      .mockResolvedValueOnce(tradesResponse([ISS_TRADES_PAGE_SIZE, ISS_TRADES_PAGE_SIZE + 1]));
+
+    const controller = new AbortController();
+    const trades: Trade[] = [];
+    const started = Date.now();
+    for await (const trade of client.pollTrades('SBER', { intervalMs: 60000, signal: controller.signal })) {
+      trades.push(trade);
+      if (trade.TRADENO === ISS_TRADES_PAGE_SIZE + 1) controller.abort();
+    }
+
+    expect(trades).toHaveLength(ISS_TRADES_PAGE_SIZE + 1);
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+
+  it('should stop waiting when aborted during pause', async () => {
+    mockFetch.mockResolvedValue(tradesResponse([]));
+
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+    const seen: Trade[] = [];
+    for await (const trade of client.pollTrades('SBER', { intervalMs: 60000, signal: controller.signal })) {
+      seen.push(trade);
+    }
+
+    expect(seen).toEqual([]);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep polling after transient errors', async () => {
+    client = new MoexClient({ fetch: mockFetch, validateRoutes: false, retry: { minDelay: 1, maxDelay: 1 } });
+    mockFetch
+      .mockResolvedValueOnce({ ok: false, status: 502, json: async () => ({}) })
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce({ ok: false, status: 429, json: async () => ({}) })
+      .mockResolvedValueOnce(tradesResponse([1, 2]));
+
+    const controller = new AbortController();
+    const seen: number[] = [];
+    for await (const trade of client.pollTrades('SBER', { intervalMs: 1, signal: controller.signal })) {
+      seen.push(trade.TRADENO);
+      if (trade.TRADENO === 2) controller.abort();
+    }
+
+    expect(seen).toEqual([1, 2]);
+    expect(mockFetch).toHaveBeenCalledTimes(4);
+  });
+
+  it('should stop on non-retryable errors', async () => {
+    mockFetch
+      .mockResolvedValueOnce(tradesResponse([1]))
+      .mockResolvedValueOnce({ ok: false, status: 404, json: async () => ({}) });
+
+    const seen: number[] = [];
+    const poll = async () => {
+      for await (const trade of client.pollTrades('SBER', { intervalMs: 1 })) {
+        seen.push(trade.TRADENO);
+      }
+    };
+
+    await expect(poll()).rejects.toBeInstanceOf(MoexNotFoundError);
+    expect(seen).toEqual([1]);
+  });
+});
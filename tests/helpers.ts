@@ -0,0 +1,25 @@
+// Shared transport mocks for tests (injected transport, no network)
+import { MoexClient, MoexClientOptions, FetchLike, FetchResponse } from '../src/moex-client';
+
+/**
+ * Successful ISS response with the given JSON body
+ */
+export const ok = (body: unknown): FetchResponse => ({ ok: true, status: 200, json: async () => body });
+
+/**
+ * Client with a mocked transport
+ */
+export interface MockClient {
+  client: MoexClient;
+  fetch: jest.MockedFunction<FetchLike>;
+}
+
+/**
+ * Creates a client whose requests go to a jest mock instead of the network.
+ * Route validation is off unless requested, so the mock answers only the data requests
+ * @param options - client options except the transport
+ */
+export function mockClient(options: Omit<MoexClientOptions, 'fetch'> = {}): MockClient {
+  const fetch: jest.MockedFunction<FetchLike> = jest.fn();
+  return { client: new MoexClient({ validateRoutes: false, ...options, fetch }), fetch };
+}
@@ -0,0 +1,121 @@
+// Tests for index analytics: constituents, values and index list (injected transport, no network)
+import { MoexClient, FetchLike } from '../src/moex-client';
+import { IndexMarketData } from '../src/types';
+import { ok, mockClient } from './helpers';
+
+const ANALYTICS_COLUMNS = [
+  'indexid', 'tradedate', 'ticker', 'shortnames', 'secids', 'weight', 'tradingsession', 'trade_session_date'
+];
+
+const analyticsPage = (rows: Array<[string, number]>, index: number, total: number) => ok({
+  analytics: {
+    columns: ANALYTICS_COLUMNS,
+    data: rows.map(([ticker, weight]) => ['IMOEX', '2024-03-15', ticker, `${ticker} name`, ticker, weight, 3, '2024-03-15'])
+  },
+  'analytics.cursor': {
+    columns: ['INDEX', 'TOTAL', 'PAGESIZE'],
+    data: [[index, total, 2]]
+  }
+});
+
+describe('index analytics', () => {
+  let mockFetch: jest.MockedFunction<FetchLike>;
+  let client: MoexClient;
+
+  beforeEach(() => {
+    ({ client, fetch: mockFetch } = mockClient());
+  });
+
+  describe('listIndices', () => {
+    it('should return typed indices', async () => {
+      mockFetch.mockResolvedValueOnce(ok({
+        indices: {
+          columns: ['indexid', 'shortname', 'from', 'till'],
+          data: [['IMOEX', 'Индекс МосБиржи', '2001-01-03', '2024-03-15'], ['RTSI', 'Индекс РТС', '2001-01-03', '2024-03-15']]
+        }
+      }));
+
+      const indices = await client.listIndices();
+
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        'https://iss.moex.com/iss/statistics/engines/stock/markets/index/analytics.json?iss.meta=off&iss.only=indices'
+      );
+      expect(indices.map(index => index.indexid)).toEqual(['IMOEX', 'RTSI']);
+      expect(indices[0]).toEqual({ indexid: 'IMOEX', shortname: 'Индекс МосБиржи', from: '2001-01-03', till: '2024-03-15' });
+    });
+  });
+
+  describe('getIndexConstituents', () => {
+    it('should follow the analytics cursor across pages', async () => {
+      mockFetch
+        .mockResolvedValueOnce(analyticsPage([['SBER', 14.5], ['LKOH', 13.9]], 0, 3))
+        .mockResolvedValueOnce(analyticsPage([['GAZP', 7.2]], 2, 3));
+
+      const constituents = await client.getIndexConstituents('IMOEX');
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        'https://iss.moex.com/iss/statistics/engines/stock/markets/index/analytics/IMOEX.json?iss.meta=off&iss.only=analytics,analytics.cursor&start=0'
+      );
+      expect(mockFetch.mock.calls[1][0]).toContain('&start=2');
+      expect(constituents.map(row => [row.ticker, row.weight])).toEqual([['SBER', 14.5], ['LKOH', 13.9], ['GAZP', 7.2]]);
+      expect(constituents[0]).toEqual({
+        indexid: 'IMOEX',
+        tradedate: '2024-03-15',
+        ticker: 'SBER',
+        shortnames: 'SBER name',
+        secids: 'SBER',
+        weight: 14.5,
+        tradingsession: 3,
+        trade_session_date: '2024-03-15'
+      });
+    });
+
+    it('should encode the index code in the path', async () => {
+      mockFetch.mockResolvedValueOnce(analyticsPage([], 0, 0));
+
+      await client.getIndexConstituents('IMOEX/../RTSI');
+
+      expect(mockFetch.mock.calls[0][0]).toContain('/analytics/IMOEX%2F..%2FRTSI.json?');
+    });
+
+    it('should pass the date to ISS', async () => {
+      mockFetch.mockResolvedValueOnce(analyticsPage([['SBER', 14.5]], 0, 1));
+
+      await client.getIndexConstituents('IMOEX', new Date('2024-03-15T10:00:00Z'));
+
+      expect(mockFetch.mock.calls[0][0]).toContain('&date=2024-03-15&start=0');
+    });
+
+    it('should return an empty array for an unknown index', async () => {
+      mockFetch.mockResolvedValueOnce(ok({ analytics: { columns: ANALYTICS_COLUMNS, data: [] } }));
+
+      await expect(client.getIndexConstituents('NOPE')).resolves.toEqual([]);
+    });
+  });
+
+  describe('getIndexValue', () => {
+    it('should request the index market', async () => {
+      mockFetch.mockResolvedValueOnce(ok({
+        marketdata: {
+          columns: ['SECID', 'BOARDID', 'CURRENTVALUE', 'LASTCHANGEPRC', 'CAPITALIZATION'],
+          data: [['IMOEX', 'SNDX', 3300.5, 0.42, 61000000000000]]
+        }
+      }));
+
+      const value: IndexMarketData | null = await client.getIndexValue('IMOEX');
+
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        'https://iss.moex.com/iss/engines/stock/markets/index/securities/IMOEX.json?iss.meta=off&iss.only=marketdata'
+      );
+      expect(value?.CURRENTVALUE).toBe(3300.5);
+      expect(value?.LASTCHANGEPRC).toBe(0.42);
+    });
+
+    it('should return null when the index is not found', async () => {
+      mockFetch.mockResolvedValueOnce(ok({ marketdata: { columns: ['SECID'], data: [] } }));
+
+      await expect(client.getIndexValue('NOPE')).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,210 @@
+// Tests for the ISS index: engine/market/board discovery and route validation (injected transport, no network)
+import { MoexClient, FetchLike } from '../src/moex-client';
+import { MoexRouteError } from '../src/errors';
+import { MemoryCacheStore } from '../src/cache';
+import { Engine, Market } from '../src/types';
+import { ok, mockClient } from './helpers';
+
+const indexResponse = () => ok({
+  engines: {
+    columns: ['id', 'name', 'title'],
+    data: [[1, 'stock', 'Фондовый рынок'], [3, 'currency', 'Валютный рынок']]
+  },
+  markets: {
+    columns: ['id', 'trade_engine_id', 'trade_engine_name', 'trade_engine_title', 'market_name', 'market_title', 'market_id', 'marketplace'],
+    data: [
+      [1, 1, 'stock', 'Фондовый рынок', 'shares', 'Рынок акций', 1, 'MXSE'],
+      [2, 1, 'stock', 'Фондовый рынок', 'bonds', 'Рынок облигаций', 2, 'MXSE'],
+      [10, 3, 'currency', 'Валютный рынок', 'selt', 'Биржевые сделки', 10, 'MXCX']
+    ]
+  },
+  boards: {
+    columns: ['id', 'board_group_id', 'engine_id', 'market_id', 'boardid', 'board_title', 'is_traded', 'has_candles', 'is_primary'],
+    data: [
+      [129, 57, 1, 1, 'TQBR', 'Т+: Акции и ДР', 1, 1, 1],
+      [130, 57, 1, 1, 'SMAL', 'Т+: Неполные лоты', 1, 1, 0],
+      [7, 58, 1, 2, 'TQCB', 'Т+: Облигации', 1, 1, 1],
+      [13, 9, 3, 10, 'CETS', 'Системные сделки', 1, 1, 1]
+    ]
+  },
+  boardgroups: { columns: ['id', 'name'], data: [[57, 'stock_tplus']] },
+  securitytypes: { columns: ['id', 'security_type_name'], data: [[3, 'common_share']] },
+  securitygroups: { columns: ['id', 'name', 'title', 'is_hidden'], data: [[1, 'stock_shares', 'Акции', 0]] }
+});
+
+const securitiesResponse = () => ok({ securities: { columns: ['SECID'], data: [['SBER']] } });
+
+describe('ISS index', () => {
+  let mockFetch: jest.MockedFunction<FetchLike>;
+  let client: MoexClient;
+
+  beforeEach(() => {
+    ({ client, fetch: mockFetch } = mockClient());
+  });
+
+  it('should load the index once and map all blocks', async () => {
+    mockFetch.mockResolvedValueOnce(indexResponse());
+
+    const index = await client.getIndex();
+    await client.getIndex();
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      'https://iss.moex.com/iss/index.json?iss.meta=off&iss.only=engines,markets,boards,boardgroups,securitytypes,securitygroups'
+    );
+    expect(index.engines).toHaveLength(2);
+    expect(index.securitygroups[0]).toEqual({ id: 1, name: 'stock_shares', title: 'Акции', is_hidden: 0 });
+  });
+
+  it('should reload the index with cache: false', async () => {
+    mockFetch.mockResolvedValue(indexResponse());
+
+    await client.getIndex();
+    await client.getIndex({ cache: false });
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not remember a failed load', async () => {
+    mockFetch
+      .mockResolvedValueOnce({ ok: false, status: 503, json: async () => ({}) })
+      .mockResolvedValueOnce(indexResponse());
+
+    await expect(client.getIndex()).rejects.toThrow('Failed to fetch ISS index: HTTP error! status: 503');
+    await expect(client.getIndex()).resolves.toHaveProperty('engines');
+  });
+
+  it('should keep the index in the client cache with the reference TTL', async () => {
+    const store = new MemoryCacheStore();
+    ({ client, fetch: mockFetch } = mockClient({ cache: { store, ttl: { reference: 60_000 } } }));
+    mockFetch.mockResolvedValue(indexResponse());
+
+    const before = Date.now();
+    await client.getIndex();
+    const [key] = mockFetch.mock.calls[0];
+    const entry = (await store.get(key))!;
+    expect(entry.value).toHaveProperty('engines');
+    expect(entry.expiresAt - entry.storedAt).toBe(60_000);
+    expect(entry.storedAt).toBeGreaterThanOrEqual(before);
+
+    // An expired entry is loaded again
+    await store.set(key, { ...entry, expiresAt: Date.now() - 1 });
+    await client.getIndex();
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should share one load between concurrent calls', async () => {
+    mockFetch.mockResolvedValue(indexResponse());
+
+    await Promise.all([client.getIndex(), client.getIndex(), client.getEngines()]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should list engines, markets and boards', async () => {
+    mockFetch.mockResolvedValueOnce(indexResponse());
+
+    expect((await client.getEngines()).map(e => e.name)).toEqual(['stock', 'currency']);
+    expect((await client.getMarkets(Engine.STOCK)).map(m => m.market_name)).toEqual(['shares', 'bonds']);
+    expect((await client.getBoards(Engine.STOCK, Market.SHARES)).map(b => b.boardid)).toEqual(['TQBR', 'SMAL']);
+    expect(await client.getBoards(Engine.CURRENCY, Market.BONDS)).toEqual([]);
+  });
+
+  describe('validateRoute', () => {
+    beforeEach(() => {
+      mockFetch.mockResolvedValueOnce(indexResponse());
+    });
+
+    it('should accept known combinations', async () => {
+      await expect(client.validateRoute(Engine.STOCK, Market.SHARES)).resolves.toBeUndefined();
+      await expect(client.validateRoute(Engine.STOCK, Market.SHARES, 'tqbr')).resolves.toBeUndefined();
+      await expect(client.validateRoute(Engine.CURRENCY, Market.SELT, 'CETS')).resolves.toBeUndefined();
+    });
+
+    it('should reject a market that does not belong to the engine', async () => {
+      const error = await client.validateRoute(Engine.CURRENCY, Market.BONDS).catch(e => e);
+
+      expect(error).toBeInstanceOf(MoexRouteError);
+      expect(error.message).toBe('Market "bonds" is not available in engine "currency". Available markets: selt');
+      expect(error).toMatchObject({ engine: 'currency', market: 'bonds' });
+    });
+
+    it('should reject an unknown engine', async () => {
+      await expect(client.validateRoute(Engine.FUTURES, Market.SHARES))
+        .rejects.toThrow('Unknown engine "futures". Available engines: stock, currency');
+    });
+
+    it('should reject a board from another market', async () => {
+      await expect(client.validateRoute(Engine.STOCK, Market.SHARES, 'TQCB'))
+        .rejects.toThrow('Board "TQCB" is not available in stock/shares. Available boards: TQBR, SMAL');
+    });
+  });
+
+  describe('validateRoutes option', () => {
+    beforeEach(() => {
+      client = new MoexClient({ fetch: mockFetch, validateRoutes: true });
+    });
+
+    it('should be enabled by default', async () => {
+      client = new MoexClient({ fetch: mockFetch });
+      mockFetch.mockResolvedValueOnce(indexResponse());
+
+      await expect(client.getSecurities(Engine.FUTURES, Market.FORTS)).rejects.toThrow('Unknown engine "futures"');
+      await expect(client.getSecurities(Engine.CURRENCY, Market.BONDS)).rejects.toThrow('Market "bonds" is not available');
+      await expect(client.getBoardMarketData('SBER', 'CETS')).rejects.toThrow('Board "CETS" is not available in stock/shares');
+
+      // Only the index was requested
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch.mock.calls[0][0]).toContain('/index.json');
+    });
+
+    it('should validate the route before sending a request', async () => {
+      mockFetch.mockResolvedValueOnce(indexResponse()).mockResolvedValueOnce(securitiesResponse());
+
+      await client.getSecurities(Engine.STOCK, Market.SHARES);
+      await expect(client.getSecurities(Engine.CURRENCY, Market.BONDS)).rejects.toBeInstanceOf(MoexRouteError);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[1][0]).toContain('/engines/stock/markets/shares/securities.json');
+    });
+
+    it('should validate boards in history paths', async () => {
+      mockFetch.mockResolvedValueOnce(indexResponse());
+
+      const error = await client.getHistory('SBER', { board: 'CETS' }).catch(e => e);
+
+      expect(error).toBeInstanceOf(MoexRouteError);
+      expect(error.url).toContain('/history/engines/stock/markets/shares/boards/CETS/');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should send the request unchecked when the index cannot be loaded', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 503, json: async () => ({}) })
+        .mockResolvedValueOnce(securitiesResponse())
+        .mockResolvedValueOnce(indexResponse());
+
+      await expect(client.getSecurities(Engine.STOCK, Market.SHARES)).resolves.toEqual([{ SECID: 'SBER' }]);
+      // The failure is not remembered: the next request loads the index again and is checked
+      await expect(client.getSecurities(Engine.CURRENCY, Market.BONDS)).rejects.toBeInstanceOf(MoexRouteError);
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should send the request unchecked when the index is empty', async () => {
+      // A proxy or a stub in place of ISS answers the index without its blocks
+      mockFetch.mockResolvedValueOnce(ok({})).mockResolvedValueOnce(securitiesResponse());
+
+      await expect(client.getSecurities(Engine.STOCK, Market.SHARES)).resolves.toEqual([{ SECID: 'SBER' }]);
+      expect(mockFetch.mock.calls[1][0]).toContain('/engines/stock/markets/shares/securities.json');
+    });
+
+    it('should not validate requests outside engine/market routes', async () => {
+      mockFetch.mockResolvedValueOnce(ok({ boards: { columns: ['secid'], data: [] } }));
+
+      await client.getSecurityBoards('SBER');
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,191 @@
+// Tests for per-market Security and MarketData types (injected transport, no network)
+import { MoexClient, FetchLike } from '../src/moex-client';
+import {
+  Engine,
+  Market,
+  AnyMarketData,
+  AnySecurity,
+  BondsMarketData,
+  BondsSecurity,
+  FuturesMarketData,
+  IndexMarketData,
+  IndexSecurity,
+  MarketData,
+  MarketDataFor,
+  Security,
+  SecurityFor
+} from '../src/types';
+import { SchemaDrift } from '../src/schema';
+import { ok, mockClient } from './helpers';
+
+// Compile-time check: the assignment fails to type-check unless A and B are the same type
+type Equals<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false;
+
+describe('per-market types', () => {
+  let mockFetch: jest.MockedFunction<FetchLike>;
+  let client: MoexClient;
+
+  beforeEach(() => {
+    ({ client, fetch: mockFetch } = mockClient());
+  });
+
+  describe('getSecurities', () => {
+    it('should request bond columns for the bonds market', async () => {
+      mockFetch.mockResolvedValueOnce(ok({ securities: { columns: ['SECID'], data: [] } }));
+
+      await client.getSecurities(Engine.STOCK, Market.BONDS);
+
+      const url = mockFetch.mock.calls[0][0];
+      expect(url).toContain('securities.columns=');
+      expect(url).toContain('MATDATE');
+      expect(url).toContain('COUPONVALUE');
+      expect(url).toContain('ACCRUEDINT');
+    });
+
+    it('should request futures columns for FORTS', async () => {
+      mockFetch.mockResolvedValueOnce(ok({ securities: { columns: ['SECID'], data: [] } }));
+
+      await client.getSecurities(Engine.FUTURES, Market.FORTS);
+
+      const url = mockFetch.mock.calls[0][0];
+      expect(url).toContain('/engines/futures/markets/forts/securities.json');
+      expect(url).toContain('ASSETCODE');
+      expect(url).toContain('LASTTRADEDATE');
+    });
+
+    it('should request index columns for the index market', async () => {
+      mockFetch.mockResolvedValueOnce(ok({
+        securities: { columns: ['SECID', 'BOARDID', 'NAME', 'ANNUALHIGH'], data: [['IMOEX', 'SNDX', 'Индекс МосБиржи', '3500.1']] }
+      }));
+
+      const [index] = await client.getSecurities(Engine.STOCK, Market.INDEX);
+      const high: number | null = index.ANNUALHIGH;
+
+      expect(mockFetch.mock.calls[0][0]).toContain('securities.columns=SECID,BOARDID,NAME,SHORTNAME,DECIMALS,ANNUALHIGH');
+      expect(mockFetch.mock.calls[0][0]).not.toContain('LOTSIZE');
+      expect(high).toBe(3500.1);
+    });
+
+    it('should keep the legacy column list for shares', async () => {
+      mockFetch.mockResolvedValueOnce(ok({ securities: { columns: ['SECID'], data: [] } }));
+
+      await client.getSecurities();
+
+      expect(mockFetch.mock.calls[0][0]).not.toContain('MATDATE');
+    });
+  });
+
+  describe('getMarketData', () => {
+    it('should check bond market data against the bonds schema', async () => {
+      const drifts: SchemaDrift[] = [];
+      client = new MoexClient({ fetch: mockFetch, validateRoutes: false, schemaDrift: drift => drifts.push(drift) });
+      mockFetch.mockResolvedValueOnce(ok({
+        marketdata: {
+          columns: ['SECID', 'BOARDID', 'LAST', 'YIELD', 'DURATION'],
+          data: [['SU26238RMFS4', 'TQOB', 58.1, 'n/a', 4200]]
+        }
+      }));
+
+      await client.getMarketData('SU26238RMFS4', Engine.STOCK, Market.BONDS);
+
+      expect(drifts).toHaveLength(1);
+      expect(drifts[0].missingColumns).toContain('CLOSEYIELD');
+      expect(drifts[0].unexpectedColumns).toEqual([]);
+      expect(drifts[0].typeMismatches.map(mismatch => mismatch.column)).toEqual(['YIELD']);
+    });
+
+    it('should narrow the result type by engine and market', async () => {
+      mockFetch.mockResolvedValueOnce(ok({
+        marketdata: {
+          columns: ['SECID', 'BOARDID', 'LAST', 'YIELD', 'DURATION'],
+          data: [['SU26238RMFS4', 'TQOB', 58.1, 14.2, 4200]]
+        }
+      }));
+      mockFetch.mockResolvedValueOnce(ok({
+        marketdata: {
+          columns: ['SECID', 'BOARDID', 'LAST', 'SETTLEPRICE', 'OPENPOSITION'],
+          data: [['SiZ4', 'RFUD', 101000, 100950, 1500000]]
+        }
+      }));
+
+      const bond: BondsMarketData | null = await client.getMarketData('SU26238RMFS4', Engine.STOCK, Market.BONDS);
+      const future: FuturesMarketData | null = await client.getMarketData('SiZ4', Engine.FUTURES, Market.FORTS);
+
+      expect(bond?.YIELD).toBe(14.2);
+      expect(bond?.DURATION).toBe(4200);
+      expect(future?.SETTLEPRICE).toBe(100950);
+      expect(future?.OPENPOSITION).toBe(1500000);
+    });
+
+    it('should fall back to any market data for a non-literal market', async () => {
+      mockFetch.mockResolvedValueOnce(ok({
+        marketdata: { columns: ['SECID', 'BOARDID', 'LAST'], data: [['SBER', 'TQBR', 270]] }
+      }));
+
+      const market = Market.SHARES as Market;
+      const result = await client.getMarketData('SBER', Engine.STOCK, market);
+      const isAny: Equals<typeof result, AnyMarketData | null> = true;
+
+      expect(isAny).toBe(true);
+      // A non-literal market may return index rows, which have no LAST
+      expect(result && 'LAST' in result ? result.LAST : undefined).toBe(270);
+    });
+  });
+
+  describe('type mapping', () => {
+    it('should resolve literal engines and markets and fall back for non-literal ones', () => {
+      const checks: true[] = [
+        true as Equals<SecurityFor<Engine.STOCK, Market.SHARES>, Security>,
+        true as Equals<SecurityFor<Engine.STOCK, Market.BONDS>, BondsSecurity>,
+        true as Equals<SecurityFor<Engine, Market.BONDS>, BondsSecurity>,
+        true as Equals<SecurityFor<Engine, Market>, AnySecurity>,
+        true as Equals<SecurityFor<Engine.FUTURES, Market>, AnySecurity>,
+        true as Equals<SecurityFor<Engine, Market.FORTS>, AnySecurity>,
+        true as Equals<SecurityFor<Engine.STOCK, Market.INDEX>, IndexSecurity>,
+        true as Equals<MarketDataFor<Engine.STOCK, Market.INDEX>, IndexMarketData>,
+        true as Equals<MarketDataFor<Engine.STOCK, Market.SHARES>, MarketData>,
+        true as Equals<MarketDataFor<Engine.FUTURES, Market.FORTS>, FuturesMarketData>,
+        true as Equals<MarketDataFor<Engine, Market>, AnyMarketData>,
+        true as Equals<MarketDataFor<Engine.STOCK, Market>, AnyMarketData>
+      ];
+
+      expect(checks.every(Boolean)).toBe(true);
+    });
+  });
+
+  describe('getSecuritiesWithMarketData', () => {
+    it('should request and type bond columns for the bonds market', async () => {
+      mockFetch.mockResolvedValueOnce(ok({
+        securities: { columns: ['SECID', 'BOARDID', 'ACCRUEDINT'], data: [['SU26238RMFS4', 'TQOB', 12.5]] },
+        marketdata: { columns: ['SECID', 'BOARDID', 'YIELD'], data: [['SU26238RMFS4', 'TQOB', 14.2]] }
+      }));
+
+      const [bond] = await client.getSecuritiesWithMarketData(Engine.STOCK, Market.BONDS);
+      const accrued: number | null = bond.ACCRUEDINT;
+      const marketData: BondsMarketData | null = bond.marketdata;
+
+      expect(mockFetch.mock.calls[0][0]).toContain('ACCRUEDINT');
+      expect(accrued).toBe(12.5);
+      expect(marketData?.YIELD).toBe(14.2);
+    });
+  });
+
+  describe('getMarketDataBatch', () => {
+    it('should check and type rows with the schema of the market', async () => {
+      const drifts: SchemaDrift[] = [];
+      client = new MoexClient({ fetch: mockFetch, validateRoutes: false, schemaDrift: drift => drifts.push(drift) });
+      mockFetch.mockResolvedValueOnce(ok({
+        marketdata: {
+          columns: ['SECID', 'BOARDID', 'SETTLEPRICE', 'OPENPOSITION'],
+          data: [['SiZ4', 'RFUD', 100950, 1500000]]
+        }
+      }));
+
+      const batch = await client.getMarketDataBatch(['SiZ4'], Engine.FUTURES, Market.FORTS);
+      const future: FuturesMarketData | undefined = batch.data.get('SiZ4');
+
+      expect(future?.SETTLEPRICE).toBe(100950);
+      expect(drifts[0].missingColumns).toContain('OICHANGE');
+    });
+  });
+});
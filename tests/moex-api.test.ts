@@ -6,49 +6,16 @@ if (!USE_REAL_API) {
   jest.mock('undici');
 }
 
-import { getSecurities, getMarketData, getTradingSessions, Security, MarketData, Engine, Market } from '../src/moex-api';
+import { getSecurities, getMarketData, getTradingSessions, setDefaultClient, Security, MarketData, Engine, Market } from '../src/moex-api';
+import { RateLimiter } from '../src/rate-limiter';
+import { MoexClient } from '../src/moex-client';
 
-// Simple rate limiter for real API calls (max 2 concurrent requests)
-class SimpleRateLimiter {
-  private queue: Array<() => void> = [];
-  private running = 0;
-  private maxConcurrent: number;
-
-  constructor(maxConcurrent: number) {
-    this.maxConcurrent = maxConcurrent;
-  }
-
-  async limit<T>(fn: () => Promise<T>): Promise<T> {
-    return new Promise((resolve, reject) => {
-      this.queue.push(async () => {
-        try {
-          this.running++;
-          const result = await fn();
-          resolve(result);
-        } catch (error) {
-          reject(error);
-        } finally {
-          this.running--;
-          this.processQueue();
-        }
-      });
-      this.processQueue();
-    });
-  }
-
-  private processQueue() {
-    if (this.running < this.maxConcurrent && this.queue.length > 0) {
-      const next = this.queue.shift();
-      if (next) next();
-    }
-  }
-}
-
-let limit: SimpleRateLimiter | undefined;
+// Rate limiter for real API calls (max 2 concurrent requests)
+let limit: RateLimiter | undefined;
 
 // Initialize rate limiter only for real API tests
 if (USE_REAL_API) {
-  limit = new SimpleRateLimiter(2);
+  limit = new RateLimiter({ maxConcurrent: 2 });
 }
 
 // Get mocked fetch only if not using real API
@@ -56,12 +23,14 @@ let mockFetch: jest.MockedFunction<typeof fetch> | undefined;
 if (!USE_REAL_API) {
   const undici = require('undici') as { fetch: jest.MockedFunction<typeof fetch> };
   mockFetch = undici.fetch;
+  // The mocked transport answers only the data requests, not the ISS index
+  setDefaultClient(new MoexClient({ validateRoutes: false }));
 }
 
 // Helper function to wrap API calls with rate limiting for real API
 const rateLimitedCall = <T>(apiCall: () => Promise<T>): Promise<T> => {
   if (USE_REAL_API && limit) {
-    return limit.limit(() => apiCall());
+    return limit.schedule(() => apiCall());
   }
   return apiCall();
 };
@@ -196,10 +165,12 @@ describe('MOEX API Library', () => {
         await getSecurities(Engine.CURRENCY, Market.SELT, 50);
 
         expect(mockFetch).toHaveBeenCalledWith(
-          expect.stringContaining('/engines/currency/markets/selt/securities.json')
+          expect.stringContaining('/engines/currency/markets/selt/securities.json'),
+          expect.anything()
         );
         expect(mockFetch).toHaveBeenCalledWith(
-          expect.stringContaining('limit=50')
+          expect.stringContaining('limit=50'),
+          expect.anything()
         );
       });
     }
@@ -297,7 +268,8 @@ describe('MOEX API Library', () => {
         await getMarketData('USD000UTSTOM', Engine.CURRENCY, Market.SELT);
 
         expect(mockFetch).toHaveBeenCalledWith(
-          expect.stringContaining('/engines/currency/markets/selt/securities/USD000UTSTOM.json')
+          expect.stringContaining('/engines/currency/markets/selt/securities/USD000UTSTOM.json'),
+          expect.anything()
         );
       });
     }
@@ -392,7 +364,8 @@ describe('MOEX API Library', () => {
         await getTradingSessions(Engine.CURRENCY, Market.SELT);
 
         expect(mockFetch).toHaveBeenCalledWith(
-          expect.stringContaining('/engines/currency/markets/selt/sessions.json')
+          expect.stringContaining('/engines/currency/markets/selt/sessions.json'),
+          expect.anything()
         );
       });
     }
@@ -433,8 +406,25 @@ describe('MOEX API Library', () => {
 
         const expectedUrl = 'https://iss.moex.com/iss/engines/stock/markets/shares/securities.json?iss.meta=off&iss.only=securities&securities.columns=SECID,BOARDID,SHORTNAME,PREVPRICE,LOTSIZE,FACEVALUE,STATUS,BOARDNAME,DECIMALS,SECNAME,REMARKS,MARKETCODE,INSTRID,SECTORID,MINSTEP,PREVWAPRICE,FACEUNIT,PREVDATE,ISSUESIZE,ISIN,LATNAME,REGNUMBER,PREVLEGALCLOSEPRICE,CURRENCYID,SECTYPE,LISTLEVEL,SETTLEDATE&start=0&limit=10';
         
-        expect(mockFetch).toHaveBeenCalledWith(expectedUrl);
+        expect(mockFetch).toHaveBeenCalledWith(expectedUrl, expect.anything());
       });
     });
   }
+
+  if (USE_REAL_API) {
+    describe('Schema drift (Real API only)', () => {
+      // Fails when ISS drops a column or changes a value type; new columns are allowed
+      const strictClient = new MoexClient({ schemaDrift: 'throw' });
+
+      it('should match Security schema', async () => {
+        const result = await rateLimitedCall(() => strictClient.getSecurities(Engine.STOCK, Market.SHARES, 5));
+
+        expect(result.length).toBeGreaterThan(0);
+      }, 10000);
+
+      it('should match MarketData schema', async () => {
+        await rateLimitedCall(() => strictClient.getMarketData('SBER'));
+      }, 10000);
+    });
+  }
 });
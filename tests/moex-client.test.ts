@@ -0,0 +1,174 @@
+// Tests for MoexClient configuration (injected transport, no network)
+import { MoexClient, DEFAULT_USER_AGENT, FetchLike } from '../src/moex-client';
+import { Engine, Market } from '../src/types';
+
+const jsonResponse = (body: unknown) => ({
+  ok: true,
+  status: 200,
+  json: async () => body
+});
+
+describe('MoexClient', () => {
+  let mockFetch: jest.MockedFunction<FetchLike>;
+
+  beforeEach(() => {
+    mockFetch = jest.fn();
+  });
+
+  it('should use custom base URL and strip trailing slash', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ sessions: { columns: [], data: [] } }));
+    const client = new MoexClient({ baseUrl: 'http://proxy.local/iss/', fetch: mockFetch, validateRoutes: false });
+
+    await client.getTradingSessions(Engine.CURRENCY, Market.SELT);
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      'http://proxy.local/iss/engines/currency/markets/selt/sessions.json?iss.meta=off',
+      expect.anything()
+    );
+  });
+
+  it('should send default headers and user agent', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ securities: { columns: [], data: [] } }));
+    const client = new MoexClient({
+      fetch: mockFetch,
+      validateRoutes: false,
+      headers: { Authorization: 'Bearer token' },
+      userAgent: 'screener/2.0'
+    });
+
+    await client.getSecurities();
+
+    const init = mockFetch.mock.calls[0][1]!;
+    expect(init.headers).toEqual({
+      'User-Agent': 'screener/2.0',
+      Authorization: 'Bearer token'
+    });
+  });
+
+  it('should use library user agent by default', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ securities: { columns: [], data: [] } }));
+    const client = new MoexClient({ fetch: mockFetch, validateRoutes: false });
+
+    await client.getSecurities();
+
+    expect(mockFetch.mock.calls[0][1]!.headers['User-Agent']).toBe(DEFAULT_USER_AGENT);
+  });
+
+  it('should pass abort signal when timeout is set', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ marketdata: { columns: [], data: [] } }));
+    const client = new MoexClient({ fetch: mockFetch, validateRoutes: false, timeout: 5000 });
+
+    await client.getMarketData('SBER');
+
+    expect(mockFetch.mock.calls[0][1]!.signal).toBeDefined();
+  });
+
+  it('should not pass abort signal when timeout is disabled', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ marketdata: { columns: [], data: [] } }));
+    const client = new MoexClient({ fetch: mockFetch, validateRoutes: false, timeout: 0 });
+
+    await client.getMarketData('SBER');
+
+    expect(mockFetch.mock.calls[0][1]!.signal).toBeUndefined();
+  });
+
+  it('should map market data through injected transport', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({
+      marketdata: {
+        columns: ['SECID', 'BOARDID', 'LAST'],
+        data: [['SBER', 'TQBR', 250.5]]
+      }
+    }));
+    const client = new MoexClient({ fetch: mockFetch, validateRoutes: false });
+
+    const result = await client.getMarketData('SBER');
+
+    expect(result).toEqual({ SECID: 'SBER', BOARDID: 'TQBR', LAST: 250.5 });
+  });
+
+  it('should wrap transport errors', async () => {
+    mockFetch.mockRejectedValueOnce(new Error('socket hang up'));
+    const client = new MoexClient({ fetch: mockFetch, validateRoutes: false });
+
+    await expect(client.getSecurities()).rejects.toThrow('Failed to fetch securities: socket hang up');
+  });
+
+  describe('pagination', () => {
+    const securitiesPage = (from: number, count: number) => jsonResponse({
+      securities: {
+        columns: ['SECID', 'BOARDID'],
+        data: Array.from({ length: count }, (_, i) => [`SEC${from + i}`, 'TQBR'])
+      }
+    });
+
+    it('should walk start cursor until a short page', async () => {
+      mockFetch
+        .mockResolvedValueOnce(securitiesPage(0, 100))
+        .mockResolvedValueOnce(securitiesPage(100, 100))
+        .mockResolvedValueOnce(securitiesPage(200, 42));
+      const client = new MoexClient({ fetch: mockFetch, validateRoutes: false });
+
+      const result = await client.getAllSecurities(Engine.STOCK, Market.SHARES);
+
+      expect(result).toHaveLength(242);
+      expect(result[241].SECID).toBe('SEC241');
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(mockFetch.mock.calls[0][0]).toContain('start=0&limit=100');
+      expect(mockFetch.mock.calls[1][0]).toContain('start=100&limit=100');
+      expect(mockFetch.mock.calls[2][0]).toContain('start=200&limit=100');
+    });
+
+    it('should stop on empty page', async () => {
+      mockFetch
+        .mockResolvedValueOnce(securitiesPage(0, 100))
+        .mockResolvedValueOnce(securitiesPage(100, 0));
+      const client = new MoexClient({ fetch: mockFetch, validateRoutes: false });
+
+      const result = await client.getAllSecurities();
+
+      expect(result).toHaveLength(100);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should respect page size and cap it at ISS limit', async () => {
+      mockFetch
+        .mockResolvedValueOnce(securitiesPage(0, 20))
+        .mockResolvedValueOnce(securitiesPage(20, 5));
+      const client = new MoexClient({ fetch: mockFetch, validateRoutes: false });
+
+      await client.getAllSecurities(Engine.STOCK, Market.BONDS, { pageSize: 20 });
+      expect(mockFetch.mock.calls[1][0]).toContain('start=20&limit=20');
+
+      mockFetch.mockResolvedValueOnce(securitiesPage(0, 3));
+      await client.getAllSecurities(Engine.STOCK, Market.BONDS, { pageSize: 5000 });
+      expect(mockFetch.mock.calls[2][0]).toContain('limit=100');
+    });
+
+    it('should stop at maxRows', async () => {
+      mockFetch
+        .mockResolvedValueOnce(securitiesPage(0, 100))
+        .mockResolvedValueOnce(securitiesPage(100, 50));
+      const client = new MoexClient({ fetch: mockFetch, validateRoutes: false });
+
+      const result = await client.getAllSecurities(Engine.STOCK, Market.SHARES, { maxRows: 150 });
+
+      expect(result).toHaveLength(150);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[1][0]).toContain('start=100&limit=50');
+    });
+
+    it('should stream rows lazily through async iterator', async () => {
+      mockFetch.mockResolvedValueOnce(securitiesPage(0, 100));
+      const client = new MoexClient({ fetch: mockFetch, validateRoutes: false });
+
+      const seen: string[] = [];
+      for await (const security of client.iterateSecurities()) {
+        seen.push(security.SECID);
+        if (seen.length === 3) break;
+      }
+
+      expect(seen).toEqual(['SEC0', 'SEC1', 'SEC2']);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,157 @@
+// Tests for normalized dates, timestamps and exact decimal prices (injected transport, no network)
+import { MoexClient, FetchLike } from '../src/moex-client';
+import { toDecimal, decimalToUnits, moscowDateTime, normalizeRow } from '../src/normalize';
+import { Decimal, Engine, Market } from '../src/types';
+import { ok, mockClient } from './helpers';
+
+describe('toDecimal', () => {
+  it('should pad and round prices to DECIMALS', () => {
+    expect(toDecimal(270.5, 2)).toBe('270.50');
+    expect(toDecimal(270, 0)).toBe('270');
+    expect(toDecimal(0.1 + 0.2, 2)).toBe('0.30');
+    expect(toDecimal(-0.125, 2)).toBe('-0.13');
+    expect(toDecimal(1e-7, 8)).toBe('0.00000010');
+    expect(toDecimal(1e21, 1)).toBe('1000000000000000000000.0');
+  });
+
+  it('should round the shortest representation instead of the binary value', () => {
+    // (1.005).toFixed(2) gives '1.00' because of the binary representation
+    expect(toDecimal(1.005, 2)).toBe('1.01');
+  });
+
+  it('should keep all digits without DECIMALS', () => {
+    expect(toDecimal(0.1)).toBe('0.1');
+    expect(toDecimal(42)).toBe('42');
+  });
+
+  it('should reject non-finite numbers', () => {
+    expect(() => toDecimal(NaN, 2)).toThrow(RangeError);
+    expect(() => toDecimal(Infinity, 2)).toThrow(RangeError);
+  });
+});
+
+describe('decimalToUnits', () => {
+  it('should convert decimals to scaled bigint for exact arithmetic', () => {
+    expect(decimalToUnits('270.5', 2)).toBe(27050n);
+    expect(decimalToUnits('-1.005', 2)).toBe(-101n);
+    expect(decimalToUnits('3', 2)).toBe(300n);
+
+    const total = ['0.10', '0.20', '0.30'].reduce((sum, price) => sum + decimalToUnits(price, 2), 0n);
+    expect(total).toBe(60n);
+  });
+
+  it('should reject malformed decimals', () => {
+    expect(() => decimalToUnits('1.2.3', 2)).toThrow('Invalid decimal "1.2.3"');
+  });
+});
+
+describe('normalizeRow', () => {
+  it('should interpret dates and times in Moscow time', () => {
+    expect(moscowDateTime('2024-03-15')).toEqual(new Date('2024-03-14T21:00:00Z'));
+
+    const row = normalizeRow({
+      SECID: 'SBER',
+      LAST: 270.5,
+      NUMTRADES: 1200,
+      UPDATETIME: '18:45:09',
+      TIME: '18:45:05',
+      SYSTIME: '2024-03-15 18:45:10',
+      OPEN: null
+    }, 2);
+
+    expect(row).toEqual({
+      SECID: 'SBER',
+      LAST: '270.50',
+      NUMTRADES: 1200,
+      UPDATETIME: new Date('2024-03-15T15:45:09Z'),
+      TIME: new Date('2024-03-15T15:45:05Z'),
+      SYSTIME: new Date('2024-03-15T15:45:10Z'),
+      OPEN: null
+    });
+  });
+
+  it('should combine times with TRADEDATE when it is present', () => {
+    const row = normalizeRow({ TRADEDATE: '2024-03-18', UPDATETIME: '09:00:00', SYSTIME: '2024-03-15 23:50:00' });
+
+    expect(row.TRADEDATE).toEqual(new Date('2024-03-17T21:00:00Z'));
+    expect(row.UPDATETIME).toEqual(new Date('2024-03-18T06:00:00Z'));
+  });
+});
+
+describe('normalized requests', () => {
+  let mockFetch: jest.MockedFunction<FetchLike>;
+  let client: MoexClient;
+
+  const securitiesResponse = () => ok({
+    securities: {
+      columns: ['SECID', 'BOARDID', 'PREVPRICE', 'LOTSIZE', 'DECIMALS', 'MINSTEP', 'PREVDATE', 'SETTLEDATE'],
+      data: [['SBER', 'TQBR', 270.5, 10, 2, 0.01, '2024-03-14', '2024-03-18']]
+    }
+  });
+
+  beforeEach(() => {
+    ({ client, fetch: mockFetch } = mockClient());
+  });
+
+  it('should keep plain values by default', async () => {
+    mockFetch.mockResolvedValueOnce(securitiesResponse());
+
+    const [security] = await client.getSecurities();
+
+    expect(security.PREVPRICE).toBe(270.5);
+    expect(security.PREVDATE).toBe('2024-03-14');
+  });
+
+  it('should normalize securities on request', async () => {
+    mockFetch.mockResolvedValueOnce(securitiesResponse());
+
+    const [security] = await client.getSecurities(Engine.STOCK, Market.SHARES, 10, { normalize: true });
+    const price: Decimal | null = security.PREVPRICE;
+    const prevDate: Date = security.PREVDATE;
+
+    expect(price).toBe('270.50');
+    expect(security.MINSTEP).toBe('0.01');
+    expect(security.LOTSIZE).toBe(10);
+    expect(prevDate).toEqual(new Date('2024-03-13T21:00:00Z'));
+    expect(security.SETTLEDATE).toEqual(new Date('2024-03-17T21:00:00Z'));
+  });
+
+  it('should request DECIMALS with market data and round prices to it', async () => {
+    mockFetch.mockResolvedValueOnce(ok({
+      marketdata: {
+        columns: ['SECID', 'BOARDID', 'LAST', 'BID', 'UPDATETIME', 'SYSTIME'],
+        data: [['GAZP', 'TQBR', 160.1, 160.08000000000001, '18:45:09', '2024-03-15 18:45:10']]
+      },
+      securities: {
+        columns: ['SECID', 'BOARDID', 'DECIMALS'],
+        data: [['GAZP', 'SMAL', 1], ['GAZP', 'TQBR', 2]]
+      }
+    }));
+
+    const data = await client.getMarketData('GAZP', Engine.STOCK, Market.SHARES, { normalize: true });
+
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      'https://iss.moex.com/iss/engines/stock/markets/shares/securities/GAZP.json?iss.meta=off&iss.only=marketdata,securities&securities.columns=SECID,BOARDID,DECIMALS'
+    );
+    expect(data?.LAST).toBe('160.10');
+    expect(data?.BID).toBe('160.08');
+    expect(data?.UPDATETIME).toEqual(new Date('2024-03-15T15:45:09Z'));
+  });
+
+  it('should normalize typed bond fields', async () => {
+    mockFetch.mockResolvedValueOnce(ok({
+      securities: {
+        columns: ['SECID', 'BOARDID', 'DECIMALS', 'PREVPRICE', 'MATDATE', 'NEXTCOUPON', 'ACCRUEDINT'],
+        data: [['SU26238RMFS4', 'TQOB', 4, 58.1234, '2041-05-15', null, 12.5]]
+      }
+    }));
+
+    const [bond] = await client.getSecurities(Engine.STOCK, Market.BONDS, 1, { normalize: true });
+    const maturity: Date | null = bond.MATDATE;
+
+    expect(bond.PREVPRICE).toBe('58.1234');
+    expect(maturity).toEqual(new Date('2041-05-14T21:00:00Z'));
+    expect(bond.NEXTCOUPON).toBeNull();
+    expect(bond.ACCRUEDINT).toBe(12.5);
+  });
+});
@@ -0,0 +1,161 @@
+// Tests for getOrderBook and order book helpers (injected transport, no network)
+import { MoexClient, FetchLike } from '../src/moex-client';
+import { buildOrderBook, cumulativeDepth, depthWithinBps } from '../src/orderbook';
+import { Engine, Market, OrderBookRow } from '../src/types';
+import { ok, mockClient } from './helpers';
+
+const row = (buysell: 'B' | 'S', price: number, quantity: number): OrderBookRow => ({
+  SECID: 'SBER',
+  BOARDID: 'TQBR',
+  BUYSELL: buysell,
+  PRICE: price,
+  QUANTITY: quantity,
+  SEQNUM: 20240110100001,
+  UPDATETIME: '10:00:01',
+  DECIMALS: 2
+});
+
+describe('buildOrderBook', () => {
+  it('should sort levels and compute best prices, mid and spread', () => {
+    const book = buildOrderBook('SBER', [
+      row('S', 100.2, 5),
+      row('B', 99.8, 7),
+      row('S', 100.1, 3),
+      row('B', 99.9, 2)
+    ]);
+
+    expect(book.available).toBe(true);
+    expect(book.boardid).toBe('TQBR');
+    expect(book.bids.map(level => level.price)).toEqual([99.9, 99.8]);
+    expect(book.asks.map(level => level.price)).toEqual([100.1, 100.2]);
+    expect(book.bestBid).toBe(99.9);
+    expect(book.bestAsk).toBe(100.1);
+    expect(book.mid).toBeCloseTo(100);
+    expect(book.spread).toBeCloseTo(0.2);
+    expect(book.spreadBps).toBeCloseTo(20);
+  });
+
+  it('should mark empty book as unavailable', () => {
+    const book = buildOrderBook('SBER', []);
+
+    expect(book.available).toBe(false);
+    expect(book.bestBid).toBeNull();
+    expect(book.bestAsk).toBeNull();
+    expect(book.mid).toBeNull();
+    expect(book.spread).toBeNull();
+    expect(book.spreadBps).toBeNull();
+  });
+
+  it('should leave mid and spread empty for one-sided book', () => {
+    const book = buildOrderBook('SBER', [row('B', 99.9, 2)]);
+
+    expect(book.available).toBe(true);
+    expect(book.bestBid).toBe(99.9);
+    expect(book.bestAsk).toBeNull();
+    expect(book.mid).toBeNull();
+  });
+});
+
+describe('depth helpers', () => {
+  const book = buildOrderBook('SBER', [
+    row('B', 99.9, 2),
+    row('B', 99.8, 7),
+    row('B', 98, 100),
+    row('S', 100.1, 3),
+    row('S', 100.2, 5)
+  ]);
+
+  it('should accumulate quantity and value from best price', () => {
+    expect(cumulativeDepth(book.bids)).toEqual([
+      { price: 99.9, quantity: 2, cumulativeQuantity: 2, cumulativeValue: 199.8 },
+      { price: 99.8, quantity: 7, cumulativeQuantity: 9, cumulativeValue: 199.8 + 698.6 },
+      { price: 98, quantity: 100, cumulativeQuantity: 109, cumulativeValue: 199.8 + 698.6 + 9800 }
+    ]);
+  });
+
+  it('should sum depth within basis points of mid', () => {
+    expect(depthWithinBps(book, 50)).toEqual({ bids: 9, asks: 8 });
+  });
+});
+
+describe('getOrderBook', () => {
+  let mockFetch: jest.MockedFunction<FetchLike>;
+  let client: MoexClient;
+
+  beforeEach(() => {
+    ({ client, fetch: mockFetch } = mockClient());
+  });
+
+  it('should request order book and build model', async () => {
+    mockFetch.mockResolvedValueOnce(ok({
+      orderbook: {
+        columns: ['SECID', 'BOARDID', 'BUYSELL', 'PRICE', 'QUANTITY', 'SEQNUM', 'UPDATETIME', 'DECIMALS'],
+        data: [
+          ['SBER', 'TQBR', 'B', 270.1, 10, 1, '10:00:01', 2],
+          ['SBER', 'TQBR', 'S', 270.2, 20, 2, '10:00:01', 2]
+        ]
+      }
+    }));
+
+    const book = await client.getOrderBook('SBER', Engine.STOCK, Market.SHARES, 'TQBR');
+
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      'https://iss.moex.com/iss/engines/stock/markets/shares/boards/TQBR/securities/SBER/orderbook.json?iss.meta=off&iss.only=orderbook'
+    );
+    expect(book.available).toBe(true);
+    expect(book.bestBid).toBe(270.1);
+    expect(book.bestAsk).toBe(270.2);
+    expect(book.seqnum).toBe(2);
+  });
+
+  it('should report unavailable book when ISS returns no rows', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      json: async () => ({ orderbook: { columns: [], data: [] } })
+    });
+
+    const book = await client.getOrderBook('SBER');
+
+    expect(mockFetch.mock.calls[0][0]).toContain('/engines/stock/markets/shares/securities/SBER/orderbook.json');
+    expect(book.available).toBe(false);
+    expect(book.secid).toBe('SBER');
+    expect(book.bids).toEqual([]);
+  });
+
+  const twoBoards = () => ({
+    ok: true,
+    status: 200,
+    json: async () => ({
+      orderbook: {
+        columns: ['SECID', 'BOARDID', 'BUYSELL', 'PRICE', 'QUANTITY', 'SEQNUM', 'UPDATETIME', 'DECIMALS'],
+        data: [
+          ['SBER', 'TQBR', 'B', 270.1, 10, 1, '10:00:01', 2],
+          ['SBER', 'SMAL', 'B', 269.5, 3, 2, '10:00:02', 2],
+          ['SBER', 'TQBR', 'S', 270.2, 20, 3, '10:00:01', 2],
+          ['SBER', 'SMAL', 'S', 271, 1, 4, '10:00:02', 2]
+        ]
+      }
+    })
+  });
+
+  it('should not merge levels of different boards without board', async () => {
+    mockFetch.mockResolvedValueOnce(twoBoards());
+
+    await expect(client.getOrderBook('SBER')).rejects.toThrow(
+      'Order book for SBER spans several boards (TQBR, SMAL): pass board or use getOrderBooks'
+    );
+  });
+
+  it('should return one book per board', async () => {
+    mockFetch.mockResolvedValueOnce(twoBoards());
+
+    const books = await client.getOrderBooks('SBER');
+
+    expect(books.map(book => book.boardid)).toEqual(['TQBR', 'SMAL']);
+    expect(books[0].bids).toEqual([{ price: 270.1, quantity: 10 }]);
+    expect(books[0].asks).toEqual([{ price: 270.2, quantity: 20 }]);
+    expect(books[1].bestBid).toBe(269.5);
+    expect(books[1].bestAsk).toBe(271);
+  });
+});
@@ -0,0 +1,174 @@
+// Tests for RateLimiter and MoexClient retry policy (injected transport, no network)
+import { RateLimiter } from '../src/rate-limiter';
+import { MoexClient, FetchLike } from '../src/moex-client';
+import { MoexHttpError, MoexNotFoundError, MoexRateLimitError } from '../src/errors';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const okResponse = (body: unknown) => ({ ok: true, status: 200, json: async () => body });
+const errorResponse = (status: number, headers: Record<string, string> = {}) => ({
+  ok: false,
+  status,
+  headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+  json: async () => ({}),
+  text: async () => ''
+});
+
+describe('RateLimiter', () => {
+  it('should not exceed max concurrency', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 2 });
+    let running = 0;
+    let peak = 0;
+
+    const task = async (i: number) => {
+      running++;
+      peak = Math.max(peak, running);
+      await delay(10);
+      running--;
+      return i;
+    };
+
+    const results = await Promise.all([1, 2, 3, 4, 5].map(i => limiter.schedule(() => task(i))));
+
+    expect(results).toEqual([1, 2, 3, 4, 5]);
+    expect(peak).toBe(2);
+  });
+
+  it('should space task starts by requests-per-second budget', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 20 });
+    const starts: number[] = [];
+
+    await Promise.all([1, 2, 3, 4].map(() => limiter.schedule(async () => {
+      starts.push(Date.now());
+    })));
+
+    for (let i = 1; i < starts.length; i++) {
+      // 50 ms between starts, minus timer granularity
+      expect(starts[i] - starts[i - 1]).toBeGreaterThanOrEqual(45);
+    }
+  });
+
+  it('should propagate task errors and keep processing the queue', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1 });
+
+    const failed = limiter.schedule(async () => { throw new Error('boom'); });
+    const succeeded = limiter.schedule(async () => 'ok');
+
+    await expect(failed).rejects.toThrow('boom');
+    await expect(succeeded).resolves.toBe('ok');
+  });
+
+  it('should reject limits that never start a task', () => {
+    for (const maxConcurrent of [0, -1, 1.5, NaN]) {
+      expect(() => new RateLimiter({ maxConcurrent })).toThrow(new RangeError(`Invalid maxConcurrent: ${maxConcurrent}`));
+    }
+    for (const requestsPerSecond of [0, -5, NaN]) {
+      expect(() => new RateLimiter({ requestsPerSecond })).toThrow(new RangeError(`Invalid requestsPerSecond: ${requestsPerSecond}`));
+    }
+    expect(() => new RateLimiter({ maxConcurrent: Infinity, requestsPerSecond: 0.5 })).not.toThrow();
+  });
+});
+
+describe('MoexClient retry', () => {
+  let mockFetch: jest.MockedFunction<FetchLike>;
+  const sessions = { sessions: { columns: ['BOARDID'], data: [['TQBR']] } };
+
+  beforeEach(() => {
+    mockFetch = jest.fn();
+  });
+
+  it('should not retry by default', async () => {
+    mockFetch.mockResolvedValueOnce(errorResponse(503));
+    const client = new MoexClient({ fetch: mockFetch, validateRoutes: false });
+
+    await expect(client.getTradingSessions()).rejects.toBeInstanceOf(MoexHttpError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry 5xx and network errors with backoff', async () => {
+    mockFetch
+      .mockResolvedValueOnce(errorResponse(502))
+      .mockRejectedValueOnce(new Error('ECONNRESET'))
+      .mockResolvedValueOnce(okResponse(sessions));
+    const client = new MoexClient({ fetch: mockFetch, validateRoutes: false, retry: { retries: 3, minDelay: 1 } });
+
+    const result = await client.getTradingSessions();
+
+    expect(result).toEqual([{ BOARDID: 'TQBR' }]);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should give up after configured retries', async () => {
+    mockFetch.mockResolvedValue(errorResponse(500));
+    const client = new MoexClient({ fetch: mockFetch, validateRoutes: false, retry: { retries: 2, minDelay: 1 } });
+
+    await expect(client.getTradingSessions()).rejects.toThrow('HTTP error! status: 500');
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry client errors', async () => {
+    mockFetch.mockResolvedValueOnce(errorResponse(404));
+    const client = new MoexClient({ fetch: mockFetch, validateRoutes: false, retry: { retries: 3, minDelay: 1 } });
+
+    await expect(client.getTradingSessions()).rejects.toBeInstanceOf(MoexNotFoundError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should honor Retry-After on 429', async () => {
+    mockFetch
+      .mockResolvedValueOnce(errorResponse(429, { 'retry-after': '0.1' }))
+      .mockResolvedValueOnce(okResponse(sessions));
+    const client = new MoexClient({ fetch: mockFetch, validateRoutes: false, retry: { retries: 1, minDelay: 1, maxDelay: 1000 } });
+
+    const started = Date.now();
+    await client.getTradingSessions();
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(90);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should cap Retry-After at maxDelay', async () => {
+    mockFetch
+      .mockResolvedValueOnce(errorResponse(429, { 'retry-after': '3600' }))
+      .mockResolvedValueOnce(okResponse(sessions));
+    const client = new MoexClient({ fetch: mockFetch, validateRoutes: false, retry: { retries: 1, minDelay: 1, maxDelay: 20 } });
+
+    const started = Date.now();
+    await client.getTradingSessions();
+
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should surface MoexRateLimitError when retries are exhausted', async () => {
+    mockFetch.mockResolvedValue(errorResponse(429));
+    const client = new MoexClient({ fetch: mockFetch, validateRoutes: false, retry: { retries: 1, minDelay: 1 } });
+
+    await expect(client.getTradingSessions()).rejects.toBeInstanceOf(MoexRateLimitError);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should route requests through shared rate limiter', async () => {
+    let running = 0;
+    let peak = 0;
+    mockFetch.mockImplementation(async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await delay(5);
+      running--;
+      return okResponse(sessions);
+    });
+    const limiter = new RateLimiter({ maxConcurrent: 1 });
+    const first = new MoexClient({ fetch: mockFetch, validateRoutes: false, rateLimit: limiter });
+    const second = new MoexClient({ fetch: mockFetch, validateRoutes: false, rateLimit: limiter });
+
+    await Promise.all([
+      first.getTradingSessions(),
+      second.getTradingSessions(),
+      first.getTradingSessions()
+    ]);
+
+    expect(peak).toBe(1);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,140 @@
+// Tests for runtime schema validation and drift reporting (injected transport, no network)
+import { validateBlock, coerceValue, SECURITY_SCHEMA, SchemaDrift, Schema } from '../src/schema';
+import { MoexClient, FetchLike } from '../src/moex-client';
+import { MoexSchemaError, MoexParseError } from '../src/errors';
+import { ok } from './helpers';
+
+interface Row {
+  ID: string;
+  PRICE: number | null;
+  TRADEDATE: string;
+}
+
+const ROW_SCHEMA: Schema<Row> = {
+  ID: { type: 'string' },
+  PRICE: { type: 'number', nullable: true },
+  TRADEDATE: { type: 'date' }
+};
+
+const securitiesResponse = (columns: string[], data: unknown[][]) => ok({ securities: { columns, data } });
+
+const fullSecurityRow = (): [string[], unknown[]] => {
+  const columns = Object.keys(SECURITY_SCHEMA);
+  const row = columns.map(column => {
+    const spec = (SECURITY_SCHEMA as any)[column];
+    if (spec.type === 'number') return 1;
+    if (spec.type === 'date') return '2024-01-10';
+    return 'X';
+  });
+  return [columns, row];
+};
+
+describe('coerceValue', () => {
+  it('should convert numeric strings for number columns', () => {
+    expect(coerceValue({ type: 'number' }, '12.5')).toBe(12.5);
+    expect(coerceValue({ type: 'number' }, '')).toBe('');
+    expect(coerceValue({ type: 'string' }, '12.5')).toBe('12.5');
+  });
+
+  it('should turn ISS empty dates into null', () => {
+    expect(coerceValue({ type: 'date' }, '0000-00-00')).toBeNull();
+    expect(coerceValue({ type: 'datetime' }, '0000-00-00 00:00:00')).toBeNull();
+    expect(coerceValue({ type: 'date' }, '2024-01-10')).toBe('2024-01-10');
+  });
+});
+
+describe('validateBlock', () => {
+  it('should return null when block matches schema', () => {
+    const drift = validateBlock('rows', ['ID', 'PRICE', 'TRADEDATE'], [
+      ['A', 1.5, '2024-01-10'],
+      ['B', null, '2024-01-11']
+    ], ROW_SCHEMA);
+
+    expect(drift).toBeNull();
+  });
+
+  it('should report missing and unexpected columns', () => {
+    const drift = validateBlock('rows', ['ID', 'TRADEDATE', 'NEWCOL'], [['A', '2024-01-10', 1]], ROW_SCHEMA);
+
+    expect(drift).toEqual({
+      block: 'rows',
+      missingColumns: ['PRICE'],
+      unexpectedColumns: ['NEWCOL'],
+      typeMismatches: []
+    });
+  });
+
+  it('should aggregate type mismatches per column', () => {
+    const drift = validateBlock('rows', ['ID', 'PRICE', 'TRADEDATE'], [
+      [null, 'n/a', '10.01.2024'],
+      [null, 'n/a', '2024-01-10']
+    ], ROW_SCHEMA);
+
+    expect(drift!.typeMismatches).toEqual([
+      { column: 'ID', expected: 'string', actual: 'null', value: null, rows: 2 },
+      { column: 'PRICE', expected: 'number', actual: 'string', value: 'n/a', rows: 2 },
+      { column: 'TRADEDATE', expected: 'date', actual: 'string', value: '10.01.2024', rows: 1 }
+    ]);
+  });
+});
+
+describe('MoexClient schemaDrift', () => {
+  let mockFetch: jest.MockedFunction<FetchLike>;
+
+  beforeEach(() => {
+    mockFetch = jest.fn();
+  });
+
+  it('should ignore drift by default', async () => {
+    mockFetch.mockResolvedValueOnce(securitiesResponse(['SECID'], [['SBER']]));
+    const client = new MoexClient({ fetch: mockFetch, validateRoutes: false });
+
+    await expect(client.getSecurities()).resolves.toEqual([{ SECID: 'SBER' }]);
+  });
+
+  it('should coerce values even when drift is ignored', async () => {
+    mockFetch.mockResolvedValueOnce(securitiesResponse(['SECID', 'PREVPRICE', 'SETTLEDATE'], [['SBER', '270.5', '0000-00-00']]));
+    const client = new MoexClient({ fetch: mockFetch, validateRoutes: false });
+
+    await expect(client.getSecurities()).resolves.toEqual([{ SECID: 'SBER', PREVPRICE: 270.5, SETTLEDATE: null }]);
+  });
+
+  it('should throw MoexSchemaError on missing columns', async () => {
+    mockFetch.mockResolvedValueOnce(securitiesResponse(['SECID', 'BOARDID'], [['SBER', 'TQBR']]));
+    const client = new MoexClient({ fetch: mockFetch, validateRoutes: false, schemaDrift: 'throw' });
+
+    const error = await client.getSecurities().catch(e => e);
+
+    expect(error).toBeInstanceOf(MoexSchemaError);
+    expect(error).toBeInstanceOf(MoexParseError);
+    expect(error.drift.missingColumns).toContain('SHORTNAME');
+    expect(error.message).toContain('missing column SHORTNAME');
+    expect(error.url).toContain('securities.json');
+  });
+
+  it('should not throw on new columns only', async () => {
+    const [columns, row] = fullSecurityRow();
+    mockFetch.mockResolvedValueOnce(securitiesResponse([...columns, 'NEWCOL'], [[...row, 42]]));
+    const client = new MoexClient({ fetch: mockFetch, validateRoutes: false, schemaDrift: 'throw' });
+
+    const result = await client.getSecurities();
+
+    expect(result).toHaveLength(1);
+  });
+
+  it('should pass drift report to callback', async () => {
+    const [columns, row] = fullSecurityRow();
+    row[columns.indexOf('LOTSIZE')] = null;
+    mockFetch.mockResolvedValueOnce(securitiesResponse(columns, [row]));
+    const reports: SchemaDrift[] = [];
+    const client = new MoexClient({ fetch: mockFetch, validateRoutes: false, schemaDrift: drift => reports.push(drift) });
+
+    const result = await client.getSecurities();
+
+    expect(result).toHaveLength(1);
+    expect(reports).toHaveLength(1);
+    expect(reports[0].typeMismatches).toEqual([
+      { column: 'LOTSIZE', expected: 'number', actual: 'null', value: null, rows: 1 }
+    ]);
+  });
+});
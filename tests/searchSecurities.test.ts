@@ -0,0 +1,93 @@
+// Tests for searchSecurities (injected transport, no network)
+import { MoexClient, FetchLike } from '../src/moex-client';
+import { Engine, Market } from '../src/types';
+import { ok, mockClient } from './helpers';
+
+const SEARCH_COLUMNS = [
+  'id', 'secid', 'shortname', 'regnumber', 'name', 'isin', 'is_traded', 'emitent_id', 'emitent_title',
+  'emitent_inn', 'type', 'group', 'primary_boardid', 'marketprice_boardid'
+];
+
+const searchResponse = (rows: Array<[string, string | null]>) => ok({
+  securities: {
+    columns: SEARCH_COLUMNS,
+    data: rows.map(([secid, isin], i) => [
+      i + 1, secid, `${secid} short`, null, `${secid} name`, isin, 1, 1199, 'ПАО Сбербанк',
+      '7707083893', 'common_share', 'stock_shares', 'TQBR', 'TQBR'
+    ])
+  }
+});
+
+describe('searchSecurities', () => {
+  let mockFetch: jest.MockedFunction<FetchLike>;
+  let client: MoexClient;
+
+  beforeEach(() => {
+    ({ client, fetch: mockFetch } = mockClient());
+  });
+
+  it('should encode the query and map typed results', async () => {
+    mockFetch.mockResolvedValueOnce(searchResponse([['SBER', 'RU0009029540']]));
+
+    const result = await client.searchSecurities('Сбер');
+
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      'https://iss.moex.com/iss/securities.json?iss.meta=off&iss.only=securities&q=%D0%A1%D0%B1%D0%B5%D1%80&start=0&limit=100'
+    );
+    expect(result[0]).toMatchObject({
+      secid: 'SBER',
+      isin: 'RU0009029540',
+      emitent_title: 'ПАО Сбербанк',
+      group: 'stock_shares',
+      primary_boardid: 'TQBR'
+    });
+  });
+
+  it('should pass engine, market, trading and group filters', async () => {
+    mockFetch.mockResolvedValueOnce(searchResponse([]));
+
+    await client.searchSecurities('ОФЗ', {
+      engine: Engine.STOCK,
+      market: Market.BONDS,
+      isTrading: true,
+      group: 'stock_bonds'
+    });
+
+    const url = mockFetch.mock.calls[0][0];
+    expect(url).toContain('&engine=stock&market=bonds&is_trading=1&group_by=group&group_by_filter=stock_bonds&');
+  });
+
+  it('should send is_trading=0 for isTrading: false', async () => {
+    mockFetch.mockResolvedValueOnce(searchResponse([]));
+
+    await client.searchSecurities('SBER', { isTrading: false });
+
+    expect(mockFetch.mock.calls[0][0]).toContain('&is_trading=0&');
+  });
+
+  it('should page through results up to the limit', async () => {
+    mockFetch
+      .mockResolvedValueOnce(searchResponse([['A', null], ['B', null]]))
+      .mockResolvedValueOnce(searchResponse([['C', null]]));
+
+    const result = await client.searchSecurities('X', { limit: 3, pageSize: 2 });
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(mockFetch.mock.calls[0][0]).toContain('&start=0&limit=2');
+    expect(mockFetch.mock.calls[1][0]).toContain('&start=2&limit=1');
+    expect(result.map(r => r.secid)).toEqual(['A', 'B', 'C']);
+  });
+
+  it('should put exact SECID and ISIN matches first', async () => {
+    mockFetch.mockResolvedValueOnce(searchResponse([
+      ['SBERP', 'RU0009029557'],
+      ['SBER_ISIN', 'SBER'],
+      ['RU000A0JX0J2', 'RU000A0JX0J3'],
+      ['SBER', 'RU0009029540']
+    ]));
+
+    const result = await client.searchSecurities(' sber ');
+
+    expect(result.map(r => r.secid)).toEqual(['SBER', 'SBER_ISIN', 'SBERP', 'RU000A0JX0J2']);
+  });
+});
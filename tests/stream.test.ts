@@ -0,0 +1,308 @@
+// Tests for MoexStream against an in-process STOMP stand-in server (local WebSocket, no network)
+import { AddressInfo } from 'net';
+import { WebSocketServer, WebSocket as ServerSocket } from 'ws';
+import { MoexStream, encodeStompFrame, decodeStompFrame } from '../src/stream';
+import { MoexError } from '../src/errors';
+import { MarketData } from '../src/types';
+
+interface ReceivedFrame {
+  command: string;
+  headers: Record<string, string>;
+  socket: ServerSocket;
+}
+
+// Minimal STOMP server: answers CONNECT with CONNECTED and records every client frame
+class StompStandIn {
+  readonly frames: ReceivedFrame[] = [];
+  readonly heartbeats: ServerSocket[] = [];
+  connections = 0;
+  heartBeatHeader = '0,0';
+  rejectConnect: string | undefined;
+
+  private constructor(private readonly server: WebSocketServer) {
+    server.on('connection', socket => {
+      this.connections++;
+      socket.on('message', data => {
+        const text = data.toString();
+        if (text === '\n') {
+          this.heartbeats.push(socket);
+          return;
+        }
+        for (const chunk of text.split('\0')) {
+          const frame = decodeStompFrame(chunk);
+          if (!frame) {
+            continue;
+          }
+          this.frames.push({ command: frame.command, headers: frame.headers, socket });
+          if (frame.command === 'CONNECT') {
+            socket.send(this.rejectConnect
+              ? encodeStompFrame('ERROR', { message: this.rejectConnect })
+              : encodeStompFrame('CONNECTED', { version: '1.2', 'heart-beat': this.heartBeatHeader }));
+          }
+        }
+      });
+    });
+  }
+
+  static start(): Promise<StompStandIn> {
+    return new Promise(resolve => {
+      const server: WebSocketServer = new WebSocketServer({ port: 0, host: '127.0.0.1' }, () => resolve(new StompStandIn(server)));
+    });
+  }
+
+  get url(): string {
+    return `ws://127.0.0.1:${(this.server.address() as AddressInfo).port}/infocx/v3/websocket`;
+  }
+
+  framesOf(command: string): ReceivedFrame[] {
+    return this.frames.filter(frame => frame.command === command);
+  }
+
+  send(socket: ServerSocket, subscription: string, body: unknown, binary = false): void {
+    const frame = encodeStompFrame('MESSAGE', { subscription, destination: 'MXSE.securities', 'message-id': '1' }, JSON.stringify(body));
+    socket.send(binary ? Buffer.from(frame) : frame, { binary });
+  }
+
+  dropClients(): void {
+    for (const client of this.server.clients) {
+      client.terminate();
+    }
+  }
+
+  stop(): Promise<void> {
+    this.dropClients();
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+}
+
+const waitFor = async (predicate: () => boolean, timeout = 2000): Promise<void> => {
+  const deadline = Date.now() + timeout;
+  while (!predicate()) {
+    if (Date.now() > deadline) {
+      throw new Error('Condition was not met in time');
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+describe('STOMP frames', () => {
+  it('should round-trip escaped headers and body', () => {
+    const text = encodeStompFrame('SEND', { destination: 'a:b', note: 'line\nbreak' }, '{"x":1}');
+
+    expect(text.endsWith('\0')).toBe(true);
+    expect(decodeStompFrame(text.slice(0, -1))).toEqual({
+      command: 'SEND',
+      headers: { destination: 'a:b', note: 'line\nbreak' },
+      body: '{"x":1}'
+    });
+  });
+
+  it('should not escape CONNECT headers and treat bare newlines as heart-beats', () => {
+    expect(encodeStompFrame('CONNECT', { passcode: 'a:b' })).toBe('CONNECT\npasscode:a:b\n\n\0');
+    expect(decodeStompFrame('\n\n')).toBeNull();
+  });
+});
+
+describe('MoexStream', () => {
+  let server: StompStandIn;
+  let stream: MoexStream;
+
+  beforeEach(async () => {
+    server = await StompStandIn.start();
+  });
+
+  afterEach(async () => {
+    stream?.close();
+    await server.stop();
+  });
+
+  it('should connect with credentials and proposed heart-beat', async () => {
+    stream = new MoexStream({
+      url: server.url,
+      credentials: { login: 'user', passcode: 'secret' },
+      heartbeat: { outgoing: 0, incoming: 0 }
+    });
+
+    await stream.connect();
+
+    expect(stream.connected).toBe(true);
+    const [connect] = server.framesOf('CONNECT');
+    expect(connect.headers).toEqual({
+      'accept-version': '1.2',
+      host: '127.0.0.1',
+      'heart-beat': '0,0',
+      login: 'user',
+      passcode: 'secret',
+      domain: 'passport'
+    });
+  });
+
+  it('should subscribe to market data and deliver typed rows', async () => {
+    stream = new MoexStream({ url: server.url, heartbeat: { outgoing: 0, incoming: 0 } });
+    const received: MarketData[] = [];
+    const subscription = stream.subscribeMarketData(['SBER', 'GAZP'], rows => received.push(...rows));
+
+    await stream.connect();
+    await waitFor(() => server.framesOf('SUBSCRIBE').length === 1);
+
+    const [subscribe] = server.framesOf('SUBSCRIBE');
+    expect(subscribe.headers).toEqual({
+      id: subscription.id,
+      destination: 'MXSE.securities',
+      selector: 'TICKER in ("MXSE.TQBR.SBER","MXSE.TQBR.GAZP")'
+    });
+
+    server.send(subscribe.socket, subscription.id, {
+      columns: ['SECID', 'BOARDID', 'LAST', 'SEQNUM'],
+      data: [['SBER', 'TQBR', '270.5', 20240315100000]]
+    });
+    await waitFor(() => received.length === 1);
+
+    expect(received[0]).toEqual({ SECID: 'SBER', BOARDID: 'TQBR', LAST: 270.5, SEQNUM: 20240315100000 });
+  });
+
+  it('should decode binary frames', async () => {
+    stream = new MoexStream({ url: server.url, heartbeat: { outgoing: 0, incoming: 0 } });
+    const received: MarketData[] = [];
+    const subscription = stream.subscribeMarketData(['SBER'], rows => received.push(...rows));
+    await stream.connect();
+    await waitFor(() => server.framesOf('SUBSCRIBE').length === 1);
+
+    server.send(server.frames[0].socket, subscription.id, { columns: ['SECID', 'SHORTNAME'], data: [['SBER', 'Сбербанк']] }, true);
+    await waitFor(() => received.length === 1);
+
+    expect(received[0]).toEqual({ SECID: 'SBER', SHORTNAME: 'Сбербанк' });
+  });
+
+  it('should report a throwing listener and keep delivering messages', async () => {
+    stream = new MoexStream({ url: server.url, heartbeat: { outgoing: 0, incoming: 0 } });
+    const errors: MoexError[] = [];
+    stream.on('error', error => errors.push(error));
+    const listener = jest.fn()
+      .mockImplementationOnce(() => {
+        throw new Error('listener bug');
+      });
+    const subscription = stream.subscribeMarketData(['SBER'], listener);
+    await stream.connect();
+    await waitFor(() => server.framesOf('SUBSCRIBE').length === 1);
+
+    server.send(server.frames[0].socket, subscription.id, { columns: ['SECID'], data: [['SBER']] });
+    server.send(server.frames[0].socket, subscription.id, { columns: ['SECID'], data: [['SBER']] });
+    await waitFor(() => listener.mock.calls.length === 2);
+
+    expect(errors.map(error => error.message)).toEqual(['Stream listener failed: listener bug']);
+    expect(stream.connected).toBe(true);
+  });
+
+  it('should use the board option in the selector', async () => {
+    stream = new MoexStream({ url: server.url, heartbeat: { outgoing: 0, incoming: 0 } });
+    stream.subscribeTrades(['SU26238RMFS4'], () => undefined, { board: 'TQOB' });
+
+    await stream.connect();
+    await waitFor(() => server.framesOf('SUBSCRIBE').length === 1);
+
+    expect(server.framesOf('SUBSCRIBE')[0].headers).toMatchObject({
+      destination: 'MXSE.trades',
+      selector: 'TICKER in ("MXSE.TQOB.SU26238RMFS4")'
+    });
+  });
+
+  it('should send UNSUBSCRIBE and stop delivering messages', async () => {
+    stream = new MoexStream({ url: server.url, heartbeat: { outgoing: 0, incoming: 0 } });
+    const listener = jest.fn();
+    const subscription = stream.subscribeMarketData(['SBER'], listener);
+    await stream.connect();
+    await waitFor(() => server.framesOf('SUBSCRIBE').length === 1);
+
+    subscription.unsubscribe();
+    await waitFor(() => server.framesOf('UNSUBSCRIBE').length === 1);
+    server.send(server.frames[0].socket, subscription.id, { columns: ['SECID'], data: [['SBER']] });
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(server.framesOf('UNSUBSCRIBE')[0].headers).toEqual({ id: subscription.id });
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should reconnect and resubscribe after the connection drops', async () => {
+    stream = new MoexStream({ url: server.url, heartbeat: { outgoing: 0, incoming: 0 }, reconnectDelay: 10 });
+    const subscription = stream.subscribeMarketData(['SBER'], () => undefined);
+    const disconnected = jest.fn();
+    stream.on('disconnected', disconnected);
+    await stream.connect();
+    await waitFor(() => server.framesOf('SUBSCRIBE').length === 1);
+
+    server.dropClients();
+    await waitFor(() => server.framesOf('SUBSCRIBE').length === 2);
+
+    expect(disconnected).toHaveBeenCalledTimes(1);
+    expect(server.connections).toBe(2);
+    expect(server.framesOf('SUBSCRIBE')[1].headers.id).toBe(subscription.id);
+    expect(stream.connected).toBe(true);
+  });
+
+  it('should report ERROR frames', async () => {
+    server.rejectConnect = 'Authentication failed';
+    stream = new MoexStream({ url: server.url, heartbeat: { outgoing: 0, incoming: 0 }, reconnect: false });
+    const errors: MoexError[] = [];
+    stream.on('error', error => errors.push(error));
+
+    await expect(stream.connect()).rejects.toThrow('Stream error: Authentication failed');
+
+    expect(errors.map(error => error.message)).toEqual(['Stream error: Authentication failed']);
+  });
+
+  it('should reject connect on the first failure without reconnecting', async () => {
+    server.rejectConnect = 'Authentication failed';
+    stream = new MoexStream({ url: server.url, heartbeat: { outgoing: 0, incoming: 0 }, reconnectDelay: 10 });
+
+    await expect(stream.connect()).rejects.toThrow('Stream error: Authentication failed');
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(server.connections).toBe(1);
+
+    // The stream is not closed: connect can be called again
+    server.rejectConnect = undefined;
+    await stream.connect();
+    expect(stream.connected).toBe(true);
+    expect(server.connections).toBe(2);
+  });
+
+  it('should reject connect when the server is unreachable', async () => {
+    const url = server.url;
+    await server.stop();
+    server = await StompStandIn.start();
+    stream = new MoexStream({ url, heartbeat: { outgoing: 0, incoming: 0 }, reconnectDelay: 10 });
+
+    await expect(stream.connect()).rejects.toThrow('Failed to connect to stream');
+  });
+
+  it('should send heart-beats at the negotiated interval', async () => {
+    server.heartBeatHeader = '0,30';
+    stream = new MoexStream({ url: server.url, heartbeat: { outgoing: 20, incoming: 0 } });
+
+    await stream.connect();
+    await waitFor(() => server.heartbeats.length >= 2);
+  });
+
+  it('should reconnect when the server stops sending heart-beats', async () => {
+    server.heartBeatHeader = '20,0';
+    stream = new MoexStream({ url: server.url, heartbeat: { outgoing: 0, incoming: 20 }, reconnectDelay: 10 });
+    const errors: MoexError[] = [];
+    stream.on('error', error => errors.push(error));
+
+    await stream.connect();
+    await waitFor(() => server.connections === 2);
+
+    expect(errors[0].message).toBe('Stream heart-beat timeout');
+  });
+
+  it('should reject connect after close', async () => {
+    stream = new MoexStream({ url: server.url, heartbeat: { outgoing: 0, incoming: 0 } });
+    await stream.connect();
+
+    stream.close();
+
+    expect(stream.connected).toBe(false);
+    await expect(stream.connect()).rejects.toThrow('Stream is closed');
+    await waitFor(() => server.framesOf('DISCONNECT').length === 1);
+  });
+});
@@ -0,0 +1,236 @@
+// Tests for subscribeMarketData polling subscription (injected transport, no network)
+import { MoexClient, FetchLike } from '../src/moex-client';
+import { MarketDataUpdate } from '../src/types';
+import { ok, mockClient } from './helpers';
+
+type Row = [secid: string, last: number, seqnum: number, updatetime: string];
+
+const marketData = (rows: Row[]) => ok({
+  marketdata: {
+    columns: ['SECID', 'BOARDID', 'LAST', 'SEQNUM', 'UPDATETIME'],
+    data: rows.map(([secid, last, seqnum, updatetime]) => [secid, 'TQBR', last, seqnum, updatetime])
+  }
+});
+
+// Weekdays 06:50-23:50 Moscow time, no calendar exceptions
+const engineResponse = ok({
+  timetable: {
+    columns: ['week_day', 'is_work_day', 'start_time', 'stop_time'],
+    data: [1, 2, 3, 4, 5, 6, 7].map(day => [day, day <= 5 ? 1 : 0, '06:50:00', '23:50:00'])
+  },
+  dailytable: { columns: ['date', 'is_work_day', 'start_time', 'stop_time'], data: [] }
+});
+const calendarResponse = ok({ off_days: { columns: ['tradedate', 'stock_workday'], data: [] } });
+
+// Friday, 12:00 Moscow time
+const TRADING_HOURS = new Date('2024-03-15T09:00:00Z');
+
+describe('subscribeMarketData', () => {
+  let mockFetch: jest.MockedFunction<FetchLike>;
+  let quotes: jest.MockedFunction<FetchLike>;
+  let client: MoexClient;
+
+  const calendarRequests = () => mockFetch.mock.calls.filter(([url]) => !url.includes('/securities.json'));
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: TRADING_HOURS });
+    ({ client, fetch: mockFetch } = mockClient());
+    // Market data requests go to quotes, calendar requests are answered here
+    quotes = jest.fn();
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url.includes('/securities.json')) {
+        return quotes(url);
+      }
+      return url.includes('/calendars.json') ? calendarResponse : engineResponse;
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should request all tickers in one batch', async () => {
+    quotes.mockResolvedValue(marketData([['SBER', 270, 1, '10:00:00']]));
+
+    const subscription = client.subscribeMarketData(['SBER', 'GAZP'], { intervalMs: 1000 });
+    await jest.advanceTimersByTimeAsync(0);
+    subscription.stop();
+
+    expect(quotes).toHaveBeenCalledTimes(1);
+    expect(quotes.mock.calls[0][0]).toBe(
+      'https://iss.moex.com/iss/engines/stock/markets/shares/securities.json?iss.meta=off&iss.only=marketdata&securities=SBER,GAZP'
+    );
+  });
+
+  it('should emit only instruments with a new SEQNUM or UPDATETIME and a per-field diff', async () => {
+    quotes
+      .mockResolvedValueOnce(marketData([['SBER', 270, 1, '10:00:00'], ['GAZP', 160, 1, '10:00:00']]))
+      .mockResolvedValueOnce(marketData([['SBER', 270, 1, '10:00:00'], ['GAZP', 161, 2, '10:00:05']]))
+      .mockResolvedValue(marketData([['SBER', 270, 1, '10:00:00'], ['GAZP', 161, 2, '10:00:05']]));
+
+    const updates: MarketDataUpdate[] = [];
+    const subscription = client.subscribeMarketData(['SBER', 'GAZP'], { intervalMs: 1000 });
+    subscription.on('update', update => updates.push(update));
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(updates.map(update => update.secid)).toEqual(['SBER', 'GAZP']);
+    expect(updates[0].previous).toBeNull();
+    expect(updates[0].changes.LAST).toEqual({ previous: null, current: 270 });
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(updates).toHaveLength(3);
+    expect(updates[2].secid).toBe('GAZP');
+    expect(updates[2].previous?.LAST).toBe(160);
+    expect(updates[2].changes).toEqual({
+      LAST: { previous: 160, current: 161 },
+      SEQNUM: { previous: 1, current: 2 },
+      UPDATETIME: { previous: '10:00:00', current: '10:00:05' }
+    });
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(updates).toHaveLength(3);
+    subscription.stop();
+  });
+
+  it('should back off outside trading hours and return to the base interval when trading starts', async () => {
+    // Five seconds before the session opens at 06:50 Moscow time
+    jest.setSystemTime(new Date('2024-03-15T03:49:55Z'));
+    quotes.mockResolvedValue(marketData([['SBER', 270, 1, '23:49:59']]));
+
+    const subscription = client.subscribeMarketData(['SBER'], { intervalMs: 1000, maxIntervalMs: 3000 });
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(quotes).toHaveBeenCalledTimes(1);
+
+    // First off-hours pause is 2000 ms
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(quotes).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(quotes).toHaveBeenCalledTimes(2);
+
+    // The second one is capped by maxIntervalMs
+    await jest.advanceTimersByTimeAsync(2999);
+    expect(quotes).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(quotes).toHaveBeenCalledTimes(3);
+
+    // Trading started: back to the base interval
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(quotes).toHaveBeenCalledTimes(4);
+    subscription.stop();
+
+    // The calendar of the day is loaded once: the schedule and the ISS calendar
+    expect(calendarRequests()).toHaveLength(2);
+  });
+
+  it('should back off on a day off by the calendar', async () => {
+    // Saturday, 12:00 Moscow time
+    jest.setSystemTime(new Date('2024-03-16T09:00:00Z'));
+    quotes.mockResolvedValue(marketData([['SBER', 270, 1, '23:49:59']]));
+
+    const subscription = client.subscribeMarketData(['SBER'], { intervalMs: 1000, maxIntervalMs: 8000 });
+    await jest.advanceTimersByTimeAsync(6000);
+    subscription.stop();
+
+    // Polls at 0, 2000 and 6000 ms
+    expect(quotes).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not back off when the calendar is unavailable', async () => {
+    jest.setSystemTime(new Date('2024-03-16T09:00:00Z'));
+    quotes.mockResolvedValue(marketData([['SBER', 270, 1, '10:00:00']]));
+    mockFetch.mockImplementation(async (url: string) =>
+      url.includes('/securities.json') ? quotes(url) : { ok: false, status: 404, json: async () => ({}) });
+
+    const subscription = client.subscribeMarketData(['SBER'], { intervalMs: 1000 });
+    await jest.advanceTimersByTimeAsync(2000);
+    subscription.stop();
+
+    expect(quotes).toHaveBeenCalledTimes(3);
+  });
+
+  it('should stop on AbortSignal and emit end', async () => {
+    quotes.mockResolvedValue(marketData([['SBER', 270, 1, '10:00:00']]));
+    const controller = new AbortController();
+    const onEnd = jest.fn();
+
+    const subscription = client.subscribeMarketData(['SBER'], { intervalMs: 1000, signal: controller.signal });
+    subscription.on('end', onEnd);
+    await jest.advanceTimersByTimeAsync(0);
+
+    controller.abort();
+    await jest.advanceTimersByTimeAsync(5000);
+
+    expect(subscription.stopped).toBe(true);
+    expect(onEnd).toHaveBeenCalledTimes(1);
+    expect(quotes).toHaveBeenCalledTimes(1);
+  });
+
+  it('should remove its abort listener when stopped', () => {
+    const controller = new AbortController();
+    const add = jest.spyOn(controller.signal, 'addEventListener');
+    const remove = jest.spyOn(controller.signal, 'removeEventListener');
+    quotes.mockResolvedValue(marketData([['SBER', 270, 1, '10:00:00']]));
+
+    const subscription = client.subscribeMarketData(['SBER'], { intervalMs: 1000, signal: controller.signal });
+    subscription.stop();
+
+    expect(add).toHaveBeenCalledWith('abort', expect.any(Function), { once: true });
+    expect(remove).toHaveBeenCalledWith('abort', add.mock.calls[0][1]);
+  });
+
+  it('should deliver updates through for await and stop when the loop exits', async () => {
+    quotes
+      .mockResolvedValueOnce(marketData([['SBER', 270, 1, '10:00:00']]))
+      .mockResolvedValue(marketData([['SBER', 271, 2, '10:00:01']]));
+
+    const subscription = client.subscribeMarketData(['SBER'], { intervalMs: 1000 });
+    const seen: number[] = [];
+    const consume = (async () => {
+      for await (const update of subscription) {
+        seen.push(update.data.LAST!);
+        if (seen.length === 2) {
+          break;
+        }
+      }
+    })();
+
+    await jest.advanceTimersByTimeAsync(1000);
+    await consume;
+
+    expect(seen).toEqual([270, 271]);
+    expect(subscription.stopped).toBe(true);
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(quotes).toHaveBeenCalledTimes(2);
+  });
+
+  it('should emit errors and keep polling', async () => {
+    quotes
+      .mockResolvedValueOnce({ ok: false, status: 500, json: async () => ({}) })
+      .mockResolvedValue(marketData([['SBER', 270, 1, '10:00:00']]));
+    const errors: unknown[] = [];
+    const updates: MarketDataUpdate[] = [];
+
+    const subscription = client.subscribeMarketData(['SBER'], { intervalMs: 1000 });
+    subscription.on('error', error => errors.push(error));
+    subscription.on('update', update => updates.push(update));
+
+    await jest.advanceTimersByTimeAsync(2000);
+    subscription.stop();
+
+    expect(errors).toHaveLength(1);
+    expect(updates).toHaveLength(1);
+  });
+
+  it('should reject the iterator on a polling error', async () => {
+    quotes.mockResolvedValue({ ok: false, status: 500, json: async () => ({}) });
+
+    const subscription = client.subscribeMarketData(['SBER'], { intervalMs: 1000 });
+    const next = subscription[Symbol.asyncIterator]().next();
+    next.catch(() => undefined);
+    await jest.advanceTimersByTimeAsync(0);
+
+    await expect(next).rejects.toThrow('HTTP error! status: 500');
+    expect(subscription.stopped).toBe(true);
+  });
+});